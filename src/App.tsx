@@ -3,6 +3,7 @@ import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
 import { ThemeProvider } from '@/contexts/ThemeContext';
 import { LanguageProvider } from '@/contexts/LanguageContext';
+import { OfflineProvider } from '@/contexts/OfflineContext';
 import { Layout } from '@/components/common';
 import {
   LoginPage,
@@ -13,13 +14,23 @@ import {
   UserDetailPage,
   MyLoansPage,
   LoansPage,
+  HoldsPage,
+  OverduesPage,
+  ClaimsReturnedPage,
+  DueDateExtensionPage,
+  TransfersPage,
   StatsPage,
   SettingsPage,
   Z3950SearchPage,
   ProfilePage,
   ImportIsoPage,
+  DuplicatesPage,
+  AuthorsPage,
+  AuthorDetailPage,
+  SeriesPage,
+  KioskPage,
 } from '@/pages';
-import { isLibrarian, isAdmin } from '@/types';
+import { isLibrarian, isAdmin, isKiosk } from '@/types';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -31,7 +42,7 @@ const queryClient = new QueryClient({
 });
 
 function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const { isAuthenticated, isLoading } = useAuth();
+  const { user, isAuthenticated, isLoading } = useAuth();
 
   if (isLoading) {
     return (
@@ -45,9 +56,37 @@ function ProtectedRoute({ children }: { children: React.ReactNode }) {
     return <Navigate to="/login" replace />;
   }
 
+  // Self-checkout stations never leave the kiosk screen
+  if (isKiosk(user?.account_type)) {
+    return <Navigate to="/kiosk" replace />;
+  }
+
   return <Layout>{children}</Layout>;
 }
 
+/** Full-screen route without the Layout sidebar, reserved to kiosk accounts */
+function KioskRoute({ children }: { children: React.ReactNode }) {
+  const { user, isAuthenticated, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-950">
+        <div className="h-10 w-10 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return <Navigate to="/login" replace />;
+  }
+
+  if (!isKiosk(user?.account_type)) {
+    return <Navigate to="/" replace />;
+  }
+
+  return <>{children}</>;
+}
+
 function LibrarianRoute({ children }: { children: React.ReactNode }) {
   const { user } = useAuth();
 
@@ -100,6 +139,24 @@ function AppRoutes() {
         }
       />
 
+      <Route
+        path="/series/:id"
+        element={
+          <ProtectedRoute>
+            <SeriesPage kind="series" />
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/collections/:id"
+        element={
+          <ProtectedRoute>
+            <SeriesPage kind="collection" />
+          </ProtectedRoute>
+        }
+      />
+
       <Route
         path="/my-loans"
         element={
@@ -120,6 +177,61 @@ function AppRoutes() {
         }
       />
 
+      <Route
+        path="/holds"
+        element={
+          <ProtectedRoute>
+            <LibrarianRoute>
+              <HoldsPage />
+            </LibrarianRoute>
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/overdues"
+        element={
+          <ProtectedRoute>
+            <LibrarianRoute>
+              <OverduesPage />
+            </LibrarianRoute>
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/claims-returned"
+        element={
+          <ProtectedRoute>
+            <LibrarianRoute>
+              <ClaimsReturnedPage />
+            </LibrarianRoute>
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/due-dates"
+        element={
+          <ProtectedRoute>
+            <LibrarianRoute>
+              <DueDateExtensionPage />
+            </LibrarianRoute>
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/transfers"
+        element={
+          <ProtectedRoute>
+            <LibrarianRoute>
+              <TransfersPage />
+            </LibrarianRoute>
+          </ProtectedRoute>
+        }
+      />
+
       <Route
         path="/profile"
         element={
@@ -195,6 +307,48 @@ function AppRoutes() {
         }
       />
 
+      <Route
+        path="/duplicates"
+        element={
+          <ProtectedRoute>
+            <LibrarianRoute>
+              <DuplicatesPage />
+            </LibrarianRoute>
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/authors"
+        element={
+          <ProtectedRoute>
+            <LibrarianRoute>
+              <AuthorsPage />
+            </LibrarianRoute>
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/authors/:id"
+        element={
+          <ProtectedRoute>
+            <LibrarianRoute>
+              <AuthorDetailPage />
+            </LibrarianRoute>
+          </ProtectedRoute>
+        }
+      />
+
+      <Route
+        path="/kiosk"
+        element={
+          <KioskRoute>
+            <KioskPage />
+          </KioskRoute>
+        }
+      />
+
       <Route path="*" element={<Navigate to="/" replace />} />
     </Routes>
   );
@@ -206,9 +360,11 @@ export default function App() {
       <ThemeProvider>
         <AuthProvider>
           <LanguageProvider>
-            <BrowserRouter>
-              <AppRoutes />
-            </BrowserRouter>
+            <OfflineProvider>
+              <BrowserRouter>
+                <AppRoutes />
+              </BrowserRouter>
+            </OfflineProvider>
           </LanguageProvider>
         </AuthProvider>
       </ThemeProvider>
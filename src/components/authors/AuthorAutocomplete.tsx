@@ -0,0 +1,90 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Input } from '@/components/common';
+import api from '@/services/api';
+import type { AuthorSummary } from '@/types';
+
+const MIN_QUERY_LENGTH = 2;
+
+interface AuthorAutocompleteProps {
+  /** Text typed in the field (last name) */
+  value: string;
+  onChange: (value: string) => void;
+  /** An existing authority was picked: the caller links it instead of creating a new author */
+  onSelect: (author: AuthorSummary) => void;
+  placeholder?: string;
+  /** Authors not offered again, e.g. already in the list */
+  excludeIds?: string[];
+  className?: string;
+}
+
+const formatAuthorName = (author: { lastname?: string | null; firstname?: string | null }) =>
+  [author.lastname, author.firstname].filter(Boolean).join(', ');
+
+/** Last name field suggesting existing authors, so variant spellings are not created as new authors */
+export default function AuthorAutocomplete({
+  value,
+  onChange,
+  onSelect,
+  placeholder,
+  excludeIds = [],
+  className,
+}: AuthorAutocompleteProps) {
+  const { t } = useTranslation();
+  const [results, setResults] = useState<AuthorSummary[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const query = value.trim();
+
+  useEffect(() => {
+    if (query.length < MIN_QUERY_LENGTH) return;
+    const timeoutId = setTimeout(() => {
+      api
+        .getAuthors({ name: query, per_page: 8 })
+        .then((response) => setResults(response.items))
+        .catch((error) => console.error('Error searching authors:', error));
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [query]);
+
+  const suggestions =
+    isOpen && query.length >= MIN_QUERY_LENGTH ? results.filter((author) => !excludeIds.includes(author.id)) : [];
+
+  return (
+    <div className={`relative ${className ?? ''}`}>
+      <Input
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        placeholder={placeholder}
+        autoComplete="off"
+      />
+      {suggestions.length > 0 && (
+        <div className="absolute z-10 w-full mt-1 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+          {suggestions.map((author) => (
+            <button
+              key={author.id}
+              type="button"
+              // Keeps the input focused so the list is still there when the click lands
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                onSelect(author);
+                setIsOpen(false);
+              }}
+              className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+            >
+              <span className="font-medium text-gray-900 dark:text-white">{formatAuthorName(author)}</span>
+              <span className="block text-xs text-gray-500 dark:text-gray-400">
+                {t('authors.workCount', { count: author.item_count })}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -17,9 +17,17 @@ import {
   Globe,
   Upload,
   ArrowLeftRight,
+  Bookmark,
+  AlarmClock,
+  FileQuestion,
+  CalendarClock,
+  Truck,
+  Copy,
+  Feather,
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { useTheme } from '@/contexts/ThemeContext';
+import OfflineBanner from '@/components/offline/OfflineBanner';
 import { isLibrarian, isAdmin } from '@/types';
 
 interface LayoutProps {
@@ -44,9 +52,16 @@ export default function Layout({ children }: LayoutProps) {
     { name: t('nav.catalog'), href: '/items', icon: BookOpen, show: true },
     { name: t('nav.myLoans'), href: '/my-loans', icon: BookMarked, show: true },
     { name: t('nav.loans'), href: '/loans', icon: ArrowLeftRight, show: isLibrarian(user?.account_type) },
+    { name: t('nav.overdues'), href: '/overdues', icon: AlarmClock, show: isLibrarian(user?.account_type) },
+    { name: t('nav.claimsReturned'), href: '/claims-returned', icon: FileQuestion, show: isLibrarian(user?.account_type) },
+    { name: t('nav.dueDates'), href: '/due-dates', icon: CalendarClock, show: isLibrarian(user?.account_type) },
+    { name: t('nav.transfers'), href: '/transfers', icon: Truck, show: isLibrarian(user?.account_type) },
+    { name: t('nav.holds'), href: '/holds', icon: Bookmark, show: isLibrarian(user?.account_type) },
     { name: t('nav.users'), href: '/users', icon: Users, show: isLibrarian(user?.account_type) },
     { name: t('nav.z3950Search'), href: '/z3950', icon: Globe, show: isLibrarian(user?.account_type) },
     { name: t('nav.importIso'), href: '/import-iso', icon: Upload, show: isLibrarian(user?.account_type) },
+    { name: t('nav.authors'), href: '/authors', icon: Feather, show: isLibrarian(user?.account_type) },
+    { name: t('nav.duplicates'), href: '/duplicates', icon: Copy, show: isLibrarian(user?.account_type) },
     { name: t('nav.stats'), href: '/stats', icon: BarChart3, show: isLibrarian(user?.account_type) },
     { name: t('nav.settings'), href: '/settings', icon: Settings, show: isAdmin(user?.account_type) },
   ].filter(item => item.show);
@@ -181,6 +196,9 @@ export default function Layout({ children }: LayoutProps) {
           </div>
         </header>
 
+        {/* Offline circulation status */}
+        <OfflineBanner />
+
         {/* Page content */}
         <main className="p-4 lg:p-6">{children}</main>
       </div>
@@ -0,0 +1,295 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Wallet, Banknote, HandCoins, PackageX } from 'lucide-react';
+import { Card, CardHeader, Button, Badge, Modal, Input, Table } from '@/components/common';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import { formatMoney, parsePrice } from '@/utils/money';
+import type { FineEntry, FineEntryType, FineLedger, Loan } from '@/types';
+
+const TYPE_VARIANTS: Record<FineEntryType, 'default' | 'success' | 'warning' | 'danger' | 'info'> = {
+  overdue: 'warning',
+  replacement: 'danger',
+  payment: 'success',
+  waiver: 'info',
+};
+
+type EntryFormMode = 'payment' | 'waiver' | 'replacement';
+
+interface FineLedgerCardProps {
+  userId: string;
+  /** Current loans of the user, offered when charging a replacement */
+  loans?: Loan[];
+  canManage?: boolean;
+}
+
+export default function FineLedgerCard({ userId, loans = [], canManage = false }: FineLedgerCardProps) {
+  const { t, i18n } = useTranslation();
+  const [ledger, setLedger] = useState<FineLedger | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [formMode, setFormMode] = useState<EntryFormMode | null>(null);
+
+  const fetchLedger = useCallback(async () => {
+    try {
+      const data = await api.getUserFines(userId);
+      setLedger(data);
+    } catch (error) {
+      console.error('Error fetching fines:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchLedger();
+  }, [fetchLedger]);
+
+  const money = (amount: number) => formatMoney(amount, i18n.language, ledger?.currency);
+  const balance = ledger?.balance ?? 0;
+
+  const columns = [
+    {
+      key: 'date',
+      header: t('common.date'),
+      render: (entry: FineEntry) => new Date(entry.created_at).toLocaleDateString(i18n.language),
+    },
+    {
+      key: 'type',
+      header: t('common.type'),
+      render: (entry: FineEntry) => (
+        <Badge variant={TYPE_VARIANTS[entry.type] ?? 'default'}>{t(`fines.type.${entry.type}`)}</Badge>
+      ),
+    },
+    {
+      key: 'description',
+      header: t('common.description'),
+      render: (entry: FineEntry) => (
+        <div>
+          {entry.item?.title && <p className="text-gray-900 dark:text-white">{entry.item.title}</p>}
+          {entry.reason && <p className="text-sm text-gray-500 dark:text-gray-400">{entry.reason}</p>}
+        </div>
+      ),
+    },
+    {
+      key: 'amount',
+      header: t('fines.amount'),
+      className: 'text-right',
+      render: (entry: FineEntry) => (
+        <span
+          className={`font-mono ${
+            entry.amount < 0 ? 'text-green-600 dark:text-green-400' : 'text-gray-900 dark:text-white'
+          }`}
+        >
+          {money(entry.amount)}
+        </span>
+      ),
+    },
+  ];
+
+  return (
+    <Card padding="none">
+      <div className="p-4 sm:p-6 border-b border-gray-200 dark:border-gray-800">
+        <CardHeader
+          title={t('fines.title')}
+          subtitle={
+            isLoading ? undefined : `${t('fines.balance')}: ${money(balance)}`
+          }
+          action={
+            canManage && (
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => setFormMode('payment')}
+                  disabled={balance <= 0}
+                  leftIcon={<Banknote className="h-4 w-4" />}
+                >
+                  {t('fines.recordPayment')}
+                </Button>
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => setFormMode('waiver')}
+                  disabled={balance <= 0}
+                  leftIcon={<HandCoins className="h-4 w-4" />}
+                >
+                  {t('fines.waive')}
+                </Button>
+                {loans.length > 0 && (
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => setFormMode('replacement')}
+                    leftIcon={<PackageX className="h-4 w-4" />}
+                  >
+                    {t('fines.chargeReplacement')}
+                  </Button>
+                )}
+              </div>
+            )
+          }
+        />
+        {!isLoading && balance > 0 && (
+          <div className="mt-2 flex items-center gap-2 text-amber-600 dark:text-amber-400">
+            <Wallet className="h-4 w-4" />
+            <span className="text-sm">{t('fines.outstanding', { amount: money(balance) })}</span>
+          </div>
+        )}
+      </div>
+      <Table
+        columns={columns}
+        data={ledger?.entries ?? []}
+        keyExtractor={(entry) => entry.id}
+        isLoading={isLoading}
+        emptyMessage={t('fines.noEntries')}
+      />
+
+      <Modal
+        isOpen={formMode !== null}
+        onClose={() => setFormMode(null)}
+        title={formMode ? t(`fines.form.${formMode}`) : ''}
+      >
+        {formMode && (
+          <FineEntryForm
+            mode={formMode}
+            userId={userId}
+            balance={balance}
+            loans={loans}
+            onSuccess={() => {
+              setFormMode(null);
+              fetchLedger();
+            }}
+          />
+        )}
+      </Modal>
+    </Card>
+  );
+}
+
+interface FineEntryFormProps {
+  mode: EntryFormMode;
+  userId: string;
+  balance: number;
+  loans: Loan[];
+  onSuccess: () => void;
+}
+
+function FineEntryForm({ mode, userId, balance, loans, onSuccess }: FineEntryFormProps) {
+  const { t } = useTranslation();
+  const [amount, setAmount] = useState(mode === 'replacement' ? '' : balance.toFixed(2));
+  const [reason, setReason] = useState('');
+  const [loanId, setLoanId] = useState('');
+  const [isLoadingPrice, setIsLoadingPrice] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Prefill the replacement cost from the borrowed specimen's price
+  const handleLoanChange = async (id: string) => {
+    setLoanId(id);
+    setAmount('');
+    const loan = loans.find((l) => l.id === id);
+    if (!loan) return;
+    setIsLoadingPrice(true);
+    try {
+      const item = await api.getItem(loan.item.id);
+      const specimen = item.specimens?.find(
+        (s) => s.barcode === loan.specimen_identification || s.id === loan.specimen_identification
+      );
+      const price = parsePrice(specimen?.price);
+      if (price !== null) setAmount(price.toFixed(2));
+    } catch (error) {
+      console.error('Error fetching specimen price:', error);
+    } finally {
+      setIsLoadingPrice(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount.replace(',', '.'));
+    if (!Number.isFinite(value) || value <= 0) {
+      setError(t('fines.invalidAmount'));
+      return;
+    }
+    // Money received or written off must be accounted for
+    if (mode !== 'replacement' && !reason.trim()) {
+      setError(t('fines.reasonRequired'));
+      return;
+    }
+    setError('');
+    setIsLoading(true);
+    try {
+      if (mode === 'payment') {
+        await api.recordFinePayment(userId, { amount: value, reason: reason.trim() });
+      } else if (mode === 'waiver') {
+        await api.waiveFine(userId, { amount: value, reason: reason.trim() });
+      } else {
+        await api.chargeReplacement(userId, { loan_id: loanId, amount: value, reason: reason.trim() || undefined });
+      }
+      onSuccess();
+    } catch (error) {
+      console.error('Error recording fine entry:', error);
+      setError(getApiErrorMessage(error, t));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      {mode === 'replacement' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+            {t('loans.document')}
+          </label>
+          <select
+            value={loanId}
+            onChange={(e) => handleLoanChange(e.target.value)}
+            required
+            className="w-full px-4 py-2.5 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+          >
+            <option value="">{t('common.select')}</option>
+            {loans.map((loan) => (
+              <option key={loan.id} value={loan.id}>
+                {loan.item.title || t('loans.noTitle')}
+                {loan.specimen_identification ? ` (${loan.specimen_identification})` : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+      <Input
+        label={t('fines.amount')}
+        type="number"
+        step="0.01"
+        min="0.01"
+        value={amount}
+        onChange={(e) => setAmount(e.target.value)}
+        hint={
+          mode === 'replacement'
+            ? isLoadingPrice
+              ? t('common.loading')
+              : t('fines.replacementHint')
+            : undefined
+        }
+        required
+      />
+      <Input
+        label={mode !== 'replacement' ? t('fines.reason') : `${t('fines.reason')} (${t('common.optional')})`}
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        required={mode !== 'replacement'}
+      />
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+      <div className="flex justify-end gap-2 pt-4">
+        <Button type="submit" isLoading={isLoading}>
+          {t('common.save')}
+        </Button>
+      </div>
+    </form>
+  );
+}
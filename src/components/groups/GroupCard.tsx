@@ -0,0 +1,335 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { BookMarked, Save, Users } from 'lucide-react';
+import { Card, CardHeader, Button, Badge, Modal, Input, Table } from '@/components/common';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import { isCountedOverdue } from '@/utils/loanState';
+import type { GroupQuota, Loan, UserShort } from '@/types';
+
+interface GroupCardProps {
+  groupId: string;
+  /** Called after a class set checkout so the page can refresh the group's own loans */
+  onCheckout?: () => void;
+}
+
+const displayName = (user?: UserShort | null) =>
+  user ? `${user.firstname ?? ''} ${user.lastname ?? ''}`.trim() || `#${user.id}` : '-';
+
+/** Members, aggregated loans and shared quotas of a group account (class, school, family) */
+export default function GroupCard({ groupId, onCheckout }: GroupCardProps) {
+  const { t, i18n } = useTranslation();
+  const [members, setMembers] = useState<UserShort[]>([]);
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [quota, setQuota] = useState({ max_loans: '', max_loans_per_member: '' });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSavingQuota, setIsSavingQuota] = useState(false);
+  const [quotaMessage, setQuotaMessage] = useState('');
+  const [showCheckout, setShowCheckout] = useState(false);
+
+  const fetchGroup = useCallback(async () => {
+    try {
+      const [membersData, loansData, quotaData] = await Promise.all([
+        api.getGroupMembers(groupId),
+        api.getGroupLoans(groupId),
+        api.getGroupQuota(groupId),
+      ]);
+      setMembers(membersData);
+      setLoans(loansData);
+      setQuota({
+        max_loans: quotaData.max_loans?.toString() ?? '',
+        max_loans_per_member: quotaData.max_loans_per_member?.toString() ?? '',
+      });
+    } catch (error) {
+      console.error('Error fetching group:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId]);
+
+  useEffect(() => {
+    fetchGroup();
+  }, [fetchGroup]);
+
+  const handleSaveQuota = async () => {
+    setQuotaMessage('');
+    setIsSavingQuota(true);
+    try {
+      const data: GroupQuota = {
+        max_loans: quota.max_loans ? parseInt(quota.max_loans) : null,
+        max_loans_per_member: quota.max_loans_per_member ? parseInt(quota.max_loans_per_member) : null,
+      };
+      await api.updateGroupQuota(groupId, data);
+      setQuotaMessage(t('groups.quotaSaved'));
+    } catch (error) {
+      console.error('Error saving group quota:', error);
+      setQuotaMessage(getApiErrorMessage(error, t));
+    } finally {
+      setIsSavingQuota(false);
+    }
+  };
+
+  const memberLoanCount = (memberId: string) => loans.filter((loan) => loan.user?.id === memberId).length;
+  const overdueCount = loans.filter(isCountedOverdue).length;
+
+  const memberColumns = [
+    {
+      key: 'name',
+      header: t('common.name'),
+      render: (member: UserShort) => (
+        <Link
+          to={`/users/${member.id}`}
+          className="font-medium text-gray-900 dark:text-white hover:text-indigo-600 dark:hover:text-indigo-400"
+        >
+          {displayName(member)}
+        </Link>
+      ),
+    },
+    {
+      key: 'loans',
+      header: t('groups.loans'),
+      render: (member: UserShort) => memberLoanCount(member.id),
+    },
+  ];
+
+  const loanColumns = [
+    {
+      key: 'item',
+      header: t('loans.document'),
+      render: (loan: Loan) => (
+        <div>
+          <p className="font-medium text-gray-900 dark:text-white">{loan.item.title || t('loans.noTitle')}</p>
+          {loan.specimen_identification && (
+            <p className="text-sm font-mono text-gray-500 dark:text-gray-400">{loan.specimen_identification}</p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'borrower',
+      header: t('groups.borrower'),
+      render: (loan: Loan) =>
+        !loan.user || loan.user.id === groupId ? (
+          <span className="text-gray-500 dark:text-gray-400">{t('groups.groupLoan')}</span>
+        ) : (
+          <Link to={`/users/${loan.user.id}`} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+            {displayName(loan.user)}
+          </Link>
+        ),
+    },
+    {
+      key: 'responsible',
+      header: t('groups.responsible'),
+      render: (loan: Loan) => displayName(loan.responsible),
+    },
+    {
+      key: 'issue_date',
+      header: t('loans.dueDate'),
+      render: (loan: Loan) => (
+        <div className="flex items-center gap-2">
+          <span>{new Date(loan.issue_date).toLocaleDateString(i18n.language)}</span>
+          {isCountedOverdue(loan) && <Badge variant="danger">{t('loans.overdue')}</Badge>}
+        </div>
+      ),
+    },
+  ];
+
+  return (
+    <Card padding="none">
+      <div className="p-4 sm:p-6 border-b border-gray-200 dark:border-gray-800 space-y-4">
+        <CardHeader
+          title={t('groups.title')}
+          subtitle={t('groups.summary', { members: members.length, count: loans.length, overdue: overdueCount })}
+          action={
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => setShowCheckout(true)}
+              disabled={members.length === 0}
+              leftIcon={<BookMarked className="h-4 w-4" />}
+            >
+              {t('groups.classSet')}
+            </Button>
+          }
+        />
+
+        {/* Group-wide quotas */}
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 items-end">
+          <Input
+            label={t('groups.maxLoans')}
+            type="number"
+            min={0}
+            value={quota.max_loans}
+            onChange={(e) => setQuota({ ...quota, max_loans: e.target.value })}
+            hint={t('groups.maxLoansHint')}
+          />
+          <Input
+            label={t('groups.maxLoansPerMember')}
+            type="number"
+            min={0}
+            value={quota.max_loans_per_member}
+            onChange={(e) => setQuota({ ...quota, max_loans_per_member: e.target.value })}
+            hint={t('groups.maxLoansPerMemberHint')}
+          />
+          <div className="space-y-1 sm:pb-6">
+            <Button
+              size="sm"
+              onClick={handleSaveQuota}
+              isLoading={isSavingQuota}
+              leftIcon={<Save className="h-4 w-4" />}
+            >
+              {t('common.save')}
+            </Button>
+            {quotaMessage && <p className="text-sm text-gray-500 dark:text-gray-400">{quotaMessage}</p>}
+          </div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3">
+        <div className="lg:border-r border-gray-200 dark:border-gray-800">
+          <div className="px-4 sm:px-6 pt-4 flex items-center gap-2">
+            <Users className="h-4 w-4 text-gray-400" />
+            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300">{t('groups.members')}</h4>
+          </div>
+          <Table
+            columns={memberColumns}
+            data={members}
+            keyExtractor={(member) => member.id}
+            isLoading={isLoading}
+            emptyMessage={t('groups.noMembers')}
+          />
+        </div>
+        <div className="lg:col-span-2">
+          <div className="px-4 sm:px-6 pt-4">
+            <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300">{t('groups.currentLoans')}</h4>
+          </div>
+          <Table
+            columns={loanColumns}
+            data={loans}
+            keyExtractor={(loan) => loan.id}
+            isLoading={isLoading}
+            emptyMessage={t('loans.noLoans')}
+          />
+        </div>
+      </div>
+
+      <Modal isOpen={showCheckout} onClose={() => setShowCheckout(false)} title={t('groups.classSet')} size="lg">
+        {showCheckout && (
+          <ClassSetCheckoutForm
+            groupId={groupId}
+            members={members}
+            onSuccess={() => {
+              fetchGroup();
+              onCheckout?.();
+            }}
+          />
+        )}
+      </Modal>
+    </Card>
+  );
+}
+
+interface ClassSetCheckoutFormProps {
+  groupId: string;
+  members: UserShort[];
+  onSuccess: () => void;
+}
+
+interface ClassSetLine {
+  barcode: string;
+  error?: string;
+  done?: boolean;
+}
+
+/** Checks out a batch of copies to the group, with one member answerable for all of them */
+function ClassSetCheckoutForm({ groupId, members, onSuccess }: ClassSetCheckoutFormProps) {
+  const { t } = useTranslation();
+  const [responsibleId, setResponsibleId] = useState('');
+  const [barcodes, setBarcodes] = useState('');
+  const [lines, setLines] = useState<ClassSetLine[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const codes = Array.from(new Set(barcodes.split(/\s+/).map((code) => code.trim()).filter(Boolean)));
+    if (!responsibleId || codes.length === 0) return;
+    setIsLoading(true);
+    const results: ClassSetLine[] = [];
+    for (const barcode of codes) {
+      try {
+        await api.createLoan({
+          user_id: groupId,
+          specimen_identification: barcode,
+          responsible_id: responsibleId,
+        });
+        results.push({ barcode, done: true });
+      } catch (error) {
+        console.error('Error checking out class set copy:', error);
+        results.push({ barcode, error: getApiErrorMessage(error, t) });
+      }
+    }
+    setLines(results);
+    // Keep only the failed barcodes so they can be fixed and retried
+    setBarcodes(results.filter((line) => !line.done).map((line) => line.barcode).join('\n'));
+    setIsLoading(false);
+    if (results.some((line) => line.done)) onSuccess();
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+          {t('groups.responsible')}
+        </label>
+        <select
+          value={responsibleId}
+          onChange={(e) => setResponsibleId(e.target.value)}
+          required
+          className="w-full px-4 py-2.5 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+        >
+          <option value="">{t('common.select')}</option>
+          {members.map((member) => (
+            <option key={member.id} value={member.id}>
+              {displayName(member)}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1.5 text-sm text-gray-500 dark:text-gray-400">{t('groups.responsibleHint')}</p>
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+          {t('groups.barcodes')}
+        </label>
+        <textarea
+          value={barcodes}
+          onChange={(e) => setBarcodes(e.target.value)}
+          rows={8}
+          autoFocus
+          placeholder={t('groups.barcodesPlaceholder')}
+          className="w-full px-4 py-2.5 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 font-mono resize-none"
+        />
+      </div>
+
+      {lines.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {lines.map((line) => (
+            <li
+              key={line.barcode}
+              className={line.done ? 'text-green-700 dark:text-green-400' : 'text-red-700 dark:text-red-400'}
+            >
+              <span className="font-mono">{line.barcode}</span> — {line.done ? t('groups.checkedOut') : line.error}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2 pt-4">
+        <Button type="submit" isLoading={isLoading} disabled={!responsibleId || !barcodes.trim()}>
+          {t('groups.checkOut')}
+        </Button>
+      </div>
+    </form>
+  );
+}
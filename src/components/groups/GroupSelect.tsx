@@ -0,0 +1,119 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { X } from 'lucide-react';
+import { Button, Input } from '@/components/common';
+import api from '@/services/api';
+import type { UserShort } from '@/types';
+
+const GROUPS_PER_PAGE = 20;
+
+interface GroupSelectProps {
+  label: string;
+  value: string;
+  onChange: (groupId: string) => void;
+  /** Group being edited: a group cannot be a member of itself */
+  excludeId?: string;
+}
+
+const groupName = (group: { id: string; firstname?: string | null; lastname?: string | null }) =>
+  `${group.firstname ?? ''} ${group.lastname ?? ''}`.trim() || `#${group.id}`;
+
+/** Picks the group account (class, school, family) a reader belongs to, searched by name page by page */
+export default function GroupSelect({ label, value, onChange, excludeId }: GroupSelectProps) {
+  const { t } = useTranslation();
+  const [query, setQuery] = useState('');
+  const [page, setPage] = useState(1);
+  const [groups, setGroups] = useState<UserShort[]>([]);
+  const [totalGroups, setTotalGroups] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+  const [selectedName, setSelectedName] = useState('');
+
+  useEffect(() => {
+    const timeoutId = setTimeout(() => {
+      setIsLoading(true);
+      api
+        .getUsers({ account_type: 'Group', name: query.trim() || undefined, page, per_page: GROUPS_PER_PAGE })
+        .then((response) => {
+          setGroups((prev) => (page === 1 ? response.items : [...prev, ...response.items]));
+          setTotalGroups(response.total);
+        })
+        .catch((error) => console.error('Error fetching groups:', error))
+        .finally(() => setIsLoading(false));
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [query, page]);
+
+  // Name of the current group, which may not be in the loaded pages
+  useEffect(() => {
+    if (!value) return;
+    api
+      .getUser(value)
+      .then((group) => setSelectedName(groupName(group)))
+      .catch((error) => console.error('Error fetching group:', error));
+  }, [value]);
+
+  const options = groups.filter((group) => group.id !== excludeId);
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{label}</label>
+      <div className="flex items-center justify-between gap-2 mb-2 px-3 py-2 rounded-lg bg-gray-50 dark:bg-gray-800/50 text-sm">
+        <span className={value ? 'font-medium text-gray-900 dark:text-white' : 'text-gray-500 dark:text-gray-400'}>
+          {value ? selectedName || `#${value}` : t('groups.noGroup')}
+        </span>
+        {value && (
+          <button
+            type="button"
+            onClick={() => onChange('')}
+            className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-400"
+            title={t('groups.noGroup')}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+      <Input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setPage(1);
+        }}
+        placeholder={t('groups.searchPlaceholder')}
+        autoComplete="off"
+      />
+      <ul className="mt-1 max-h-48 overflow-y-auto rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+        {options.map((group) => (
+          <li key={group.id}>
+            <button
+              type="button"
+              onClick={() => {
+                onChange(group.id);
+                setSelectedName(groupName(group));
+              }}
+              className={`w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-800 ${
+                group.id === value ? 'font-medium text-indigo-600 dark:text-indigo-400' : 'text-gray-900 dark:text-white'
+              }`}
+            >
+              {groupName(group)}
+            </button>
+          </li>
+        ))}
+        {!isLoading && options.length === 0 && (
+          <li className="px-3 py-2 text-sm text-gray-500 dark:text-gray-400">{t('common.noResults')}</li>
+        )}
+      </ul>
+      {groups.length < totalGroups && (
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          className="mt-1"
+          onClick={() => setPage(page + 1)}
+          isLoading={isLoading}
+        >
+          {t('groups.loadMore', { count: totalGroups - groups.length })}
+        </Button>
+      )}
+    </div>
+  );
+}
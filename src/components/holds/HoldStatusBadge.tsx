@@ -0,0 +1,28 @@
+import { useTranslation } from 'react-i18next';
+import { Badge } from '@/components/common';
+import type { HoldStatus } from '@/types';
+
+const STATUS_VARIANTS: Record<HoldStatus, 'default' | 'success' | 'warning' | 'danger' | 'info'> = {
+  pending: 'info',
+  ready: 'success',
+  fulfilled: 'default',
+  cancelled: 'default',
+  expired: 'danger',
+};
+
+interface HoldStatusBadgeProps {
+  status: HoldStatus;
+  position?: number | null;
+}
+
+export default function HoldStatusBadge({ status, position }: HoldStatusBadgeProps) {
+  const { t } = useTranslation();
+
+  return (
+    <Badge variant={STATUS_VARIANTS[status] ?? 'default'}>
+      {status === 'pending' && position != null
+        ? t('holds.positionInQueue', { position })
+        : t(`holds.status.${status}`)}
+    </Badge>
+  );
+}
@@ -0,0 +1,197 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Search, Save, Link2, Check } from 'lucide-react';
+import { Button, Input } from '@/components/common';
+import QueryBuilder from '@/components/items/QueryBuilder';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import { emptyQuery, isQueryEmpty, parseQuery, serializeQuery } from '@/utils/catalogQuery';
+import type { QueryGroup } from '@/types';
+
+type Mode = 'builder' | 'text';
+
+interface AdvancedSearchPanelProps {
+  /** Query currently applied to the results, in text syntax */
+  query: string;
+  onSearch: (query: string) => void;
+}
+
+/** Boolean search of the catalog, edited either visually or as text; both views round-trip through the text syntax */
+export default function AdvancedSearchPanel({ query, onSearch }: AdvancedSearchPanelProps) {
+  const { t } = useTranslation();
+  const [mode, setMode] = useState<Mode>('builder');
+  const [draft, setDraft] = useState<QueryGroup>(() => {
+    const parsed = parseQuery(query);
+    return parsed.ok ? parsed.query : emptyQuery();
+  });
+  const [text, setText] = useState(query);
+  const [syntaxError, setSyntaxError] = useState('');
+
+  const [saveName, setSaveName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  /** Current draft as text, or null when the text view does not parse */
+  const resolveDraft = (): string | null => {
+    if (mode === 'builder') return serializeQuery(draft);
+    const parsed = parseQuery(text);
+    if (!parsed.ok) {
+      setSyntaxError(t(`items.query.errors.${parsed.error}`, { position: parsed.position + 1 }));
+      return null;
+    }
+    setSyntaxError('');
+    return serializeQuery(parsed.query);
+  };
+
+  const switchMode = (next: Mode) => {
+    if (next === mode) return;
+    if (next === 'text') {
+      setText(serializeQuery(draft));
+      setSyntaxError('');
+    } else {
+      const parsed = parseQuery(text);
+      if (!parsed.ok) {
+        setSyntaxError(t(`items.query.errors.${parsed.error}`, { position: parsed.position + 1 }));
+        return;
+      }
+      setDraft(parsed.query);
+      setSyntaxError('');
+    }
+    setMode(next);
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const resolved = resolveDraft();
+    if (resolved !== null) onSearch(resolved);
+  };
+
+  const handleReset = () => {
+    setDraft(emptyQuery());
+    setText('');
+    setSyntaxError('');
+    onSearch('');
+  };
+
+  const handleSave = async () => {
+    const resolved = resolveDraft();
+    if (!resolved || !saveName.trim()) return;
+    setMessage(null);
+    setIsSaving(true);
+    try {
+      await api.createSavedSearch({ name: saveName.trim(), query: resolved });
+      setMessage({ type: 'success', text: t('items.query.saved', { name: saveName.trim() }) });
+      setSaveName('');
+    } catch (error) {
+      console.error('Error saving search:', error);
+      setMessage({ type: 'error', text: getApiErrorMessage(error, t) });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCopyLink = async () => {
+    const resolved = resolveDraft();
+    if (resolved === null) return;
+    const url = `${window.location.origin}/items?q=${encodeURIComponent(resolved)}`;
+    try {
+      await navigator.clipboard.writeText(url);
+    } catch (error) {
+      console.error('Error copying search link:', error);
+      setMessage({ type: 'error', text: t('common.copyFailed') });
+      return;
+    }
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const canSubmit = mode === 'builder' ? !isQueryEmpty(draft) : text.trim() !== '';
+
+  return (
+    <form onSubmit={handleSearch} className="space-y-4">
+      <nav className="-mb-px flex space-x-8 border-b border-gray-200 dark:border-gray-700">
+        {(['builder', 'text'] as const).map((value) => (
+          <button
+            key={value}
+            type="button"
+            onClick={() => switchMode(value)}
+            className={`py-2 px-1 border-b-2 font-medium text-sm ${
+              mode === value
+                ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+            }`}
+          >
+            {t(`items.query.mode.${value}`)}
+          </button>
+        ))}
+      </nav>
+
+      {mode === 'builder' ? (
+        <QueryBuilder value={draft} onChange={setDraft} />
+      ) : (
+        <div className="space-y-1.5">
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={3}
+            spellCheck={false}
+            placeholder='title:"le petit prince" AND (author:hugo OR author:zola) NOT subject:guerre date:1990..2000'
+            className="w-full px-4 py-2.5 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 font-mono text-sm text-gray-900 dark:text-gray-100"
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">{t('items.query.syntaxHint')}</p>
+        </div>
+      )}
+
+      {syntaxError && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">{syntaxError}</p>
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+        <div className="flex-1 flex items-end gap-2">
+          <div className="flex-1">
+            <Input
+              label={t('items.query.saveAs')}
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder={t('items.query.saveNamePlaceholder')}
+            />
+          </div>
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={handleSave}
+            isLoading={isSaving}
+            disabled={!saveName.trim() || !canSubmit}
+            leftIcon={<Save className="h-4 w-4" />}
+          >
+            {t('common.save')}
+          </Button>
+        </div>
+        <div className="flex justify-end gap-2">
+          <Button type="button" variant="ghost" onClick={handleCopyLink} disabled={!canSubmit} title={t('items.query.copyLink')}>
+            {copied ? <Check className="h-4 w-4" /> : <Link2 className="h-4 w-4" />}
+          </Button>
+          <Button type="button" variant="ghost" onClick={handleReset}>
+            {t('common.reset')}
+          </Button>
+          <Button type="submit" disabled={!canSubmit} leftIcon={<Search className="h-4 w-4" />}>
+            {t('common.search')}
+          </Button>
+        </div>
+      </div>
+
+      {message && (
+        <p
+          className={`text-sm ${
+            message.type === 'success' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+          }`}
+        >
+          {message.text}
+        </p>
+      )}
+    </form>
+  );
+}
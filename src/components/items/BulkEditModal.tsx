@@ -0,0 +1,408 @@
+import { useState, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertCircle, CheckCircle, RotateCcw } from 'lucide-react';
+import { Button, Input, Modal } from '@/components/common';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import {
+  GENRE_OPTIONS,
+  LANG_OPTIONS,
+  PUBLIC_TYPE_OPTIONS,
+  getCodeLabel,
+  translateStatLabel,
+  type CodeOption,
+} from '@/utils/codeLabels';
+import {
+  BULK_FIELDS,
+  planItemUpdate,
+  splitKeywords,
+  type BulkField,
+  type BulkFieldChange,
+  type BulkItemChanges,
+  type BulkItemPlan,
+} from '@/utils/bulkEdit';
+import type { Item, MediaType } from '@/types';
+
+const MEDIA_TYPE_CODES: MediaType[] = ['u', 'b', 'bc', 'p', 'v', 'vt', 'vd', 'a', 'am', 'amt', 'amc', 'an', 'c', 'i', 'm'];
+
+const CODE_FIELD_OPTIONS: Partial<Record<BulkField, CodeOption[]>> = {
+  audience_type: PUBLIC_TYPE_OPTIONS,
+  genre: GENRE_OPTIONS,
+  lang: LANG_OPTIONS,
+};
+
+const selectClassName =
+  'w-full px-4 py-2.5 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 disabled:opacity-50';
+
+interface BulkEditForm {
+  media_type: MediaType;
+  audience_type: string;
+  genre: string;
+  lang: string;
+  collection_id: string;
+  collection_title: string;
+  series_name: string;
+  keywords: string;
+}
+
+const EMPTY_FORM: BulkEditForm = {
+  media_type: 'b',
+  audience_type: PUBLIC_TYPE_OPTIONS[0].value,
+  genre: GENRE_OPTIONS[0].value,
+  lang: LANG_OPTIONS[0].value,
+  collection_id: '',
+  collection_title: '',
+  series_name: '',
+  keywords: '',
+};
+
+type Step = 'form' | 'preview' | 'results';
+
+interface PlannedItem {
+  id: string;
+  item?: Item;
+  plan?: BulkItemPlan;
+  /** Set when the record could not be loaded for the preview */
+  error?: string;
+}
+
+type ItemResult = { ok: true } | { ok: false; error: string };
+
+const hasPlan = (entry: PlannedItem): entry is PlannedItem & { plan: BulkItemPlan } => entry.plan !== undefined;
+
+interface BulkEditModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  itemIds: string[];
+  /** Called after each run that updated at least one item */
+  onUpdated: () => void;
+}
+
+/** Same changes applied to every selected item: form, preview against the full records, then a per-item report */
+export default function BulkEditModal({ isOpen, onClose, itemIds, onUpdated }: BulkEditModalProps) {
+  const { t } = useTranslation();
+  const [step, setStep] = useState<Step>('form');
+  const [enabled, setEnabled] = useState<Set<BulkField>>(new Set());
+  const [form, setForm] = useState<BulkEditForm>(EMPTY_FORM);
+  const [archive, setArchive] = useState(false);
+  const [planned, setPlanned] = useState<PlannedItem[]>([]);
+  const [results, setResults] = useState<Record<string, ItemResult>>({});
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const cancelledRef = useRef(false);
+
+  const isBusy = progress !== null;
+  const toUpdate = planned.filter(hasPlan).filter((entry) => entry.plan.changes.length > 0);
+  // Items whose record failed to load count as failures until a retry reaches them
+  const failedIds = planned
+    .filter((entry) => (results[entry.id] ? !results[entry.id].ok : entry.error !== undefined))
+    .map((entry) => entry.id);
+  const succeededCount = Object.values(results).filter((result) => result.ok).length;
+
+  const toggleField = (field: BulkField) => {
+    setEnabled((prev) => {
+      const next = new Set(prev);
+      if (next.has(field)) next.delete(field);
+      else next.add(field);
+      return next;
+    });
+  };
+
+  const buildChanges = (): BulkItemChanges => ({
+    media_type: enabled.has('media_type') ? form.media_type : undefined,
+    audience_type: enabled.has('audience_type') ? parseInt(form.audience_type, 10) : undefined,
+    genre: enabled.has('genre') ? parseInt(form.genre, 10) : undefined,
+    lang: enabled.has('lang') ? parseInt(form.lang, 10) : undefined,
+    collection:
+      enabled.has('collection') && form.collection_id.trim()
+        ? { id: form.collection_id.trim(), primary_title: form.collection_title.trim() || undefined }
+        : undefined,
+    series: enabled.has('series') && form.series_name.trim() ? { id: null, name: form.series_name.trim() } : undefined,
+    keywords: enabled.has('keywords') ? splitKeywords(form.keywords) : undefined,
+    archive,
+  });
+
+  const formatValue = (field: BulkFieldChange['field'], value: string | number | null) => {
+    if (value === null || value === '') return '—';
+    if (field === 'media_type') return translateStatLabel(t, String(value), 'mediaType');
+    const options = CODE_FIELD_OPTIONS[field as BulkField];
+    return options ? getCodeLabel(t, options, value) : String(value);
+  };
+
+  const handlePreview = async () => {
+    const changes = buildChanges();
+    cancelledRef.current = false;
+    setProgress({ done: 0, total: itemIds.length });
+    const entries: PlannedItem[] = [];
+    for (const [index, id] of itemIds.entries()) {
+      if (cancelledRef.current) break;
+      try {
+        const item = await api.getItem(id);
+        entries.push({ id, item, plan: planItemUpdate(item, changes) });
+      } catch (error) {
+        console.error('Error fetching item for bulk edit:', error);
+        entries.push({ id, error: getApiErrorMessage(error, t) });
+      }
+      setProgress({ done: index + 1, total: itemIds.length });
+    }
+    setProgress(null);
+    if (cancelledRef.current) return;
+    setPlanned(entries);
+    setResults({});
+    setStep('preview');
+  };
+
+  /** Loads and plans an item again, for those whose record could not be loaded for the preview */
+  const replanItem = async (id: string, changes: BulkItemChanges): Promise<BulkItemPlan> => {
+    const item = await api.getItem(id);
+    const plan = planItemUpdate(item, changes);
+    setPlanned((prev) => prev.map((entry) => (entry.id === id ? { id, item, plan } : entry)));
+    return plan;
+  };
+
+  const runUpdates = async (ids: string[]) => {
+    const entries = planned.filter((entry) => ids.includes(entry.id));
+    const changes = buildChanges();
+    cancelledRef.current = false;
+    setProgress({ done: 0, total: entries.length });
+    let updated = 0;
+    for (const [index, entry] of entries.entries()) {
+      if (cancelledRef.current) break;
+      try {
+        const plan = entry.plan ?? (await replanItem(entry.id, changes));
+        if (Object.keys(plan.patch).length > 0) await api.updateItem(entry.id, plan.patch);
+        if (plan.archive) await api.archiveItem(entry.id);
+        setResults((prev) => ({ ...prev, [entry.id]: { ok: true } }));
+        updated++;
+      } catch (error) {
+        console.error('Error updating item in bulk:', error);
+        setResults((prev) => ({ ...prev, [entry.id]: { ok: false, error: getApiErrorMessage(error, t) } }));
+      }
+      setProgress({ done: index + 1, total: entries.length });
+    }
+    setProgress(null);
+    setStep('results');
+    if (updated > 0) onUpdated();
+  };
+
+  const handleClose = () => {
+    cancelledRef.current = true;
+    setStep('form');
+    setPlanned([]);
+    setResults({});
+    onClose();
+  };
+
+  const canPreview = archive || BULK_FIELDS.some((field) => enabled.has(field));
+
+  const renderFieldControl = (field: BulkField) => {
+    const disabled = !enabled.has(field) || isBusy;
+    switch (field) {
+      case 'media_type':
+        return (
+          <select
+            value={form.media_type}
+            onChange={(e) => setForm({ ...form, media_type: e.target.value as MediaType })}
+            disabled={disabled}
+            className={selectClassName}
+          >
+            {MEDIA_TYPE_CODES.map((code) => (
+              <option key={code} value={code}>
+                {translateStatLabel(t, code, 'mediaType')}
+              </option>
+            ))}
+          </select>
+        );
+      case 'audience_type':
+      case 'genre':
+      case 'lang':
+        return (
+          <select
+            value={form[field]}
+            onChange={(e) => setForm({ ...form, [field]: e.target.value })}
+            disabled={disabled}
+            className={selectClassName}
+          >
+            {(CODE_FIELD_OPTIONS[field] ?? []).map((option) => (
+              <option key={option.value} value={option.value}>
+                {t(option.labelKey)}
+              </option>
+            ))}
+          </select>
+        );
+      case 'collection':
+        return (
+          <div className="grid grid-cols-2 gap-2">
+            <Input
+              value={form.collection_id}
+              onChange={(e) => setForm({ ...form, collection_id: e.target.value })}
+              placeholder={t('items.collectionId')}
+              disabled={disabled}
+            />
+            <Input
+              value={form.collection_title}
+              onChange={(e) => setForm({ ...form, collection_title: e.target.value })}
+              placeholder={t('items.collectionPrimaryTitle')}
+              disabled={disabled}
+            />
+          </div>
+        );
+      case 'series':
+        return (
+          <Input
+            value={form.series_name}
+            onChange={(e) => setForm({ ...form, series_name: e.target.value })}
+            placeholder={t('items.seriesName')}
+            disabled={disabled}
+          />
+        );
+      case 'keywords':
+        return (
+          <Input
+            value={form.keywords}
+            onChange={(e) => setForm({ ...form, keywords: e.target.value })}
+            placeholder={t('items.bulkEdit.keywordsPlaceholder')}
+            disabled={disabled}
+          />
+        );
+    }
+  };
+
+  const renderProgress = () =>
+    progress && (
+      <div className="space-y-1">
+        <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+          <div
+            className="h-full bg-indigo-600 transition-all"
+            style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+          />
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {t('items.bulkEdit.progress', { done: progress.done, total: progress.total })}
+        </p>
+      </div>
+    );
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={t('items.bulkEdit.title', { count: itemIds.length })} size="xl">
+      {step === 'form' && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('items.bulkEdit.hint')}</p>
+          <div className="space-y-3">
+            {BULK_FIELDS.map((field) => (
+              <div key={field} className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-center">
+                <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={enabled.has(field)}
+                    onChange={() => toggleField(field)}
+                    disabled={isBusy}
+                    className="rounded border-gray-300 dark:border-gray-700 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  {t(`items.bulkEdit.fields.${field}`)}
+                </label>
+                <div className="sm:col-span-2">{renderFieldControl(field)}</div>
+              </div>
+            ))}
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={archive}
+                onChange={(e) => setArchive(e.target.checked)}
+                disabled={isBusy}
+                className="rounded border-gray-300 dark:border-gray-700 text-indigo-600 focus:ring-indigo-500"
+              />
+              {t('items.bulkEdit.fields.archive')}
+            </label>
+          </div>
+          {renderProgress()}
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={isBusy ? () => (cancelledRef.current = true) : handleClose}>
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handlePreview} isLoading={isBusy} disabled={!canPreview || itemIds.length === 0}>
+              {t('items.bulkEdit.preview')}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {step !== 'form' && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {step === 'preview'
+              ? t('items.bulkEdit.previewSummary', { count: toUpdate.length, unchanged: planned.length - toUpdate.length })
+              : t('items.bulkEdit.resultSummary', {
+                  count: succeededCount,
+                  failed: failedIds.length,
+                })}
+          </p>
+          <div className="max-h-[50vh] overflow-auto rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-200 dark:divide-gray-700">
+            {planned.map((entry) => {
+              const result = results[entry.id];
+              const unchanged = entry.plan && entry.plan.changes.length === 0;
+              return (
+                <div key={entry.id} className={`px-3 py-2 text-sm ${unchanged ? 'opacity-50' : ''}`}>
+                  <div className="flex items-center gap-2">
+                    {result?.ok && <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-400 flex-shrink-0" />}
+                    {(result?.ok === false || entry.error) && (
+                      <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400 flex-shrink-0" />
+                    )}
+                    <span className="font-medium text-gray-900 dark:text-white truncate">
+                      {entry.item?.title || t('loans.noTitle')}
+                    </span>
+                    {unchanged && <span className="text-xs text-gray-500">{t('items.bulkEdit.noChange')}</span>}
+                  </div>
+                  {entry.plan?.changes.map((change) => (
+                    <p key={change.field} className="ml-6 text-xs text-gray-600 dark:text-gray-400">
+                      {t(`items.bulkEdit.fields.${change.field}`)}
+                      {change.field !== 'archive' &&
+                        `: ${formatValue(change.field, change.before)} → ${formatValue(change.field, change.after)}`}
+                    </p>
+                  ))}
+                  {(entry.error || (result && !result.ok && result.error)) && (
+                    <p className="ml-6 text-xs text-red-600 dark:text-red-400">
+                      {entry.error || (result && !result.ok ? result.error : '')}
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+          {renderProgress()}
+          <div className="flex justify-end gap-2">
+            {step === 'preview' ? (
+              <>
+                <Button variant="secondary" onClick={() => setStep('form')} disabled={isBusy}>
+                  {t('common.edit')}
+                </Button>
+                <Button
+                  onClick={() => runUpdates(toUpdate.map((entry) => entry.id))}
+                  isLoading={isBusy}
+                  disabled={toUpdate.length === 0}
+                >
+                  {t('items.bulkEdit.apply', { count: toUpdate.length })}
+                </Button>
+              </>
+            ) : (
+              <>
+                {failedIds.length > 0 && (
+                  <Button
+                    variant="secondary"
+                    onClick={() => runUpdates(failedIds)}
+                    isLoading={isBusy}
+                    leftIcon={<RotateCcw className="h-4 w-4" />}
+                  >
+                    {t('items.bulkEdit.retryFailed', { count: failedIds.length })}
+                  </Button>
+                )}
+                <Button onClick={handleClose} disabled={isBusy}>
+                  {t('common.close')}
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
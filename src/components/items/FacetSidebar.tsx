@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ChevronDown, ChevronUp, X } from 'lucide-react';
+import { Card, CardHeader } from '@/components/common';
+import { FACET_FIELDS, formatYearRange } from '@/utils/facets';
+import { GENRE_OPTIONS, LANG_OPTIONS, getCodeLabel, translateStatLabel } from '@/utils/codeLabels';
+import type { FacetCount, FacetField, FacetSelection, ItemFacets } from '@/types';
+
+/** Values shown before "show more" in each group */
+const COLLAPSED_VALUES = 6;
+
+interface FacetSidebarProps {
+  facets: ItemFacets;
+  selection: FacetSelection;
+  onToggle: (field: FacetField, value: string) => void;
+  onClear: () => void;
+}
+
+/** Result breakdown of the current catalog search; checking values narrows the search */
+export default function FacetSidebar({ facets, selection, onToggle, onClear }: FacetSidebarProps) {
+  const { t } = useTranslation();
+  const [expanded, setExpanded] = useState<Set<FacetField>>(new Set());
+
+  const labelFor = (field: FacetField, facet: FacetCount): string => {
+    switch (field) {
+      case 'media_type':
+        return translateStatLabel(t, facet.value, 'mediaType');
+      case 'audience_type':
+        return translateStatLabel(t, facet.value, 'publicType');
+      case 'lang':
+        return getCodeLabel(t, LANG_OPTIONS, facet.value);
+      case 'genre':
+        return getCodeLabel(t, GENRE_OPTIONS, facet.value);
+      case 'year':
+        return formatYearRange(
+          facet.value,
+          (year) => t('items.facets.before', { year }),
+          (year) => t('items.facets.since', { year })
+        );
+      case 'availability':
+        return t(`items.facets.availabilityValue.${facet.value}`, { defaultValue: facet.value });
+      default:
+        return facet.label || facet.value;
+    }
+  };
+
+  const toggleExpanded = (field: FacetField) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (next.has(field)) next.delete(field);
+      else next.add(field);
+      return next;
+    });
+  };
+
+  const hasSelection = Object.values(selection).some((values) => values && values.length > 0);
+
+  return (
+    <Card>
+      <CardHeader
+        title={t('items.facets.title')}
+        action={
+          hasSelection && (
+            <button
+              onClick={onClear}
+              className="inline-flex items-center gap-1 text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              <X className="h-4 w-4" />
+              {t('items.facets.clear')}
+            </button>
+          )
+        }
+      />
+      <div className="space-y-5">
+        {FACET_FIELDS.map((field) => {
+          const selected = selection[field] ?? [];
+          const values = facets[field] ?? [];
+          // Keep selected values visible even when the server returns no count for them
+          const missing = selected
+            .filter((value) => !values.some((facet) => facet.value === value))
+            .map((value) => ({ value, count: 0 }));
+          const all = [...values, ...missing];
+          if (all.length === 0) return null;
+          const isExpanded = expanded.has(field);
+          const shown = isExpanded ? all : all.slice(0, COLLAPSED_VALUES);
+
+          return (
+            <div key={field}>
+              <h4 className="text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider mb-2">
+                {t(`items.facets.field.${field}`)}
+              </h4>
+              <ul className="space-y-1">
+                {shown.map((facet) => (
+                  <li key={facet.value}>
+                    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(facet.value)}
+                        onChange={() => onToggle(field, facet.value)}
+                        className="rounded border-gray-300 dark:border-gray-700 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <span className="flex-1 min-w-0 truncate">{labelFor(field, facet)}</span>
+                      <span className="text-xs text-gray-400">{facet.count}</span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+              {all.length > COLLAPSED_VALUES && (
+                <button
+                  onClick={() => toggleExpanded(field)}
+                  className="mt-1 inline-flex items-center gap-1 text-xs text-indigo-600 dark:text-indigo-400 hover:underline"
+                >
+                  {isExpanded ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+                  {isExpanded ? t('items.facets.showLess') : t('items.facets.showMore', { count: all.length - COLLAPSED_VALUES })}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,277 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { GitMerge } from 'lucide-react';
+import { Button, Modal } from '@/components/common';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import {
+  GENRE_OPTIONS,
+  LANG_OPTIONS,
+  PUBLIC_TYPE_OPTIONS,
+  getCodeLabel,
+  translateStatLabel,
+} from '@/utils/codeLabels';
+import type { DuplicateCluster, Item } from '@/types';
+
+type Translate = (key: string) => string;
+
+interface MergeField {
+  key: keyof Item;
+  labelKey: string;
+  format: (item: Item, t: Translate) => string;
+}
+
+const text = (value: string | number | null | undefined) => (value == null ? '' : String(value));
+
+const MERGE_FIELDS: MergeField[] = [
+  { key: 'title', labelKey: 'items.titleField', format: (item) => text(item.title) },
+  {
+    key: 'authors',
+    labelKey: 'items.authors',
+    format: (item) =>
+      (item.authors ?? []).map((author) => `${author.firstname || ''} ${author.lastname || ''}`.trim()).join(', '),
+  },
+  { key: 'isbn', labelKey: 'items.isbn', format: (item) => text(item.isbn) },
+  { key: 'publication_date', labelKey: 'items.publicationDate', format: (item) => text(item.publication_date) },
+  {
+    key: 'media_type',
+    labelKey: 'items.mediaTypeLabel',
+    format: (item, t) => (item.media_type ? translateStatLabel(t, item.media_type, 'mediaType') : ''),
+  },
+  {
+    key: 'audience_type',
+    labelKey: 'items.publicType',
+    format: (item, t) => (item.audience_type != null ? getCodeLabel(t, PUBLIC_TYPE_OPTIONS, item.audience_type) : ''),
+  },
+  { key: 'genre', labelKey: 'items.facets.field.genre', format: (item, t) => (item.genre != null ? getCodeLabel(t, GENRE_OPTIONS, item.genre) : '') },
+  { key: 'lang', labelKey: 'items.language', format: (item, t) => (item.lang != null ? getCodeLabel(t, LANG_OPTIONS, item.lang) : '') },
+  {
+    key: 'edition',
+    labelKey: 'items.publisher',
+    format: (item) => [item.edition?.publisher_name, item.edition?.place_of_publication].filter(Boolean).join(', '),
+  },
+  { key: 'collection', labelKey: 'items.collection', format: (item) => text(item.collection?.primary_title || item.collection?.id) },
+  { key: 'series', labelKey: 'items.series', format: (item) => text(item.series?.name) },
+  { key: 'subject', labelKey: 'items.subject', format: (item) => text(item.subject) },
+  { key: 'keywords', labelKey: 'items.keywords', format: (item) => text(item.keywords) },
+  { key: 'abstract_', labelKey: 'items.abstract', format: (item) => text(item.abstract_) },
+];
+
+/** For each field, the survivor's own value unless it is empty and another included record has one */
+function defaultChoices(items: Item[], survivor: number, excluded: Set<number>, t: Translate): Record<string, number> {
+  const choices: Record<string, number> = {};
+  for (const field of MERGE_FIELDS) {
+    const filled = items.findIndex((item, index) => !excluded.has(index) && field.format(item, t) !== '');
+    choices[field.key] = field.format(items[survivor], t) !== '' || filled < 0 ? survivor : filled;
+  }
+  return choices;
+}
+
+const activeSpecimenCount = (item: Item) => (item.specimens ?? []).filter((specimen) => !specimen.archived_at).length;
+
+interface MergeItemsModalProps {
+  cluster: DuplicateCluster;
+  onClose: () => void;
+  onMerged: (survivor: Item) => void;
+}
+
+/**
+ * Merge of duplicate records: pick the surviving record, the records merged into it (false positives can be left out)
+ * and, field by field, which record's value it keeps
+ */
+export default function MergeItemsModal({ cluster, onClose, onMerged }: MergeItemsModalProps) {
+  const { t } = useTranslation();
+  const [items, setItems] = useState<Item[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [survivor, setSurvivor] = useState(0);
+  const [choices, setChoices] = useState<Record<string, number>>({});
+  // Records of the cluster left out of the merge (indexes in `items`)
+  const [excluded, setExcluded] = useState<Set<number>>(new Set());
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    Promise.all(cluster.items.map((item) => api.getItem(item.id)))
+      .then((loaded) => {
+        // Default survivor: the record holding most copies, which moves the fewest
+        const best = loaded.reduce(
+          (bestIndex, item, index) => (activeSpecimenCount(item) > activeSpecimenCount(loaded[bestIndex]) ? index : bestIndex),
+          0
+        );
+        setItems(loaded);
+        setSurvivor(best);
+        setChoices(defaultChoices(loaded, best, new Set(), t));
+        setError('');
+      })
+      .catch((error) => {
+        console.error('Error fetching duplicate records:', error);
+        setError(getApiErrorMessage(error, t));
+      })
+      .finally(() => setIsLoading(false));
+  }, [cluster, t]);
+
+  const handleSurvivorChange = (index: number) => {
+    // The survivor is always part of the merge
+    const nextExcluded = new Set(excluded);
+    nextExcluded.delete(index);
+    setSurvivor(index);
+    setExcluded(nextExcluded);
+    setChoices(defaultChoices(items, index, nextExcluded, t));
+  };
+
+  const toggleIncluded = (index: number) => {
+    const nextExcluded = new Set(excluded);
+    if (nextExcluded.has(index)) nextExcluded.delete(index);
+    else nextExcluded.add(index);
+    setExcluded(nextExcluded);
+    // Values picked from a record now left out fall back to the default choice
+    const defaults = defaultChoices(items, survivor, nextExcluded, t);
+    setChoices((prev) =>
+      Object.fromEntries(Object.entries(prev).map(([key, chosen]) => [key, nextExcluded.has(chosen) ? defaults[key] : chosen]))
+    );
+  };
+
+  const mergedItems = items.filter((_, index) => index !== survivor && !excluded.has(index));
+  const movedSpecimens = mergedItems.reduce((total, item) => total + activeSpecimenCount(item), 0);
+
+  const handleMerge = async () => {
+    const survivorItem = items[survivor];
+    if (!survivorItem?.id || mergedItems.length === 0) return;
+    if (!confirm(t('items.duplicates.mergeConfirm', { count: mergedItems.length, specimens: movedSpecimens }))) return;
+    setError('');
+    setIsMerging(true);
+    try {
+      const fields: Partial<Item> = {};
+      for (const field of MERGE_FIELDS) {
+        const value = items[choices[field.key] ?? survivor][field.key];
+        if (value !== undefined) Object.assign(fields, { [field.key]: value });
+      }
+      const merged = await api.mergeItems(survivorItem.id, {
+        merged_item_ids: mergedItems.map((item) => item.id as string),
+        fields,
+      });
+      onMerged(merged);
+    } catch (error) {
+      console.error('Error merging items:', error);
+      setError(getApiErrorMessage(error, t));
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} title={t('items.duplicates.mergeTitle')} size="xl">
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="h-8 w-8 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('items.duplicates.mergeHint')}</p>
+          {items.length > 0 && (
+            <div className="max-h-[60vh] overflow-auto rounded-lg border border-gray-200 dark:border-gray-700">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 dark:bg-gray-800/50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider w-40" />
+                    {items.map((item, index) => (
+                      <th key={item.id} className="px-3 py-2 text-left align-top">
+                        <label className="flex items-start gap-2 font-medium text-gray-900 dark:text-white">
+                          <input
+                            type="radio"
+                            name="merge-survivor"
+                            checked={survivor === index}
+                            onChange={() => handleSurvivorChange(index)}
+                            className="mt-0.5"
+                          />
+                          <span>
+                            {survivor === index
+                              ? t('items.duplicates.survivor')
+                              : excluded.has(index)
+                                ? t('items.duplicates.excluded')
+                                : t('items.duplicates.merged')}
+                            <span className="block text-xs font-normal text-gray-500 dark:text-gray-400">
+                              {t('items.specimenCount', { count: activeSpecimenCount(item) })}
+                            </span>
+                          </span>
+                        </label>
+                        <label className="flex items-center gap-2 mt-1 text-xs font-normal text-gray-500 dark:text-gray-400">
+                          <input
+                            type="checkbox"
+                            checked={!excluded.has(index)}
+                            onChange={() => toggleIncluded(index)}
+                            disabled={survivor === index}
+                            className="rounded border-gray-300 dark:border-gray-700 text-indigo-600 focus:ring-indigo-500"
+                          />
+                          {t('items.duplicates.include')}
+                        </label>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200 dark:divide-gray-700">
+                  {MERGE_FIELDS.map((field) => (
+                    <tr key={field.key}>
+                      <td className="px-3 py-2 font-medium text-gray-700 dark:text-gray-300 align-top">{t(field.labelKey)}</td>
+                      {items.map((item, index) => {
+                        const value = field.format(item, t);
+                        const chosen = choices[field.key] === index;
+                        const isExcluded = excluded.has(index);
+                        return (
+                          <td
+                            key={item.id}
+                            className={`px-3 py-2 align-top ${chosen ? 'bg-indigo-50 dark:bg-indigo-900/20' : ''} ${
+                              isExcluded ? 'opacity-50' : ''
+                            }`}
+                          >
+                            <label className="flex items-start gap-2 text-gray-700 dark:text-gray-300">
+                              <input
+                                type="radio"
+                                name={`merge-${field.key}`}
+                                checked={chosen}
+                                onChange={() => setChoices({ ...choices, [field.key]: index })}
+                                disabled={isExcluded}
+                                className="mt-0.5"
+                              />
+                              <span className={value ? '' : 'text-gray-400'}>{value || '—'}</span>
+                            </label>
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {mergedItems.length > 0 && (
+            <p className="text-sm text-gray-600 dark:text-gray-300">
+              {t('items.duplicates.mergeSummary', { count: mergedItems.length, specimens: movedSpecimens })}
+            </p>
+          )}
+
+          {error && (
+            <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+              <p className="text-sm font-medium text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={onClose}>
+              {t('common.cancel')}
+            </Button>
+            <Button
+              onClick={handleMerge}
+              isLoading={isMerging}
+              disabled={mergedItems.length === 0}
+              leftIcon={<GitMerge className="h-4 w-4" />}
+            >
+              {t('items.duplicates.merge')}
+            </Button>
+          </div>
+        </div>
+      )}
+    </Modal>
+  );
+}
@@ -0,0 +1,199 @@
+import { useTranslation } from 'react-i18next';
+import { Plus, FolderPlus, X } from 'lucide-react';
+import { Button } from '@/components/common';
+import { QUERY_FIELDS, emptyCondition, joinDateRange, splitDateRange } from '@/utils/catalogQuery';
+import type { QueryCondition, QueryField, QueryGroup, QueryNode, QueryOperator } from '@/types';
+
+/** Nesting beyond this gets unreadable; deeper logic can still be typed in text mode */
+const MAX_DEPTH = 2;
+
+const controlClassName =
+  'px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-sm text-gray-900 dark:text-gray-100';
+
+interface QueryBuilderProps {
+  value: QueryGroup;
+  onChange: (value: QueryGroup) => void;
+}
+
+/** Visual editor of a boolean catalog query: AND/OR groups of field conditions, each of which can be negated */
+export default function QueryBuilder({ value, onChange }: QueryBuilderProps) {
+  return <GroupEditor group={value} depth={0} onChange={onChange} />;
+}
+
+interface GroupEditorProps {
+  group: QueryGroup;
+  depth: number;
+  onChange: (group: QueryGroup) => void;
+  onRemove?: () => void;
+}
+
+function GroupEditor({ group, depth, onChange, onRemove }: GroupEditorProps) {
+  const { t } = useTranslation();
+
+  const updateChild = (index: number, child: QueryNode) => {
+    onChange({ ...group, children: group.children.map((c, i) => (i === index ? child : c)) });
+  };
+
+  const removeChild = (index: number) => {
+    const children = group.children.filter((_, i) => i !== index);
+    onChange({ ...group, children: children.length ? children : [emptyCondition()] });
+  };
+
+  const addChild = (child: QueryNode) => {
+    onChange({ ...group, children: [...group.children, child] });
+  };
+
+  return (
+    <div
+      className={
+        depth > 0 ? 'p-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 space-y-3' : 'space-y-3'
+      }
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        {depth > 0 && (
+          <select
+            value={group.negate ? 'exclude' : 'include'}
+            onChange={(e) => onChange({ ...group, negate: e.target.value === 'exclude' })}
+            className={controlClassName}
+          >
+            <option value="include">{t('items.query.include')}</option>
+            <option value="exclude">{t('items.query.exclude')}</option>
+          </select>
+        )}
+        <select
+          value={group.operator}
+          onChange={(e) => onChange({ ...group, operator: e.target.value as QueryOperator })}
+          className={controlClassName}
+        >
+          <option value="AND">{t('items.query.matchAll')}</option>
+          <option value="OR">{t('items.query.matchAny')}</option>
+        </select>
+        {onRemove && (
+          <button
+            type="button"
+            onClick={onRemove}
+            className="ml-auto p-2 rounded-lg text-gray-400 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-800"
+            title={t('items.query.removeGroup')}
+          >
+            <X className="h-4 w-4" />
+          </button>
+        )}
+      </div>
+
+      {group.children.map((child, index) =>
+        child.kind === 'group' ? (
+          <GroupEditor
+            key={index}
+            group={child}
+            depth={depth + 1}
+            onChange={(next) => updateChild(index, next)}
+            onRemove={() => removeChild(index)}
+          />
+        ) : (
+          <ConditionRow
+            key={index}
+            condition={child}
+            onChange={(next) => updateChild(index, next)}
+            onRemove={() => removeChild(index)}
+          />
+        )
+      )}
+
+      <div className="flex flex-wrap gap-2">
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          onClick={() => addChild(emptyCondition())}
+          leftIcon={<Plus className="h-4 w-4" />}
+        >
+          {t('items.query.addCondition')}
+        </Button>
+        {depth < MAX_DEPTH && (
+          <Button
+            type="button"
+            size="sm"
+            variant="ghost"
+            onClick={() =>
+              addChild({ kind: 'group', operator: group.operator === 'AND' ? 'OR' : 'AND', children: [emptyCondition()] })
+            }
+            leftIcon={<FolderPlus className="h-4 w-4" />}
+          >
+            {t('items.query.addGroup')}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ConditionRowProps {
+  condition: QueryCondition;
+  onChange: (condition: QueryCondition) => void;
+  onRemove: () => void;
+}
+
+function ConditionRow({ condition, onChange, onRemove }: ConditionRowProps) {
+  const { t } = useTranslation();
+  const [from, to] = splitDateRange(condition.value);
+
+  const changeField = (field: QueryField) => {
+    // Free text does not make a valid date range and vice versa
+    const keepValue = (field === 'date') === (condition.field === 'date');
+    onChange({ ...condition, field, value: keepValue ? condition.value : '' });
+  };
+
+  return (
+    <div className="flex flex-col sm:flex-row gap-2">
+      <select value={condition.field} onChange={(e) => changeField(e.target.value as QueryField)} className={controlClassName}>
+        {QUERY_FIELDS.map((field) => (
+          <option key={field} value={field}>
+            {t(`items.query.field.${field}`)}
+          </option>
+        ))}
+      </select>
+      <select
+        value={condition.negate ? 'exclude' : 'include'}
+        onChange={(e) => onChange({ ...condition, negate: e.target.value === 'exclude' })}
+        className={controlClassName}
+      >
+        <option value="include">{condition.field === 'date' ? t('items.query.between') : t('items.query.contains')}</option>
+        <option value="exclude">{condition.field === 'date' ? t('items.query.notBetween') : t('items.query.notContains')}</option>
+      </select>
+      {condition.field === 'date' ? (
+        <div className="flex-1 flex items-center gap-2">
+          <input
+            type="number"
+            value={from}
+            onChange={(e) => onChange({ ...condition, value: joinDateRange(e.target.value, to) })}
+            placeholder={t('items.query.fromYear')}
+            className={`${controlClassName} w-full`}
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="number"
+            value={to}
+            onChange={(e) => onChange({ ...condition, value: joinDateRange(from, e.target.value) })}
+            placeholder={t('items.query.toYear')}
+            className={`${controlClassName} w-full`}
+          />
+        </div>
+      ) : (
+        <input
+          type="text"
+          value={condition.value}
+          onChange={(e) => onChange({ ...condition, value: e.target.value })}
+          className={`${controlClassName} flex-1 min-w-0`}
+        />
+      )}
+      <button
+        type="button"
+        onClick={onRemove}
+        className="p-2 rounded-lg text-gray-400 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-800 self-start"
+        title={t('items.query.removeCondition')}
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Search, Trash2 } from 'lucide-react';
+import { Card, CardHeader } from '@/components/common';
+import api from '@/services/api';
+import type { SavedSearch } from '@/types';
+
+/** The current user's saved catalog queries, each re-run by opening the catalog with it */
+export default function SavedSearchList() {
+  const { t } = useTranslation();
+  const [searches, setSearches] = useState<SavedSearch[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    api
+      .getSavedSearches()
+      .then(setSearches)
+      .catch((error) => console.error('Error fetching saved searches:', error))
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const handleDelete = async (search: SavedSearch) => {
+    if (!confirm(t('items.query.deleteConfirm', { name: search.name }))) return;
+    try {
+      await api.deleteSavedSearch(search.id);
+      setSearches((prev) => prev.filter((s) => s.id !== search.id));
+    } catch (error) {
+      console.error('Error deleting saved search:', error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader title={t('items.query.savedSearches')} />
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <div className="h-8 w-8 border-2 border-amber-600 border-t-transparent rounded-full animate-spin" />
+        </div>
+      ) : searches.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('items.query.noSavedSearches')}</p>
+      ) : (
+        <div className="space-y-2">
+          {searches.map((search) => (
+            <div key={search.id} className="flex items-center gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-800/50">
+              <Search className="h-5 w-5 text-amber-600 dark:text-amber-400 flex-shrink-0" />
+              <Link to={`/items?q=${encodeURIComponent(search.query)}`} className="flex-1 min-w-0 group">
+                <p className="font-medium text-gray-900 dark:text-white truncate group-hover:text-amber-600 dark:group-hover:text-amber-400">
+                  {search.name}
+                </p>
+                <p className="text-xs font-mono text-gray-500 dark:text-gray-400 truncate">{search.query}</p>
+              </Link>
+              <button
+                onClick={() => handleDelete(search)}
+                className="p-2 rounded-lg text-gray-400 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-800"
+                title={t('common.delete')}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+}
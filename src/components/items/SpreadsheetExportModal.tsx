@@ -0,0 +1,224 @@
+import { useState, useRef } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Download } from 'lucide-react';
+import { Button, Modal } from '@/components/common';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import { downloadCsv, type CsvCell } from '@/utils/csv';
+import { downloadXlsx } from '@/utils/xlsx';
+import { LANG_OPTIONS, PUBLIC_TYPE_OPTIONS, getCodeLabel, translateStatLabel } from '@/utils/codeLabels';
+import type { Author, FacetSelection, Item, ItemShort, SpecimenShort } from '@/types';
+
+type SpreadsheetFormat = 'csv' | 'xlsx';
+type Translate = (key: string) => string;
+
+/** Documents per results page while walking the whole search */
+const EXPORT_PAGE_SIZE = 100;
+
+interface ExportColumn {
+  key: string;
+  /** Needs the full record: one extra request per document */
+  full?: boolean;
+  value: (short: ItemShort, full: Item | undefined, t: Translate) => CsvCell;
+}
+
+const formatAuthor = (author: Author) => [author.lastname, author.firstname].filter(Boolean).join(' ');
+
+const specimensOf = (short: ItemShort, full?: Item): SpecimenShort[] => full?.specimens ?? short.specimens ?? [];
+
+const joinDistinct = (values: (string | null | undefined)[]) => [...new Set(values.filter(Boolean))].join('; ');
+
+const dateOnly = (value?: string | null) => (value ? value.slice(0, 10) : '');
+
+const COLUMNS: ExportColumn[] = [
+  { key: 'title', value: (short) => short.title },
+  {
+    key: 'authors',
+    value: (short, full) => (full?.authors ? full.authors.map(formatAuthor).join('; ') : short.author ? formatAuthor(short.author) : ''),
+  },
+  { key: 'isbn', value: (short) => short.isbn },
+  { key: 'mediaType', value: (short, _full, t) => (short.media_type ? translateStatLabel(t, short.media_type, 'mediaType') : '') },
+  { key: 'publicationDate', value: (short) => short.date },
+  { key: 'publisher', full: true, value: (_short, full) => full?.edition?.publisher_name },
+  { key: 'callNumbers', value: (short, full) => joinDistinct(specimensOf(short, full).map((s) => s.call_number)) },
+  { key: 'barcodes', value: (short, full) => joinDistinct(specimensOf(short, full).map((s) => s.barcode)) },
+  {
+    key: 'sources',
+    value: (short, full) => joinDistinct([short.source_name, ...specimensOf(short, full).map((s) => s.source_name)]),
+  },
+  { key: 'specimens', value: (short, full) => specimensOf(short, full).length },
+  { key: 'available', value: (short, full) => specimensOf(short, full).filter((s) => s.availability === 0).length },
+  {
+    key: 'status',
+    value: (short, _full, t) =>
+      short.status === 0 ? t('items.available') : short.status === 1 ? t('items.borrowed') : t('items.unavailable'),
+  },
+  {
+    key: 'audience',
+    full: true,
+    value: (_short, full, t) => (full?.audience_type != null ? getCodeLabel(t, PUBLIC_TYPE_OPTIONS, full.audience_type) : ''),
+  },
+  { key: 'language', full: true, value: (_short, full, t) => (full?.lang != null ? getCodeLabel(t, LANG_OPTIONS, full.lang) : '') },
+  { key: 'subject', full: true, value: (_short, full) => full?.subject },
+  { key: 'keywords', full: true, value: (_short, full) => full?.keywords },
+  { key: 'createdAt', full: true, value: (_short, full) => dateOnly(full?.created_at) },
+  { key: 'updatedAt', full: true, value: (_short, full) => dateOnly(full?.updated_at) },
+];
+
+const DEFAULT_COLUMNS = ['title', 'authors', 'isbn', 'publicationDate', 'callNumbers', 'sources', 'available'];
+
+interface SpreadsheetExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Same filters as the results list */
+  filters: { freesearch?: string; q?: string; facets?: FacetSelection };
+  total: number;
+}
+
+/** CSV / .xlsx list of every document matching the current search, with user-chosen columns */
+export default function SpreadsheetExportModal({ isOpen, onClose, filters, total }: SpreadsheetExportModalProps) {
+  const { t } = useTranslation();
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(DEFAULT_COLUMNS));
+  const [format, setFormat] = useState<SpreadsheetFormat>('xlsx');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  const cancelledRef = useRef(false);
+
+  const columns = COLUMNS.filter((column) => selected.has(column.key));
+  const needsFull = columns.some((column) => column.full);
+
+  const toggleColumn = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    cancelledRef.current = false;
+    setMessage(null);
+    setProgress({ done: 0, total });
+    try {
+      const rows: CsvCell[][] = [columns.map((column) => t(`items.spreadsheet.columns.${column.key}`))];
+      for (let page = 1; ; page++) {
+        const response = await api.getItems({ ...filters, page, per_page: EXPORT_PAGE_SIZE });
+        for (const short of response.items) {
+          if (cancelledRef.current) break;
+          const full = needsFull ? await api.getItem(short.id) : undefined;
+          rows.push(columns.map((column) => column.value(short, full, t)));
+          if (needsFull) setProgress({ done: rows.length - 1, total: response.total });
+        }
+        setProgress({ done: rows.length - 1, total: response.total });
+        if (cancelledRef.current) {
+          setMessage({ type: 'error', text: t('items.spreadsheet.cancelled') });
+          return;
+        }
+        if (response.items.length === 0 || page * response.per_page >= response.total) break;
+      }
+
+      const filename = `catalog-${new Date().toISOString().slice(0, 10)}`;
+      if (format === 'csv') downloadCsv(rows, `${filename}.csv`);
+      else downloadXlsx(rows, `${filename}.xlsx`, t('items.title'));
+      setMessage({ type: 'success', text: t('items.spreadsheet.done', { count: rows.length - 1 }) });
+    } catch (error) {
+      console.error('Error exporting search results:', error);
+      setMessage({ type: 'error', text: getApiErrorMessage(error, t) });
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleClose = () => {
+    cancelledRef.current = true;
+    onClose();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={handleClose} title={t('items.spreadsheet.title')} size="lg">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('items.spreadsheet.scope', { count: total })}</p>
+
+        <div>
+          <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{t('items.spreadsheet.columnsTitle')}</h4>
+          <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
+            {COLUMNS.map((column) => (
+              <label key={column.key} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={selected.has(column.key)}
+                  onChange={() => toggleColumn(column.key)}
+                  disabled={progress !== null}
+                  className="rounded border-gray-300 dark:border-gray-700 text-indigo-600 focus:ring-indigo-500"
+                />
+                {t(`items.spreadsheet.columns.${column.key}`)}
+                {column.full && <span className="text-amber-600 dark:text-amber-400">*</span>}
+              </label>
+            ))}
+          </div>
+          {needsFull && <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">{t('items.spreadsheet.slowColumns')}</p>}
+        </div>
+
+        <div className="flex gap-4">
+          {(['xlsx', 'csv'] as const).map((value) => (
+            <label key={value} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="radio"
+                name="spreadsheet-format"
+                checked={format === value}
+                onChange={() => setFormat(value)}
+                disabled={progress !== null}
+              />
+              {t(`items.spreadsheet.format.${value}`)}
+            </label>
+          ))}
+        </div>
+
+        {progress && (
+          <div className="space-y-1">
+            <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+              <div
+                className="h-full bg-indigo-600 transition-all"
+                style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {t('items.spreadsheet.progress', { done: progress.done, total: progress.total })}
+            </p>
+          </div>
+        )}
+
+        {message && (
+          <p
+            className={`text-sm ${
+              message.type === 'success' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'
+            }`}
+          >
+            {message.text}
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {progress ? (
+            <Button variant="secondary" onClick={() => (cancelledRef.current = true)}>
+              {t('common.cancel')}
+            </Button>
+          ) : (
+            <Button variant="secondary" onClick={handleClose}>
+              {t('common.close')}
+            </Button>
+          )}
+          <Button
+            onClick={handleExport}
+            isLoading={progress !== null}
+            disabled={columns.length === 0 || total === 0}
+            leftIcon={<Download className="h-4 w-4" />}
+          >
+            {t('items.spreadsheet.action')}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
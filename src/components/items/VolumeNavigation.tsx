@@ -0,0 +1,61 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import api from '@/services/api';
+import { adjacentVolumes } from '@/utils/volumes';
+import type { ItemGroupKind, NumberedItem } from '@/types';
+
+interface VolumeNavigationProps {
+  kind: ItemGroupKind;
+  groupId: string;
+  /** Number of the current item in the series / collection */
+  number?: number | null;
+}
+
+/** Previous / next volume links and a link to the whole series or collection, on an item page */
+export default function VolumeNavigation({ kind, groupId, number }: VolumeNavigationProps) {
+  const { t } = useTranslation();
+  const [members, setMembers] = useState<NumberedItem[]>([]);
+
+  useEffect(() => {
+    (kind === 'series' ? api.getSerieItems(groupId) : api.getCollectionItems(groupId))
+      .then(setMembers)
+      .catch((error) => console.error('Error fetching volumes:', error));
+  }, [kind, groupId]);
+
+  const { previous, next } = number != null ? adjacentVolumes(members, number) : {};
+
+  return (
+    <div className="mt-3 space-y-1 text-sm">
+      {previous && (
+        <Link
+          to={`/items/${previous.item.id}`}
+          className="flex items-center gap-1 text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          <ChevronLeft className="h-4 w-4 flex-shrink-0" />
+          <span className="truncate">
+            {t('series.previousVolume', { number: previous.number })} · {previous.item.title || t('loans.noTitle')}
+          </span>
+        </Link>
+      )}
+      {next && (
+        <Link
+          to={`/items/${next.item.id}`}
+          className="flex items-center gap-1 text-indigo-600 dark:text-indigo-400 hover:underline"
+        >
+          <ChevronRight className="h-4 w-4 flex-shrink-0" />
+          <span className="truncate">
+            {t('series.nextVolume', { number: next.number })} · {next.item.title || t('loans.noTitle')}
+          </span>
+        </Link>
+      )}
+      <Link
+        to={`/${kind === 'series' ? 'series' : 'collections'}/${groupId}`}
+        className="block text-gray-500 dark:text-gray-400 hover:text-indigo-600 dark:hover:text-indigo-400"
+      >
+        {t('series.viewAll', { count: members.length })}
+      </Link>
+    </div>
+  );
+}
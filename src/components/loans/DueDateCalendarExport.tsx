@@ -0,0 +1,135 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Copy, Check, Download, RefreshCw, CalendarPlus } from 'lucide-react';
+import { Button } from '@/components/common';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import { dueDatesToIcs } from '@/utils/calendar';
+import { downloadBlob } from '@/utils/download';
+import type { DueDateFeed, Loan } from '@/types';
+
+interface DueDateCalendarExportProps {
+  loans: Loan[];
+}
+
+/** "Add to calendar": one-off .ics download of current due dates, or a live subscription URL */
+export default function DueDateCalendarExport({ loans }: DueDateCalendarExportProps) {
+  const { t } = useTranslation();
+  const [feed, setFeed] = useState<DueDateFeed | null>(null);
+  const [isResetting, setIsResetting] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    api
+      .getDueDateFeed()
+      .then(setFeed)
+      .catch((error) => {
+        console.error('Error fetching due date feed:', error);
+        setError(getApiErrorMessage(error, t));
+      });
+  }, [t]);
+
+  const handleDownload = () => {
+    const content = dueDatesToIcs(loans, t('loans.calendar.name'), (count) => t('loans.calendar.eventSummary', { count }));
+    const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+    downloadBlob(blob, 'due-dates.ics');
+  };
+
+  const handleCopy = async () => {
+    if (!feed) return;
+    try {
+      await navigator.clipboard.writeText(feed.url);
+    } catch (error) {
+      // Denied permission or insecure context: the URL stays selectable in the field
+      console.error('Error copying feed URL:', error);
+      setError(t('common.copyFailed'));
+      return;
+    }
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleReset = async () => {
+    if (!confirm(t('loans.calendar.resetConfirm'))) return;
+    setError('');
+    setIsResetting(true);
+    try {
+      setFeed(await api.resetDueDateFeed());
+    } catch (error) {
+      console.error('Error resetting due date feed:', error);
+      setError(getApiErrorMessage(error, t));
+    } finally {
+      setIsResetting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white">{t('loans.calendar.downloadTitle')}</h4>
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('loans.calendar.downloadHint')}</p>
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={handleDownload}
+          disabled={loans.length === 0}
+          leftIcon={<Download className="h-4 w-4" />}
+        >
+          {t('loans.calendar.download')}
+        </Button>
+      </div>
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-semibold text-gray-900 dark:text-white">{t('loans.calendar.subscribeTitle')}</h4>
+        <p className="text-sm text-gray-500 dark:text-gray-400">{t('loans.calendar.subscribeHint')}</p>
+        {feed ? (
+          <>
+            <div className="flex items-center gap-2">
+              <input
+                readOnly
+                value={feed.url}
+                onFocus={(e) => e.target.select()}
+                className="flex-1 min-w-0 px-4 py-2.5 rounded-lg border border-gray-300 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 text-sm font-mono text-gray-900 dark:text-gray-100"
+              />
+              <Button size="sm" variant="secondary" onClick={handleCopy} title={t('loans.calendar.copy')}>
+                {copied ? <Check className="h-4 w-4" /> : <Copy className="h-4 w-4" />}
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <a
+                href={feed.url.replace(/^https?:/, 'webcal:')}
+                className="inline-flex items-center gap-2 px-3 py-1.5 text-sm font-medium rounded-lg bg-indigo-600 text-white hover:bg-indigo-700"
+              >
+                <CalendarPlus className="h-4 w-4" />
+                {t('loans.calendar.subscribe')}
+              </a>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={handleReset}
+                isLoading={isResetting}
+                leftIcon={<RefreshCw className="h-4 w-4" />}
+              >
+                {t('loans.calendar.reset')}
+              </Button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">{t('loans.calendar.privateHint')}</p>
+          </>
+        ) : (
+          !error && (
+            <div className="flex justify-center py-4">
+              <div className="h-6 w-6 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin" />
+            </div>
+          )
+        )}
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+    </div>
+  );
+}
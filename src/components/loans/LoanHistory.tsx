@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FileSpreadsheet, Info } from 'lucide-react';
+import { Card, Button, Table, Pagination, SearchInput } from '@/components/common';
+import api from '@/services/api';
+import { downloadCsv } from '@/utils/csv';
+import type { Loan } from '@/types';
+
+const HISTORY_PER_PAGE = 20;
+/** Page size used to gather the whole filtered history for the CSV export */
+const EXPORT_PER_PAGE = 200;
+
+interface LoanHistoryProps {
+  userId: string;
+  /** The reader opted out of history retention: new returns are not kept */
+  retentionDisabled?: boolean;
+}
+
+export default function LoanHistory({ userId, retentionDisabled = false }: LoanHistoryProps) {
+  const { t, i18n } = useTranslation();
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [total, setTotal] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [title, setTitle] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const filters = useCallback(
+    () => ({ title: title.trim() || undefined, from: from || undefined, to: to || undefined }),
+    [title, from, to]
+  );
+
+  const fetchHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await api.getUserLoanHistory(userId, {
+        ...filters(),
+        page: currentPage,
+        per_page: HISTORY_PER_PAGE,
+      });
+      setLoans(response.items);
+      setTotal(response.total);
+    } catch (error) {
+      console.error('Error fetching loan history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId, filters, currentPage]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString(i18n.language) : '-');
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const all: Loan[] = [];
+      for (let page = 1; ; page++) {
+        const response = await api.getUserLoanHistory(userId, { ...filters(), page, per_page: EXPORT_PER_PAGE });
+        all.push(...response.items);
+        if (response.items.length === 0 || all.length >= response.total) break;
+      }
+      const toDateKey = (value?: string | null) => (value ? value.slice(0, 10) : '');
+      downloadCsv(
+        [
+          [
+            t('loans.document'),
+            t('items.author'),
+            t('loans.specimenBarcode'),
+            t('loans.history.startDate'),
+            t('loans.dueDate'),
+            t('loans.history.returnDate'),
+          ],
+          ...all.map((loan) => [
+            loan.item.title ?? '',
+            loan.item.author ? `${loan.item.author.firstname ?? ''} ${loan.item.author.lastname ?? ''}`.trim() : '',
+            loan.specimen_identification ?? '',
+            toDateKey(loan.start_date),
+            toDateKey(loan.issue_date),
+            toDateKey(loan.returned_date),
+          ]),
+        ],
+        `loan-history-${new Date().toISOString().slice(0, 10)}.csv`
+      );
+    } catch (error) {
+      console.error('Error exporting loan history:', error);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const columns = [
+    {
+      key: 'title',
+      header: t('loans.document'),
+      render: (loan: Loan) => (
+        <div>
+          <p className="font-medium text-gray-900 dark:text-white">{loan.item.title || t('loans.noTitle')}</p>
+          {loan.item.author && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {loan.item.author.firstname} {loan.item.author.lastname}
+            </p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'start_date',
+      header: t('loans.history.startDate'),
+      render: (loan: Loan) => formatDate(loan.start_date),
+    },
+    {
+      key: 'issue_date',
+      header: t('loans.dueDate'),
+      render: (loan: Loan) => formatDate(loan.issue_date),
+    },
+    {
+      key: 'returned_date',
+      header: t('loans.history.returnDate'),
+      render: (loan: Loan) => formatDate(loan.returned_date),
+    },
+  ];
+
+  const totalPages = Math.ceil(total / HISTORY_PER_PAGE);
+  const dateInputClassName =
+    'w-full px-4 py-2.5 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100';
+
+  return (
+    <Card padding="none">
+      <div className="p-4 sm:p-6 border-b border-gray-200 dark:border-gray-800 space-y-4">
+        {retentionDisabled && (
+          <div className="flex items-start gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-800/50">
+            <Info className="h-5 w-5 text-gray-400 flex-shrink-0" />
+            <p className="text-sm text-gray-600 dark:text-gray-300">{t('loans.history.retentionDisabled')}</p>
+          </div>
+        )}
+        <div className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+              {t('loans.document')}
+            </label>
+            <SearchInput
+              value={title}
+              onChange={(value) => {
+                setTitle(value);
+                setCurrentPage(1);
+              }}
+              placeholder={t('loans.history.searchTitle')}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+              {t('loans.history.from')}
+            </label>
+            <input
+              type="date"
+              value={from}
+              max={to || undefined}
+              onChange={(e) => {
+                setFrom(e.target.value);
+                setCurrentPage(1);
+              }}
+              className={dateInputClassName}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+              {t('loans.history.to')}
+            </label>
+            <input
+              type="date"
+              value={to}
+              min={from || undefined}
+              onChange={(e) => {
+                setTo(e.target.value);
+                setCurrentPage(1);
+              }}
+              className={dateInputClassName}
+            />
+          </div>
+        </div>
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('loans.history.count', { count: total })}</p>
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={handleExport}
+            isLoading={isExporting}
+            disabled={total === 0}
+            leftIcon={<FileSpreadsheet className="h-4 w-4" />}
+          >
+            {t('loans.history.exportCsv')}
+          </Button>
+        </div>
+      </div>
+      <Table
+        columns={columns}
+        data={loans}
+        keyExtractor={(loan) => loan.id}
+        isLoading={isLoading}
+        emptyMessage={t('loans.history.empty')}
+      />
+      {totalPages > 1 && (
+        <div className="p-4 border-t border-gray-200 dark:border-gray-800">
+          <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
+        </div>
+      )}
+    </Card>
+  );
+}
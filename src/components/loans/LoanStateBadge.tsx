@@ -0,0 +1,23 @@
+import { useTranslation } from 'react-i18next';
+import { Badge } from '@/components/common';
+import type { LoanState } from '@/types';
+
+const STATE_VARIANTS: Record<LoanState, 'default' | 'success' | 'warning' | 'danger' | 'info'> = {
+  active: 'default',
+  lost: 'danger',
+  damaged: 'warning',
+  claims_returned: 'info',
+};
+
+interface LoanStateBadgeProps {
+  state?: LoanState;
+}
+
+/** Renders nothing for regular (active) loans */
+export default function LoanStateBadge({ state }: LoanStateBadgeProps) {
+  const { t } = useTranslation();
+
+  if (!state || state === 'active') return null;
+
+  return <Badge variant={STATE_VARIANTS[state] ?? 'default'}>{t(`loans.state.${state}`)}</Badge>;
+}
@@ -0,0 +1,150 @@
+import { useState, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Button, Input } from '@/components/common';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import { toDateKey } from '@/utils/calendar';
+import { DEFAULT_CURRENCY, formatMoney, parsePrice } from '@/utils/money';
+import type { Loan, LoanState } from '@/types';
+
+type ReportedState = Exclude<LoanState, 'active'>;
+
+const REPORTED_STATES: ReportedState[] = ['lost', 'damaged', 'claims_returned'];
+
+interface LoanStateFormProps {
+  loan: Loan;
+  initialState?: ReportedState;
+  onSuccess: (loan: Loan) => void;
+}
+
+/** Reports a loan as lost, damaged or claimed returned, with a reason and a date */
+export default function LoanStateForm({ loan, initialState = 'lost', onSuccess }: LoanStateFormProps) {
+  const { t, i18n } = useTranslation();
+  const [state, setState] = useState<ReportedState>(initialState);
+  const [reason, setReason] = useState(loan.state === initialState ? (loan.state_reason ?? '') : '');
+  const [date, setDate] = useState(() => toDateKey(new Date()));
+  const [archiveSpecimen, setArchiveSpecimen] = useState(true);
+  const [chargePrice, setChargePrice] = useState(true);
+  const [price, setPrice] = useState<number | null>(null);
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  // Replacement cost of a lost copy comes from the borrowed specimen's price, in the fines currency
+  useEffect(() => {
+    Promise.all([api.getItem(loan.item.id), api.getSettings().catch(() => null)])
+      .then(([item, settings]) => {
+        const specimen = item.specimens?.find(
+          (s) => s.barcode === loan.specimen_identification || s.id === loan.specimen_identification
+        );
+        setPrice(parsePrice(specimen?.price));
+        if (settings?.fine_settings) setCurrency(settings.fine_settings.currency);
+      })
+      .catch((error) => console.error('Error fetching specimen price:', error));
+  }, [loan.item.id, loan.specimen_identification]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reason.trim()) {
+      setError(t('loans.state.reasonRequired'));
+      return;
+    }
+    setError('');
+    setIsLoading(true);
+    try {
+      const updated = await api.setLoanState(loan.id, {
+        state,
+        reason: reason.trim(),
+        date,
+        archive_specimen: state === 'lost' ? archiveSpecimen : undefined,
+        charge_amount: state === 'lost' && chargePrice && price !== null ? price : undefined,
+      });
+      onSuccess(updated);
+    } catch (error) {
+      console.error('Error updating loan state:', error);
+      setError(getApiErrorMessage(error, t));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <p className="font-medium text-gray-900 dark:text-white">{loan.item.title || t('loans.noTitle')}</p>
+        {loan.specimen_identification && (
+          <p className="text-sm font-mono text-gray-500 dark:text-gray-400">{loan.specimen_identification}</p>
+        )}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+          {t('common.status')}
+        </label>
+        <select
+          value={state}
+          onChange={(e) => setState(e.target.value as ReportedState)}
+          className="w-full px-4 py-2.5 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+        >
+          {REPORTED_STATES.map((value) => (
+            <option key={value} value={value}>
+              {t(`loans.state.${value}`)}
+            </option>
+          ))}
+        </select>
+        <p className="mt-1.5 text-sm text-gray-500 dark:text-gray-400">{t(`loans.state.hint.${state}`)}</p>
+      </div>
+
+      <Input
+        label={t('loans.state.reason')}
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        required
+      />
+      <Input
+        label={t('loans.state.date')}
+        type="date"
+        value={date}
+        onChange={(e) => setDate(e.target.value)}
+        required
+      />
+
+      {state === 'lost' && (
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={archiveSpecimen}
+              onChange={(e) => setArchiveSpecimen(e.target.checked)}
+              className="rounded border-gray-300 dark:border-gray-700 text-indigo-600 focus:ring-indigo-500"
+            />
+            {t('loans.state.archiveSpecimen')}
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={chargePrice && price !== null}
+              onChange={(e) => setChargePrice(e.target.checked)}
+              disabled={price === null}
+              className="rounded border-gray-300 dark:border-gray-700 text-indigo-600 focus:ring-indigo-500"
+            />
+            {price !== null
+              ? t('loans.state.chargePrice', { amount: formatMoney(price, i18n.language, currency) })
+              : t('loans.state.noPrice')}
+          </label>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+      <div className="flex justify-end gap-2 pt-4">
+        <Button type="submit" isLoading={isLoading}>
+          {t('common.save')}
+        </Button>
+      </div>
+    </form>
+  );
+}
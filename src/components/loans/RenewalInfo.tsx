@@ -0,0 +1,34 @@
+import { useTranslation } from 'react-i18next';
+import { CalendarClock, Ban } from 'lucide-react';
+import type { RenewalEligibility } from '@/utils/renewal';
+
+interface RenewalInfoProps {
+  eligibility: RenewalEligibility;
+  className?: string;
+}
+
+/** New due date when the loan can be renewed, otherwise every reason it can't */
+export default function RenewalInfo({ eligibility, className = '' }: RenewalInfoProps) {
+  const { t, i18n } = useTranslation();
+
+  if (eligibility.canRenew) {
+    if (!eligibility.newDueDate) return null;
+    return (
+      <p className={`flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 ${className}`}>
+        <CalendarClock className="h-3.5 w-3.5 flex-shrink-0" />
+        {t('loans.renewal.newDueDate', { date: eligibility.newDueDate.toLocaleDateString(i18n.language) })}
+      </p>
+    );
+  }
+
+  return (
+    <div className={`text-xs text-gray-500 dark:text-gray-400 ${className}`}>
+      {eligibility.reasons.map((reason) => (
+        <p key={reason} className="flex items-center gap-1">
+          <Ban className="h-3.5 w-3.5 flex-shrink-0" />
+          {t(`loans.renewal.reason.${reason}`, { max: eligibility.maxRenewals })}
+        </p>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Download } from 'lucide-react';
+import { Button, Modal } from '@/components/common';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import {
+  HOLDINGS_TAG,
+  downloadMarc,
+  iso2709LengthError,
+  withHoldings,
+  type Iso2709LengthError,
+  type MarcExportFormat,
+} from '@/utils/marcExport';
+import type { MarcFormat, MarcRecord } from '@/types';
+
+/** A set of documents the user can export, resolved to ids only when the export starts */
+export interface MarcExportScope {
+  key: string;
+  label: string;
+  resolveIds: () => Promise<string[]>;
+}
+
+interface MarcExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  scopes: MarcExportScope[];
+  /** File name without extension */
+  basename: string;
+}
+
+/** Record left out of an ISO 2709 export because it exceeds the format's length limits */
+interface OversizedRecord {
+  id: string;
+  title?: string | null;
+  reason: Iso2709LengthError;
+}
+
+const selectClassName =
+  'w-full px-4 py-2.5 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100';
+
+/** Export of full MARC records with holdings, as MARCXML or ISO 2709 */
+export default function MarcExportModal({ isOpen, onClose, scopes, basename }: MarcExportModalProps) {
+  const { t } = useTranslation();
+  const [scopeKey, setScopeKey] = useState('');
+  const [exportFormat, setExportFormat] = useState<MarcExportFormat>('marcxml');
+  const [marcFormat, setMarcFormat] = useState<MarcFormat>('UNIMARC');
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [result, setResult] = useState<{ exported: number; skipped: number; oversized: OversizedRecord[] } | null>(null);
+  const [error, setError] = useState('');
+
+  const scope = scopes.find((s) => s.key === scopeKey) ?? scopes[0];
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    if (!scope) return;
+    setError('');
+    setResult(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const ids = await scope.resolveIds();
+      setProgress({ done: 0, total: ids.length });
+      const records: MarcRecord[] = [];
+      let skipped = 0;
+      const oversized: OversizedRecord[] = [];
+      // One request per record keeps the server-side conversion simple; progress shows how far we are
+      for (const [index, id] of ids.entries()) {
+        const item = await api.getItem(id, { full_record: true, marc_format: marcFormat });
+        if (item.marc_record) {
+          const record = withHoldings(item.marc_record, item.specimens, marcFormat);
+          const reason = exportFormat === 'iso2709' ? iso2709LengthError(record, marcFormat) : null;
+          if (reason) oversized.push({ id, title: item.title, reason });
+          else records.push(record);
+        } else {
+          skipped++;
+        }
+        setProgress({ done: index + 1, total: ids.length });
+      }
+      if (records.length > 0) downloadMarc(records, marcFormat, exportFormat, basename);
+      setResult({ exported: records.length, skipped, oversized });
+    } catch (error) {
+      console.error('Error exporting MARC records:', error);
+      setError(getApiErrorMessage(error, t));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t('items.export.title')} size="md">
+      <div className="space-y-4">
+        {scopes.length > 1 && (
+          <div className="space-y-2">
+            {scopes.map((s) => (
+              <label key={s.key} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="radio"
+                  name="export-scope"
+                  checked={s.key === scope?.key}
+                  onChange={() => setScopeKey(s.key)}
+                  disabled={isExporting}
+                />
+                {s.label}
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+              {t('items.export.fileFormat')}
+            </label>
+            <select
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as MarcExportFormat)}
+              disabled={isExporting}
+              className={selectClassName}
+            >
+              <option value="marcxml">MARCXML</option>
+              <option value="iso2709">ISO 2709</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+              {t('items.export.marcFormat')}
+            </label>
+            <select
+              value={marcFormat}
+              onChange={(e) => setMarcFormat(e.target.value as MarcFormat)}
+              disabled={isExporting}
+              className={selectClassName}
+            >
+              <option value="UNIMARC">UNIMARC</option>
+              <option value="MARC21">MARC21</option>
+            </select>
+          </div>
+        </div>
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          {t('items.export.holdingsHint', { tag: HOLDINGS_TAG[marcFormat] })}
+        </p>
+
+        {progress && (
+          <div className="space-y-1">
+            <div className="h-2 rounded-full bg-gray-200 dark:bg-gray-700 overflow-hidden">
+              <div
+                className="h-full bg-indigo-600 transition-all"
+                style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {t('items.export.progress', { done: progress.done, total: progress.total })}
+            </p>
+          </div>
+        )}
+
+        {result && (
+          <p className="text-sm text-green-600 dark:text-green-400">
+            {t('items.export.done', { count: result.exported })}
+            {result.skipped > 0 && ` ${t('items.export.skipped', { count: result.skipped })}`}
+          </p>
+        )}
+
+        {result && result.oversized.length > 0 && (
+          <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+            <p className="text-sm font-medium text-red-800 dark:text-red-200">
+              {t('items.export.oversized', { count: result.oversized.length })}
+            </p>
+            <ul className="mt-2 space-y-1 text-sm text-red-700 dark:text-red-300">
+              {result.oversized.map((record) => (
+                <li key={record.id}>
+                  {record.title || `#${record.id}`} — {t(`items.export.${record.reason}`)}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+            <p className="text-sm font-medium text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <Button variant="secondary" onClick={onClose}>
+            {t('common.close')}
+          </Button>
+          <Button onClick={handleExport} isLoading={isExporting} leftIcon={<Download className="h-4 w-4" />}>
+            {t('items.export.action')}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
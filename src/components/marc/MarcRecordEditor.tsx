@@ -0,0 +1,249 @@
+import { useTranslation } from 'react-i18next';
+import { ArrowUp, ArrowDown, Plus, X } from 'lucide-react';
+import { Button } from '@/components/common';
+import { displayIndicator, isControlTag, parseIndicator, type MarcIssue } from '@/utils/marc';
+import type { MarcField, MarcRecord, MarcSubfield } from '@/types';
+
+interface MarcRecordEditorProps {
+  record: MarcRecord;
+  issues: MarcIssue[];
+  onChange: (record: MarcRecord) => void;
+}
+
+const inputClassName =
+  'px-2 py-1.5 rounded-md border bg-white dark:bg-gray-900 font-mono text-sm text-gray-900 dark:text-gray-100';
+
+const borderClass = (invalid: boolean) =>
+  invalid ? 'border-red-400 dark:border-red-600' : 'border-gray-300 dark:border-gray-700';
+
+/** Swap an entry with its neighbour; out-of-range moves are ignored */
+function move<T>(list: T[], index: number, offset: number): T[] {
+  const target = index + offset;
+  if (target < 0 || target >= list.length) return list;
+  const next = [...list];
+  [next[index], next[target]] = [next[target], next[index]];
+  return next;
+}
+
+/** A field keeps its current shape while its tag is being typed, and follows the tag once it has 3 characters */
+function isControlField(field: MarcField): boolean {
+  return field.tag.length === 3 ? isControlTag(field.tag) : field.subfields === undefined;
+}
+
+/** Field-by-field MARC editing: tags, indicators and subfields can be added, removed and reordered */
+export default function MarcRecordEditor({ record, issues, onChange }: MarcRecordEditorProps) {
+  const { t } = useTranslation();
+
+  const setFields = (fields: MarcField[]) => onChange({ ...record, fields });
+
+  const updateField = (index: number, field: MarcField) => {
+    setFields(record.fields.map((f, i) => (i === index ? field : f)));
+  };
+
+  const changeTag = (index: number, tag: string) => {
+    const field = record.fields[index];
+    const control = isControlField(field);
+    if (tag.length < 3 || isControlTag(tag) === control) {
+      updateField(index, { ...field, tag });
+    } else if (isControlTag(tag)) {
+      // Data field becoming a control field: its subfield values become the value
+      const value = (field.subfields ?? []).map((subfield) => subfield.value).filter(Boolean).join(' ');
+      updateField(index, { tag, value });
+    } else {
+      // Control field becoming a data field: its value moves to $a
+      updateField(index, { tag, ind1: ' ', ind2: ' ', subfields: [{ code: 'a', value: field.value ?? '' }] });
+    }
+  };
+
+  const updateSubfields = (index: number, subfields: MarcSubfield[]) => {
+    updateField(index, { ...record.fields[index], subfields });
+  };
+
+  const issuesOf = (fieldIndex: number) => issues.filter((issue) => issue.fieldIndex === fieldIndex);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <span className="w-12 font-mono text-sm font-semibold text-gray-900 dark:text-white">LDR</span>
+        <input
+          value={record.leader}
+          onChange={(e) => onChange({ ...record, leader: e.target.value })}
+          maxLength={24}
+          className={`${inputClassName} ${borderClass(issues.some((i) => i.code === 'leaderLength' || i.code === 'leaderCharacters'))} flex-1 min-w-0 whitespace-pre`}
+        />
+      </div>
+
+      {record.fields.map((field, index) => {
+        const fieldIssues = issuesOf(index);
+        const control = isControlField(field);
+        const subfields = field.subfields ?? [];
+
+        return (
+          <div
+            key={index}
+            className="p-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50 space-y-2"
+          >
+            <div className="flex items-start gap-2">
+              <input
+                value={field.tag}
+                onChange={(e) => changeTag(index, e.target.value)}
+                maxLength={3}
+                placeholder="000"
+                aria-label={t('items.marc.tag')}
+                className={`${inputClassName} ${borderClass(fieldIssues.some((i) => i.code === 'tagSyntax'))} w-14`}
+              />
+              {control ? (
+                <input
+                  value={field.value ?? ''}
+                  onChange={(e) => updateField(index, { ...field, value: e.target.value })}
+                  aria-label={t('items.marc.content')}
+                  className={`${inputClassName} ${borderClass(fieldIssues.some((i) => i.code === 'emptyControlField'))} flex-1 min-w-0`}
+                />
+              ) : (
+                <>
+                  {(['ind1', 'ind2'] as const).map((key) => (
+                    <input
+                      key={key}
+                      value={displayIndicator(field[key])}
+                      onChange={(e) => updateField(index, { ...field, [key]: parseIndicator(e.target.value) })}
+                      onFocus={(e) => e.target.select()}
+                      aria-label={t('items.marc.indicators')}
+                      className={`${inputClassName} ${borderClass(fieldIssues.some((i) => i.code === 'indicatorSyntax'))} w-9 text-center`}
+                    />
+                  ))}
+                  <div className="flex-1" />
+                </>
+              )}
+              <div className="flex items-center">
+                <IconButton title={t('items.marc.moveUp')} onClick={() => setFields(move(record.fields, index, -1))} disabled={index === 0}>
+                  <ArrowUp className="h-4 w-4" />
+                </IconButton>
+                <IconButton
+                  title={t('items.marc.moveDown')}
+                  onClick={() => setFields(move(record.fields, index, 1))}
+                  disabled={index === record.fields.length - 1}
+                >
+                  <ArrowDown className="h-4 w-4" />
+                </IconButton>
+                <IconButton
+                  title={t('items.marc.removeField')}
+                  onClick={() => setFields(record.fields.filter((_, i) => i !== index))}
+                  danger
+                >
+                  <X className="h-4 w-4" />
+                </IconButton>
+              </div>
+            </div>
+
+            {!control && (
+              <div className="pl-16 space-y-1.5">
+                {subfields.map((subfield, sfIndex) => {
+                  const invalid = fieldIssues.some((i) => i.subfieldIndex === sfIndex);
+                  return (
+                    <div key={sfIndex} className="flex items-center gap-2">
+                      <span className="font-mono text-sm text-indigo-600 dark:text-indigo-400">$</span>
+                      <input
+                        value={subfield.code}
+                        onChange={(e) =>
+                          updateSubfields(
+                            index,
+                            subfields.map((s, i) => (i === sfIndex ? { ...s, code: e.target.value.slice(-1) } : s))
+                          )
+                        }
+                        onFocus={(e) => e.target.select()}
+                        aria-label={t('items.marc.subfieldCode')}
+                        className={`${inputClassName} ${borderClass(invalid)} w-9 text-center`}
+                      />
+                      <input
+                        value={subfield.value}
+                        onChange={(e) =>
+                          updateSubfields(
+                            index,
+                            subfields.map((s, i) => (i === sfIndex ? { ...s, value: e.target.value } : s))
+                          )
+                        }
+                        aria-label={t('items.marc.content')}
+                        className={`${inputClassName} ${borderClass(invalid)} flex-1 min-w-0`}
+                      />
+                      <IconButton
+                        title={t('items.marc.moveUp')}
+                        onClick={() => updateSubfields(index, move(subfields, sfIndex, -1))}
+                        disabled={sfIndex === 0}
+                      >
+                        <ArrowUp className="h-3.5 w-3.5" />
+                      </IconButton>
+                      <IconButton
+                        title={t('items.marc.moveDown')}
+                        onClick={() => updateSubfields(index, move(subfields, sfIndex, 1))}
+                        disabled={sfIndex === subfields.length - 1}
+                      >
+                        <ArrowDown className="h-3.5 w-3.5" />
+                      </IconButton>
+                      <IconButton
+                        title={t('items.marc.removeSubfield')}
+                        onClick={() => updateSubfields(index, subfields.filter((_, i) => i !== sfIndex))}
+                        danger
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </IconButton>
+                    </div>
+                  );
+                })}
+                <button
+                  type="button"
+                  onClick={() => updateSubfields(index, [...subfields, { code: '', value: '' }])}
+                  className="inline-flex items-center gap-1 text-xs text-indigo-600 dark:text-indigo-400 hover:underline"
+                >
+                  <Plus className="h-3 w-3" />
+                  {t('items.marc.addSubfield')}
+                </button>
+              </div>
+            )}
+
+            {fieldIssues.length > 0 && (
+              <ul className="pl-16 text-xs text-red-600 dark:text-red-400">
+                {fieldIssues.map((issue, i) => (
+                  <li key={i}>{t(`items.marc.errors.${issue.code}`)}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+
+      <Button
+        type="button"
+        size="sm"
+        variant="secondary"
+        onClick={() => setFields([...record.fields, { tag: '', ind1: ' ', ind2: ' ', subfields: [{ code: 'a', value: '' }] }])}
+        leftIcon={<Plus className="h-4 w-4" />}
+      >
+        {t('items.marc.addField')}
+      </Button>
+    </div>
+  );
+}
+
+interface IconButtonProps {
+  title: string;
+  onClick: () => void;
+  disabled?: boolean;
+  danger?: boolean;
+  children: React.ReactNode;
+}
+
+function IconButton({ title, onClick, disabled, danger, children }: IconButtonProps) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      disabled={disabled}
+      title={title}
+      className={`p-1.5 rounded text-gray-400 hover:bg-gray-200 dark:hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent ${
+        danger ? 'hover:text-red-600' : 'hover:text-gray-700 dark:hover:text-gray-200'
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
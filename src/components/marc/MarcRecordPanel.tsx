@@ -0,0 +1,172 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Edit, Save } from 'lucide-react';
+import { Card, CardHeader, Button, Badge, Modal } from '@/components/common';
+import MarcRecordView from '@/components/marc/MarcRecordView';
+import MarcRecordEditor from '@/components/marc/MarcRecordEditor';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import { TITLE_TAG, diffMarcRecords, normalizeMarcFormat, validateMarcRecord } from '@/utils/marc';
+import type { Item, MarcRecord } from '@/types';
+
+interface MarcRecordPanelProps {
+  itemId: string;
+  marcFormat?: string | null;
+  canEdit: boolean;
+  onSaved: (item: Item) => void;
+}
+
+/** MARC tab of an item: the full record as stored, and for cataloguers an editor saved through updateItem after a diff review */
+export default function MarcRecordPanel({ itemId, marcFormat, canEdit, onSaved }: MarcRecordPanelProps) {
+  const { t } = useTranslation();
+  const format = normalizeMarcFormat(marcFormat);
+
+  const [record, setRecord] = useState<MarcRecord | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [draft, setDraft] = useState<MarcRecord | null>(null);
+  const [showDiff, setShowDiff] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    api
+      .getItem(itemId, { full_record: true })
+      .then((data) => setRecord(data.marc_record ?? null))
+      .catch((error) => console.error('Error fetching MARC record:', error))
+      .finally(() => setIsLoading(false));
+  }, [itemId]);
+
+  const issues = useMemo(() => (draft ? validateMarcRecord(draft, format) : []), [draft, format]);
+  const diff = useMemo(() => (record && draft ? diffMarcRecords(record, draft) : []), [record, draft]);
+  const hasChanges = diff.some((line) => line.type !== 'same');
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setError('');
+    setIsSaving(true);
+    try {
+      const updated = await api.updateItem(itemId, { marc_record: draft });
+      setRecord(updated.marc_record ?? draft);
+      setDraft(null);
+      setShowDiff(false);
+      onSaved(updated);
+    } catch (error) {
+      console.error('Error saving MARC record:', error);
+      setError(getApiErrorMessage(error, t));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <Card>
+        <div className="flex justify-center py-8">
+          <div className="h-8 w-8 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin" />
+        </div>
+      </Card>
+    );
+  }
+
+  if (!record) {
+    return (
+      <Card>
+        <p className="text-center py-8 text-gray-500 dark:text-gray-400">{t('items.marc.noRecord')}</p>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader
+        title={t('items.marc.title')}
+        subtitle={t('items.marc.fieldCount', { count: (draft ?? record).fields.length })}
+        action={
+          <div className="flex items-center gap-2">
+            <Badge>{format}</Badge>
+            {canEdit &&
+              (draft ? (
+                <>
+                  <Button size="sm" variant="ghost" onClick={() => setDraft(null)}>
+                    {t('common.cancel')}
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => setShowDiff(true)}
+                    disabled={issues.length > 0 || !hasChanges}
+                    leftIcon={<Save className="h-4 w-4" />}
+                  >
+                    {t('items.marc.review')}
+                  </Button>
+                </>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => setDraft(structuredClone(record))}
+                  leftIcon={<Edit className="h-4 w-4" />}
+                >
+                  {t('common.edit')}
+                </Button>
+              ))}
+          </div>
+        }
+      />
+
+      {draft ? (
+        <div className="space-y-4">
+          {issues.some((issue) => issue.fieldIndex === undefined) && (
+            <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+              {issues
+                .filter((issue) => issue.fieldIndex === undefined)
+                .map((issue) => (
+                  <p key={issue.code} className="text-sm font-medium text-red-800 dark:text-red-200">
+                    {t(`items.marc.errors.${issue.code}`, { tag: TITLE_TAG[format] })}
+                  </p>
+                ))}
+            </div>
+          )}
+          <MarcRecordEditor record={draft} issues={issues} onChange={setDraft} />
+        </div>
+      ) : (
+        <MarcRecordView record={record} />
+      )}
+
+      <Modal isOpen={showDiff} onClose={() => setShowDiff(false)} title={t('items.marc.reviewTitle')} size="lg">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('items.marc.reviewHint')}</p>
+          <div className="max-h-[60vh] overflow-auto rounded-lg border border-gray-200 dark:border-gray-700 font-mono text-sm">
+            {diff
+              .filter((line) => line.type !== 'same')
+              .map((line, index) => (
+                <div
+                  key={index}
+                  className={`px-3 py-1 whitespace-pre-wrap ${
+                    line.type === 'added'
+                      ? 'bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-200'
+                      : 'bg-red-50 dark:bg-red-900/20 text-red-800 dark:text-red-200'
+                  }`}
+                >
+                  {line.type === 'added' ? '+ ' : '- '}
+                  {line.text}
+                </div>
+              ))}
+          </div>
+          {error && (
+            <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+              <p className="text-sm font-medium text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={() => setShowDiff(false)}>
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handleSave} isLoading={isSaving}>
+              {t('items.marc.confirmSave')}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </Card>
+  );
+}
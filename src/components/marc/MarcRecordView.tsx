@@ -0,0 +1,59 @@
+import { useTranslation } from 'react-i18next';
+import { displayIndicator, isControlTag } from '@/utils/marc';
+import type { MarcRecord } from '@/types';
+
+interface MarcRecordViewProps {
+  record: MarcRecord;
+}
+
+/** Read-only rendering of a MARC record, one row per field */
+export default function MarcRecordView({ record }: MarcRecordViewProps) {
+  const { t } = useTranslation();
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full font-mono text-sm">
+        <thead>
+          <tr className="border-b border-gray-200 dark:border-gray-800">
+            <th className="px-3 py-2 text-left text-xs font-semibold font-sans text-gray-500 dark:text-gray-400 uppercase tracking-wider w-16">
+              {t('items.marc.tag')}
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-semibold font-sans text-gray-500 dark:text-gray-400 uppercase tracking-wider w-16">
+              {t('items.marc.indicators')}
+            </th>
+            <th className="px-3 py-2 text-left text-xs font-semibold font-sans text-gray-500 dark:text-gray-400 uppercase tracking-wider">
+              {t('items.marc.content')}
+            </th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
+          <tr>
+            <td className="px-3 py-1.5 font-semibold text-gray-900 dark:text-white">LDR</td>
+            <td className="px-3 py-1.5" />
+            <td className="px-3 py-1.5 text-gray-700 dark:text-gray-300 whitespace-pre">{record.leader}</td>
+          </tr>
+          {record.fields.map((field, index) => (
+            <tr key={index}>
+              <td className="px-3 py-1.5 font-semibold text-gray-900 dark:text-white align-top">{field.tag}</td>
+              <td className="px-3 py-1.5 text-gray-500 dark:text-gray-400 align-top">
+                {isControlTag(field.tag) ? '' : displayIndicator(field.ind1) + displayIndicator(field.ind2)}
+              </td>
+              <td className="px-3 py-1.5 text-gray-700 dark:text-gray-300">
+                {isControlTag(field.tag) ? (
+                  <span className="whitespace-pre-wrap">{field.value}</span>
+                ) : (
+                  (field.subfields ?? []).map((subfield, i) => (
+                    <span key={i} className="mr-2">
+                      <span className="font-semibold text-indigo-600 dark:text-indigo-400">${subfield.code}</span>
+                      {subfield.value}
+                    </span>
+                  ))
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
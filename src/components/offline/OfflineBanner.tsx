@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { WifiOff, RefreshCw, AlertTriangle } from 'lucide-react';
+import { Button, Modal, Table, Badge } from '@/components/common';
+import { useOffline } from '@/contexts/useOffline';
+import type { OfflineConflict } from '@/types';
+
+/** Offline state and pending transactions, plus the report of transactions rejected on replay */
+export default function OfflineBanner() {
+  const { t, i18n } = useTranslation();
+  const { isOffline, pendingCount, isSyncing, conflicts, sync, clearConflicts } = useOffline();
+  const [showReport, setShowReport] = useState(false);
+
+  const columns = [
+    {
+      key: 'recorded_at',
+      header: t('offline.recordedAt'),
+      render: (conflict: OfflineConflict) =>
+        new Date(conflict.transaction.recorded_at).toLocaleString(i18n.language),
+    },
+    {
+      key: 'kind',
+      header: t('common.type'),
+      render: (conflict: OfflineConflict) => (
+        <Badge variant={conflict.transaction.kind === 'checkout' ? 'info' : 'default'}>
+          {t(`offline.kind.${conflict.transaction.kind}`)}
+        </Badge>
+      ),
+    },
+    {
+      key: 'specimen',
+      header: t('loans.specimenBarcode'),
+      render: (conflict: OfflineConflict) => (
+        <div>
+          <p className="font-mono text-gray-900 dark:text-white">{conflict.transaction.specimen_identification}</p>
+          {conflict.transaction.user_label && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">{conflict.transaction.user_label}</p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'message',
+      header: t('offline.conflict'),
+      render: (conflict: OfflineConflict) => (
+        <span className="text-sm text-red-600 dark:text-red-400">{conflict.message}</span>
+      ),
+    },
+  ];
+
+  if (!isOffline && pendingCount === 0 && conflicts.length === 0) return null;
+
+  return (
+    <div className="px-4 lg:px-6 pt-4 space-y-2">
+      {(isOffline || pendingCount > 0) && (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+          <div className="flex items-center gap-3 flex-1">
+            <WifiOff className="h-5 w-5 text-amber-600 dark:text-amber-500 flex-shrink-0" />
+            <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+              {isSyncing
+                ? t('offline.syncing', { count: pendingCount })
+                : isOffline
+                  ? t('offline.banner', { count: pendingCount })
+                  : t('offline.pending', { count: pendingCount })}
+            </p>
+          </div>
+          {pendingCount > 0 && (
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={() => sync()}
+              isLoading={isSyncing}
+              leftIcon={<RefreshCw className="h-4 w-4" />}
+            >
+              {t('offline.retryNow')}
+            </Button>
+          )}
+        </div>
+      )}
+
+      {conflicts.length > 0 && (
+        <div className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          <div className="flex items-center gap-3 flex-1">
+            <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0" />
+            <p className="text-sm font-medium text-red-800 dark:text-red-200">
+              {t('offline.conflicts', { count: conflicts.length })}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button size="sm" variant="secondary" onClick={() => setShowReport(true)}>
+              {t('offline.viewReport')}
+            </Button>
+            <Button size="sm" variant="ghost" onClick={clearConflicts}>
+              {t('offline.dismiss')}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Modal isOpen={showReport} onClose={() => setShowReport(false)} title={t('offline.reportTitle')} size="xl">
+        <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">{t('offline.reportHint')}</p>
+        <Table
+          columns={columns}
+          data={conflicts}
+          keyExtractor={(conflict) => `${conflict.id}`}
+          emptyMessage={t('offline.noConflicts')}
+        />
+      </Modal>
+    </div>
+  );
+}
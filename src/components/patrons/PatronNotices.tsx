@@ -0,0 +1,50 @@
+import { useTranslation } from 'react-i18next';
+import { Ban, MessageSquareWarning } from 'lucide-react';
+import type { PatronStatus } from '@/types';
+
+interface PatronNoticesProps {
+  status: PatronStatus | null;
+}
+
+/** Blocks and alerts of a reader, as shown at the loan desk. Renders nothing when there are none. */
+export default function PatronNotices({ status }: PatronNoticesProps) {
+  const { t, i18n } = useTranslation();
+
+  if (!status || (status.blocks.length === 0 && status.alerts.length === 0)) return null;
+
+  return (
+    <div className="space-y-3">
+      {status.blocks.length > 0 && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          <div className="flex items-center gap-2 mb-1">
+            <Ban className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0" />
+            <p className="text-sm font-semibold text-red-800 dark:text-red-200">{t('patrons.blocked')}</p>
+          </div>
+          <ul className="ml-7 space-y-0.5 text-sm text-red-700 dark:text-red-300">
+            {status.blocks.map((block, index) => (
+              <li key={block.id ?? `${block.kind}-${index}`}>
+                {t(`patrons.block.${block.kind}`)}
+                {block.reason ? ` — ${block.reason}` : ''}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+      {status.alerts.map((alert) => (
+        <div
+          key={alert.id}
+          className="flex items-start gap-3 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800"
+        >
+          <MessageSquareWarning className="h-5 w-5 text-amber-600 dark:text-amber-500 flex-shrink-0" />
+          <div>
+            <p className="text-sm font-medium text-amber-800 dark:text-amber-200 whitespace-pre-line">{alert.message}</p>
+            <p className="text-xs text-amber-700/80 dark:text-amber-300/80">
+              {new Date(alert.created_at).toLocaleDateString(i18n.language)}
+              {alert.created_by && ` · ${alert.created_by.firstname ?? ''} ${alert.created_by.lastname ?? ''}`}
+            </p>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,272 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Ban, MessageSquareWarning, Plus, Trash2 } from 'lucide-react';
+import { Card, CardHeader, Button, Badge, Modal, Input, Table } from '@/components/common';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import type { BlockOverride, PatronStatus } from '@/types';
+
+type NoticeFormMode = 'block' | 'alert';
+
+interface PatronStatusCardProps {
+  userId: string;
+}
+
+/** Blocks, alerts and the log of loans forced despite a block, for staff */
+export default function PatronStatusCard({ userId }: PatronStatusCardProps) {
+  const { t, i18n } = useTranslation();
+  const [status, setStatus] = useState<PatronStatus>({ blocks: [], alerts: [] });
+  const [overrides, setOverrides] = useState<BlockOverride[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [formMode, setFormMode] = useState<NoticeFormMode | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    try {
+      const [statusData, overridesData] = await Promise.all([
+        api.getPatronStatus(userId),
+        api.getBlockOverrides(userId),
+      ]);
+      setStatus(statusData);
+      setOverrides(overridesData);
+    } catch (error) {
+      console.error('Error fetching patron blocks:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchStatus();
+  }, [fetchStatus]);
+
+  const handleRemoveBlock = async (blockId: string) => {
+    if (!confirm(t('patrons.liftBlockConfirm'))) return;
+    try {
+      await api.removePatronBlock(userId, blockId);
+      fetchStatus();
+    } catch (error) {
+      console.error('Error lifting block:', error);
+      alert(getApiErrorMessage(error, t));
+    }
+  };
+
+  const handleRemoveAlert = async (alertId: string) => {
+    try {
+      await api.removePatronAlert(userId, alertId);
+      fetchStatus();
+    } catch (error) {
+      console.error('Error removing alert:', error);
+      alert(getApiErrorMessage(error, t));
+    }
+  };
+
+  const staffName = (override: BlockOverride) =>
+    override.created_by ? `${override.created_by.firstname ?? ''} ${override.created_by.lastname ?? ''}`.trim() : '-';
+
+  const overrideColumns = [
+    {
+      key: 'date',
+      header: t('common.date'),
+      render: (override: BlockOverride) => new Date(override.created_at).toLocaleString(i18n.language),
+    },
+    {
+      key: 'item',
+      header: t('loans.document'),
+      render: (override: BlockOverride) => (
+        <div>
+          <p className="text-gray-900 dark:text-white">{override.item?.title || t('loans.noTitle')}</p>
+          {override.specimen_identification && (
+            <p className="text-sm font-mono text-gray-500 dark:text-gray-400">{override.specimen_identification}</p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'blocks',
+      header: t('patrons.blocks'),
+      render: (override: BlockOverride) => (
+        <div className="flex flex-wrap gap-1">
+          {override.blocks.map((kind) => (
+            <Badge key={kind} variant="danger" size="sm">
+              {t(`patrons.block.${kind}`)}
+            </Badge>
+          ))}
+        </div>
+      ),
+    },
+    {
+      key: 'reason',
+      header: t('patrons.overrideReason'),
+      render: (override: BlockOverride) => <span className="text-sm">{override.reason}</span>,
+    },
+    {
+      key: 'staff',
+      header: t('patrons.overriddenBy'),
+      render: staffName,
+    },
+  ];
+
+  return (
+    <Card padding="none">
+      <div className="p-4 sm:p-6 border-b border-gray-200 dark:border-gray-800">
+        <CardHeader
+          title={t('patrons.title')}
+          action={
+            <div className="flex flex-wrap gap-2">
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => setFormMode('block')}
+                leftIcon={<Ban className="h-4 w-4" />}
+              >
+                {t('patrons.addBlock')}
+              </Button>
+              <Button
+                size="sm"
+                variant="secondary"
+                onClick={() => setFormMode('alert')}
+                leftIcon={<Plus className="h-4 w-4" />}
+              >
+                {t('patrons.addAlert')}
+              </Button>
+            </div>
+          }
+        />
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <div className="h-6 w-6 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : status.blocks.length === 0 && status.alerts.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('patrons.none')}</p>
+        ) : (
+          <div className="space-y-2">
+            {status.blocks.map((block, index) => (
+              <div
+                key={block.id ?? `${block.kind}-${index}`}
+                className="flex items-center gap-3 px-4 py-2 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800"
+              >
+                <Ban className="h-4 w-4 text-red-600 dark:text-red-400 flex-shrink-0" />
+                <div className="flex-1 min-w-0 text-sm">
+                  <p className="font-medium text-red-800 dark:text-red-200">{t(`patrons.block.${block.kind}`)}</p>
+                  {block.reason && <p className="text-red-700 dark:text-red-300">{block.reason}</p>}
+                </div>
+                {block.kind === 'manual' && block.id && (
+                  <button
+                    onClick={() => handleRemoveBlock(block.id!)}
+                    className="p-1.5 rounded-md text-red-400 hover:text-red-700 hover:bg-red-100 dark:hover:bg-red-900/40"
+                    title={t('patrons.liftBlock')}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+            {status.alerts.map((alert) => (
+              <div
+                key={alert.id}
+                className="flex items-center gap-3 px-4 py-2 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800"
+              >
+                <MessageSquareWarning className="h-4 w-4 text-amber-600 dark:text-amber-500 flex-shrink-0" />
+                <p className="flex-1 min-w-0 text-sm text-amber-800 dark:text-amber-200 whitespace-pre-line">
+                  {alert.message}
+                </p>
+                <button
+                  onClick={() => handleRemoveAlert(alert.id)}
+                  className="p-1.5 rounded-md text-amber-400 hover:text-amber-700 hover:bg-amber-100 dark:hover:bg-amber-900/40"
+                  title={t('common.delete')}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="px-4 sm:px-6 pt-4">
+        <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300">{t('patrons.overrideLog')}</h4>
+      </div>
+      <Table
+        columns={overrideColumns}
+        data={overrides}
+        keyExtractor={(override) => override.id}
+        isLoading={isLoading}
+        emptyMessage={t('patrons.noOverrides')}
+      />
+
+      <Modal
+        isOpen={formMode !== null}
+        onClose={() => setFormMode(null)}
+        title={formMode === 'block' ? t('patrons.addBlock') : t('patrons.addAlert')}
+      >
+        {formMode && (
+          <PatronNoticeForm
+            mode={formMode}
+            userId={userId}
+            onSuccess={() => {
+              setFormMode(null);
+              fetchStatus();
+            }}
+          />
+        )}
+      </Modal>
+    </Card>
+  );
+}
+
+interface PatronNoticeFormProps {
+  mode: NoticeFormMode;
+  userId: string;
+  onSuccess: () => void;
+}
+
+function PatronNoticeForm({ mode, userId, onSuccess }: PatronNoticeFormProps) {
+  const { t } = useTranslation();
+  const [text, setText] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    setError('');
+    setIsLoading(true);
+    try {
+      if (mode === 'block') {
+        await api.addPatronBlock(userId, { reason: text.trim() });
+      } else {
+        await api.addPatronAlert(userId, { message: text.trim() });
+      }
+      onSuccess();
+    } catch (error) {
+      console.error('Error saving patron notice:', error);
+      setError(getApiErrorMessage(error, t));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <Input
+        label={mode === 'block' ? t('patrons.blockReason') : t('patrons.alertMessage')}
+        hint={mode === 'block' ? t('patrons.blockHint') : t('patrons.alertHint')}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        required
+        autoFocus
+      />
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+      <div className="flex justify-end gap-2 pt-4">
+        <Button type="submit" isLoading={isLoading} disabled={!text.trim()}>
+          {t('common.save')}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Table, Pagination } from '@/components/common';
+import api from '@/services/api';
+import type { Loan } from '@/types';
+
+const HISTORY_PER_PAGE = 10;
+
+interface SpecimenLoanHistoryProps {
+  itemId: string;
+  specimenId: string;
+}
+
+/** Past and current loans of one specimen, most recent first */
+export default function SpecimenLoanHistory({ itemId, specimenId }: SpecimenLoanHistoryProps) {
+  const { t, i18n } = useTranslation();
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [total, setTotal] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await api.getSpecimenLoanHistory(itemId, specimenId, {
+        page: currentPage,
+        per_page: HISTORY_PER_PAGE,
+      });
+      setLoans(response.items);
+      setTotal(response.total);
+    } catch (error) {
+      console.error('Error fetching specimen loan history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [itemId, specimenId, currentPage]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString(i18n.language) : '-');
+
+  const columns = [
+    {
+      key: 'user',
+      header: t('holds.reader'),
+      render: (loan: Loan) =>
+        loan.user ? (
+          <Link to={`/users/${loan.user.id}`} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+            {loan.user.firstname} {loan.user.lastname}
+          </Link>
+        ) : (
+          '-'
+        ),
+    },
+    {
+      key: 'start_date',
+      header: t('loans.history.startDate'),
+      render: (loan: Loan) => formatDate(loan.start_date),
+    },
+    {
+      key: 'issue_date',
+      header: t('loans.dueDate'),
+      render: (loan: Loan) => formatDate(loan.issue_date),
+    },
+    {
+      key: 'returned_date',
+      header: t('loans.history.returnDate'),
+      render: (loan: Loan) =>
+        loan.returned_date ? (
+          formatDate(loan.returned_date)
+        ) : (
+          <span className="text-amber-600 dark:text-amber-400">{t('items.borrowed')}</span>
+        ),
+    },
+  ];
+
+  const totalPages = Math.ceil(total / HISTORY_PER_PAGE);
+
+  return (
+    <div className="space-y-4">
+      <Table
+        columns={columns}
+        data={loans}
+        keyExtractor={(loan) => loan.id}
+        isLoading={isLoading}
+        emptyMessage={t('items.circulation.noHistory')}
+      />
+      {totalPages > 1 && (
+        <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { useTranslation } from 'react-i18next';
+import { Building } from 'lucide-react';
+import { setDeskSourceId } from '@/utils/deskSource';
+import type { Source } from '@/types';
+
+interface DeskSourceSelectProps {
+  sources: Source[];
+  value: string;
+  onChange: (sourceId: string) => void;
+}
+
+/** Picks the branch this desk belongs to; the choice is remembered by the browser */
+export default function DeskSourceSelect({ sources, value, onChange }: DeskSourceSelectProps) {
+  const { t } = useTranslation();
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+      <Building className="h-4 w-4 text-gray-400" />
+      <span className="whitespace-nowrap">{t('transfers.deskSource')}</span>
+      <select
+        value={value}
+        onChange={(e) => {
+          setDeskSourceId(e.target.value);
+          onChange(e.target.value);
+        }}
+        className="px-3 py-1.5 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+      >
+        <option value="">{t('transfers.noDeskSource')}</option>
+        {sources.map((source) => (
+          <option key={source.id} value={source.id}>
+            {source.name || source.key || source.id}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
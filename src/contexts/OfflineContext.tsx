@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import { useTranslation } from 'react-i18next';
+import api from '@/services/api';
+import { useAuth } from '@/contexts/AuthContext';
+import { getApiErrorMessage } from '@/utils/apiError';
+import {
+  addOfflineConflict,
+  addOfflineTransaction,
+  clearOfflineConflicts,
+  countOfflineTransactions,
+  isServerUnavailable,
+  isUnauthorized,
+  listOfflineConflicts,
+  listOfflineTransactions,
+  removeOfflineTransaction,
+} from '@/utils/offlineQueue';
+import { OfflineContext } from '@/contexts/useOffline';
+import type { OfflineConflict, OfflineTransaction } from '@/types';
+
+/** Delay between replay attempts while transactions are pending */
+const RETRY_INTERVAL_MS = 30 * 1000;
+
+export function OfflineProvider({ children }: { children: ReactNode }) {
+  const { t } = useTranslation();
+  const { isAuthenticated } = useAuth();
+  const [isBrowserOffline, setIsBrowserOffline] = useState(() => !navigator.onLine);
+  const [isServerUnreachable, setIsServerUnreachable] = useState(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [conflicts, setConflicts] = useState<OfflineConflict[]>([]);
+  const syncingRef = useRef(false);
+
+  const refreshCount = useCallback(async () => {
+    try {
+      setPendingCount(await countOfflineTransactions());
+    } catch (error) {
+      console.error('Error reading offline queue:', error);
+    }
+  }, []);
+
+  const refreshConflicts = useCallback(async () => {
+    try {
+      setConflicts(await listOfflineConflicts());
+    } catch (error) {
+      console.error('Error reading offline conflicts:', error);
+    }
+  }, []);
+
+  const recordTransaction = useCallback(
+    async (transaction: Omit<OfflineTransaction, 'id' | 'recorded_at'>) => {
+      await addOfflineTransaction({ ...transaction, recorded_at: new Date().toISOString() });
+      setIsServerUnreachable(true);
+      await refreshCount();
+    },
+    [refreshCount]
+  );
+
+  // Replays the queue in recording order; stops while the server is unavailable or the session has expired
+  const sync = useCallback(async () => {
+    if (syncingRef.current) return;
+    syncingRef.current = true;
+    setIsSyncing(true);
+    let hasRejected = false;
+    try {
+      const transactions = await listOfflineTransactions();
+      for (const transaction of transactions) {
+        try {
+          if (transaction.kind === 'checkout') {
+            await api.createLoan({
+              user_id: transaction.user_id ?? '',
+              specimen_identification: transaction.specimen_identification,
+              issued_at: transaction.recorded_at,
+              ...(transaction.force ? { force: true, override_reason: transaction.override_reason } : {}),
+            });
+          } else {
+            await api.returnLoanByBarcode(transaction.specimen_identification, transaction.recorded_at);
+          }
+        } catch (error) {
+          if (isServerUnavailable(error)) {
+            setIsServerUnreachable(true);
+            return;
+          }
+          // Kept queued: replayed once staff have signed in again
+          if (isUnauthorized(error)) return;
+          // Rejected by the server (already on loan, not on loan...): reported, not retried
+          await addOfflineConflict({ transaction, message: getApiErrorMessage(error, t) });
+          hasRejected = true;
+        }
+        if (transaction.id != null) await removeOfflineTransaction(transaction.id);
+      }
+      setIsServerUnreachable(false);
+    } catch (error) {
+      console.error('Error replaying offline transactions:', error);
+    } finally {
+      if (hasRejected) await refreshConflicts();
+      await refreshCount();
+      syncingRef.current = false;
+      setIsSyncing(false);
+    }
+  }, [t, refreshCount, refreshConflicts]);
+
+  useEffect(() => {
+    refreshCount();
+    refreshConflicts();
+  }, [refreshCount, refreshConflicts]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsBrowserOffline(false);
+      if (isAuthenticated) sync();
+    };
+    const handleOffline = () => setIsBrowserOffline(true);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [isAuthenticated, sync]);
+
+  // Retry periodically: the browser does not signal when the server itself comes back
+  useEffect(() => {
+    if (!isAuthenticated || pendingCount === 0 || isBrowserOffline) return;
+    if (!isServerUnreachable) {
+      const timeoutId = setTimeout(sync, 0);
+      return () => clearTimeout(timeoutId);
+    }
+    const intervalId = setInterval(sync, RETRY_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [isAuthenticated, pendingCount, isBrowserOffline, isServerUnreachable, sync]);
+
+  const clearConflicts = useCallback(async () => {
+    try {
+      await clearOfflineConflicts();
+      setConflicts([]);
+    } catch (error) {
+      console.error('Error clearing offline conflicts:', error);
+    }
+  }, []);
+
+  return (
+    <OfflineContext.Provider
+      value={{
+        isOffline: isBrowserOffline || isServerUnreachable,
+        pendingCount,
+        isSyncing,
+        conflicts,
+        recordTransaction,
+        sync,
+        clearConflicts,
+      }}
+    >
+      {children}
+    </OfflineContext.Provider>
+  );
+}
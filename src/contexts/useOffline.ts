@@ -0,0 +1,26 @@
+import { createContext, useContext } from 'react';
+import type { OfflineConflict, OfflineTransaction } from '@/types';
+
+/** Offline circulation state, provided by OfflineProvider (OfflineContext.tsx) */
+
+export interface OfflineContextType {
+  /** Browser offline, or the server was unavailable on the last request */
+  isOffline: boolean;
+  pendingCount: number;
+  isSyncing: boolean;
+  /** Transactions rejected on replay, kept until dismissed */
+  conflicts: OfflineConflict[];
+  recordTransaction: (transaction: Omit<OfflineTransaction, 'id' | 'recorded_at'>) => Promise<void>;
+  sync: () => Promise<void>;
+  clearConflicts: () => Promise<void>;
+}
+
+export const OfflineContext = createContext<OfflineContextType | undefined>(undefined);
+
+export function useOffline() {
+  const context = useContext(OfflineContext);
+  if (context === undefined) {
+    throw new Error('useOffline must be used within an OfflineProvider');
+  }
+  return context;
+}
@@ -0,0 +1,341 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { ArrowLeft, Edit, GitMerge, X } from 'lucide-react';
+import { Card, CardHeader, Button, Input, Modal, Table, Pagination } from '@/components/common';
+import AuthorAutocomplete from '@/components/authors/AuthorAutocomplete';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import { FUNCTION_OPTIONS, getCodeLabel } from '@/utils/codeLabels';
+import type { AuthorSummary, AuthorWork } from '@/types';
+
+const WORKS_PER_PAGE = 20;
+
+const textareaClassName =
+  'w-full px-4 py-2.5 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100';
+
+const formatName = (author: { lastname?: string | null; firstname?: string | null }) =>
+  [author.lastname, author.firstname].filter(Boolean).join(', ');
+
+/** Authority record of an author: identity, bio and notes, every linked work with the role held, and merge of variants */
+export default function AuthorDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+
+  const [author, setAuthor] = useState<AuthorSummary | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [works, setWorks] = useState<AuthorWork[]>([]);
+  const [totalWorks, setTotalWorks] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [isWorksLoading, setIsWorksLoading] = useState(true);
+
+  const [editForm, setEditForm] = useState<{ lastname: string; firstname: string; bio: string; notes: string } | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const [showMergeModal, setShowMergeModal] = useState(false);
+  const [mergeQuery, setMergeQuery] = useState('');
+  const [mergeCandidates, setMergeCandidates] = useState<AuthorSummary[]>([]);
+  const [isMerging, setIsMerging] = useState(false);
+  const [mergeError, setMergeError] = useState('');
+
+  useEffect(() => {
+    if (!id) return;
+    api
+      .getAuthor(id)
+      .then(setAuthor)
+      .catch((error) => console.error('Error fetching author:', error))
+      .finally(() => setIsLoading(false));
+  }, [id]);
+
+  const fetchWorks = useCallback(async () => {
+    if (!id) return;
+    setIsWorksLoading(true);
+    try {
+      const response = await api.getAuthorWorks(id, { page: currentPage, per_page: WORKS_PER_PAGE });
+      setWorks(response.items);
+      setTotalWorks(response.total);
+    } catch (error) {
+      console.error('Error fetching author works:', error);
+    } finally {
+      setIsWorksLoading(false);
+    }
+  }, [id, currentPage]);
+
+  useEffect(() => {
+    fetchWorks();
+  }, [fetchWorks]);
+
+  const handleSave = async () => {
+    if (!author || !editForm) return;
+    setError('');
+    setIsSaving(true);
+    try {
+      const updated = await api.updateAuthor(author.id, {
+        lastname: editForm.lastname.trim() || undefined,
+        firstname: editForm.firstname.trim() || undefined,
+        bio: editForm.bio.trim() || null,
+        notes: editForm.notes.trim() || null,
+      });
+      setAuthor(updated);
+      setEditForm(null);
+    } catch (error) {
+      console.error('Error updating author:', error);
+      setError(getApiErrorMessage(error, t));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const closeMergeModal = () => {
+    setShowMergeModal(false);
+    setMergeQuery('');
+    setMergeCandidates([]);
+    setMergeError('');
+  };
+
+  const handleMerge = async () => {
+    if (!author || mergeCandidates.length === 0) return;
+    setMergeError('');
+    setIsMerging(true);
+    try {
+      const merged = await api.mergeAuthors(author.id, mergeCandidates.map((candidate) => candidate.id));
+      setAuthor(merged);
+      closeMergeModal();
+      setCurrentPage(1);
+      await fetchWorks();
+    } catch (error) {
+      console.error('Error merging authors:', error);
+      setMergeError(getApiErrorMessage(error, t));
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="h-8 w-8 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!author) {
+    return (
+      <Card>
+        <p className="text-center py-8 text-gray-500 dark:text-gray-400">{t('authors.notFound')}</p>
+      </Card>
+    );
+  }
+
+  const columns = [
+    {
+      key: 'title',
+      header: t('items.titleField'),
+      render: (work: AuthorWork) => (
+        <Link
+          to={`/items/${work.item.id}`}
+          className="font-medium text-gray-900 dark:text-white hover:text-indigo-600 dark:hover:text-indigo-400"
+        >
+          {work.item.title || t('loans.noTitle')}
+        </Link>
+      ),
+    },
+    {
+      key: 'function',
+      header: t('authors.role'),
+      render: (work: AuthorWork) => (work.function ? getCodeLabel(t, FUNCTION_OPTIONS, work.function) : '-'),
+    },
+    {
+      key: 'date',
+      header: t('items.publicationDate'),
+      render: (work: AuthorWork) => work.item.date || '-',
+    },
+  ];
+
+  const totalPages = Math.ceil(totalWorks / WORKS_PER_PAGE);
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div className="flex items-start gap-4">
+          <button onClick={() => navigate('/authors')} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800">
+            <ArrowLeft className="h-5 w-5" />
+          </button>
+          <div>
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">{formatName(author) || '-'}</h1>
+            <p className="text-gray-500 dark:text-gray-400">{t('authors.workCount', { count: author.item_count })}</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={() => setShowMergeModal(true)} leftIcon={<GitMerge className="h-4 w-4" />}>
+            {t('authors.mergeDuplicates')}
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Authority */}
+        <Card>
+          <CardHeader
+            title={t('authors.authority')}
+            action={
+              !editForm && (
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() =>
+                    setEditForm({
+                      lastname: author.lastname ?? '',
+                      firstname: author.firstname ?? '',
+                      bio: author.bio ?? '',
+                      notes: author.notes ?? '',
+                    })
+                  }
+                  leftIcon={<Edit className="h-4 w-4" />}
+                >
+                  {t('common.edit')}
+                </Button>
+              )
+            }
+          />
+          {editForm ? (
+            <div className="space-y-3">
+              <Input
+                label={t('items.authorLastname')}
+                value={editForm.lastname}
+                onChange={(e) => setEditForm({ ...editForm, lastname: e.target.value })}
+                required
+              />
+              <Input
+                label={t('items.authorFirstname')}
+                value={editForm.firstname}
+                onChange={(e) => setEditForm({ ...editForm, firstname: e.target.value })}
+              />
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('authors.bio')}</label>
+                <textarea
+                  value={editForm.bio}
+                  onChange={(e) => setEditForm({ ...editForm, bio: e.target.value })}
+                  rows={4}
+                  className={textareaClassName}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">{t('authors.notes')}</label>
+                <textarea
+                  value={editForm.notes}
+                  onChange={(e) => setEditForm({ ...editForm, notes: e.target.value })}
+                  rows={3}
+                  className={textareaClassName}
+                />
+              </div>
+              {error && (
+                <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+                  <p className="text-sm font-medium text-red-800 dark:text-red-200">{error}</p>
+                </div>
+              )}
+              <div className="flex justify-end gap-2">
+                <Button variant="secondary" onClick={() => setEditForm(null)}>
+                  {t('common.cancel')}
+                </Button>
+                <Button onClick={handleSave} isLoading={isSaving} disabled={!editForm.lastname.trim()}>
+                  {t('common.save')}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-4 text-sm">
+              <div>
+                <p className="font-medium text-gray-700 dark:text-gray-300">{t('authors.bio')}</p>
+                <p className="text-gray-600 dark:text-gray-400 whitespace-pre-line">{author.bio || '-'}</p>
+              </div>
+              <div>
+                <p className="font-medium text-gray-700 dark:text-gray-300">{t('authors.notes')}</p>
+                <p className="text-gray-600 dark:text-gray-400 whitespace-pre-line">{author.notes || '-'}</p>
+              </div>
+            </div>
+          )}
+        </Card>
+
+        {/* Works */}
+        <Card padding="none" className="lg:col-span-2">
+          <div className="p-4 sm:p-6 pb-0 sm:pb-0">
+            <CardHeader title={t('authors.works')} subtitle={t('authors.workCount', { count: totalWorks })} />
+          </div>
+          <Table
+            columns={columns}
+            data={works}
+            keyExtractor={(work) => `${work.item.id}:${work.function ?? ''}`}
+            isLoading={isWorksLoading}
+            emptyMessage={t('authors.noWorks')}
+          />
+          {totalPages > 1 && (
+            <div className="p-4 border-t border-gray-200 dark:border-gray-800">
+              <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
+            </div>
+          )}
+        </Card>
+      </div>
+
+      <Modal isOpen={showMergeModal} onClose={closeMergeModal} title={t('authors.mergeTitle')} size="md">
+        <div className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {t('authors.mergeHint', { name: formatName(author) })}
+          </p>
+          <AuthorAutocomplete
+            value={mergeQuery}
+            onChange={setMergeQuery}
+            onSelect={(candidate) => {
+              setMergeCandidates([...mergeCandidates, candidate]);
+              setMergeQuery('');
+            }}
+            excludeIds={[author.id, ...mergeCandidates.map((candidate) => candidate.id)]}
+            placeholder={t('authors.searchPlaceholder')}
+          />
+          {mergeCandidates.length > 0 && (
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+              {mergeCandidates.map((candidate) => (
+                <li key={candidate.id} className="px-3 py-2 flex items-center justify-between gap-2 text-sm">
+                  <span>
+                    <span className="font-medium text-gray-900 dark:text-white">{formatName(candidate)}</span>
+                    <span className="ml-2 text-gray-500 dark:text-gray-400">
+                      {t('authors.workCount', { count: candidate.item_count })}
+                    </span>
+                  </span>
+                  <button
+                    onClick={() => setMergeCandidates(mergeCandidates.filter((c) => c.id !== candidate.id))}
+                    className="p-1 rounded hover:bg-gray-100 dark:hover:bg-gray-800 text-gray-400"
+                    title={t('common.delete')}
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {mergeError && (
+            <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+              <p className="text-sm font-medium text-red-800 dark:text-red-200">{mergeError}</p>
+            </div>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button variant="secondary" onClick={closeMergeModal}>
+              {t('common.cancel')}
+            </Button>
+            <Button
+              onClick={handleMerge}
+              isLoading={isMerging}
+              disabled={mergeCandidates.length === 0}
+              leftIcon={<GitMerge className="h-4 w-4" />}
+            >
+              {t('authors.merge', { count: mergeCandidates.length })}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+}
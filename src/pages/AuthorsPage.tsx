@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Card, Table, SearchInput, Pagination } from '@/components/common';
+import api from '@/services/api';
+import type { AuthorSummary } from '@/types';
+
+const AUTHORS_PER_PAGE = 50;
+
+/** Authority index: every author of the catalog, searchable by name */
+export default function AuthorsPage() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+
+  const [authors, setAuthors] = useState<AuthorSummary[]>([]);
+  const [totalAuthors, setTotalAuthors] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+
+  const fetchAuthors = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await api.getAuthors({
+        name: searchQuery.trim() || undefined,
+        page: currentPage,
+        per_page: AUTHORS_PER_PAGE,
+      });
+      setAuthors(response.items);
+      setTotalAuthors(response.total);
+    } catch (error) {
+      console.error('Error fetching authors:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [searchQuery, currentPage]);
+
+  useEffect(() => {
+    fetchAuthors();
+  }, [fetchAuthors]);
+
+  const handleSearch = useCallback((value: string) => {
+    setSearchQuery(value);
+    setCurrentPage(1);
+  }, []);
+
+  const columns = [
+    {
+      key: 'name',
+      header: t('authors.name'),
+      render: (author: AuthorSummary) => (
+        <span className="font-medium text-gray-900 dark:text-white">
+          {[author.lastname, author.firstname].filter(Boolean).join(', ') || '-'}
+        </span>
+      ),
+    },
+    {
+      key: 'bio',
+      header: t('authors.bio'),
+      className: 'hidden md:table-cell',
+      render: (author: AuthorSummary) => (
+        <span className="text-sm text-gray-500 dark:text-gray-400 line-clamp-1">{author.bio || '-'}</span>
+      ),
+    },
+    {
+      key: 'works',
+      header: t('authors.works'),
+      className: 'text-right',
+      render: (author: AuthorSummary) => t('authors.workCount', { count: author.item_count }),
+    },
+  ];
+
+  const totalPages = Math.ceil(totalAuthors / AUTHORS_PER_PAGE);
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t('authors.title')}</h1>
+        <p className="text-gray-500 dark:text-gray-400">{t('authors.subtitle', { count: totalAuthors })}</p>
+      </div>
+
+      <Card>
+        <SearchInput value={searchQuery} onChange={handleSearch} placeholder={t('authors.searchPlaceholder')} />
+      </Card>
+
+      <Card padding="none">
+        <Table
+          columns={columns}
+          data={authors}
+          keyExtractor={(author) => author.id}
+          onRowClick={(author) => navigate(`/authors/${author.id}`)}
+          isLoading={isLoading}
+          emptyMessage={t('authors.noAuthors')}
+        />
+        {totalPages > 1 && (
+          <div className="p-4 border-t border-gray-200 dark:border-gray-800">
+            <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Check, FileWarning } from 'lucide-react';
+import { Card, Button, Table, Modal, Pagination } from '@/components/common';
+import LoanStateForm from '@/components/loans/LoanStateForm';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import type { Loan } from '@/types';
+
+const LOANS_PER_PAGE = 50;
+
+/** Follow-up of loans the reader claims to have returned: found on the shelf, or eventually declared lost */
+export default function ClaimsReturnedPage() {
+  const { t, i18n } = useTranslation();
+
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [totalLoans, setTotalLoans] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [lostLoan, setLostLoan] = useState<Loan | null>(null);
+  const [error, setError] = useState('');
+
+  const fetchLoans = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await api.getLoansByState('claims_returned', {
+        page: currentPage,
+        per_page: LOANS_PER_PAGE,
+      });
+      setLoans(response.items);
+      setTotalLoans(response.total);
+    } catch (error) {
+      console.error('Error fetching claims-returned loans:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [currentPage]);
+
+  useEffect(() => {
+    fetchLoans();
+  }, [fetchLoans]);
+
+  // The copy was found in the library: close the loan as a regular return
+  const handleFound = async (loan: Loan) => {
+    setError('');
+    try {
+      await api.returnLoan(loan.id);
+      await fetchLoans();
+    } catch (error) {
+      console.error('Error returning loan:', error);
+      setError(getApiErrorMessage(error, t));
+    }
+  };
+
+  const formatDate = (value?: string | null) => (value ? new Date(value).toLocaleDateString(i18n.language) : '-');
+
+  const columns = [
+    {
+      key: 'item',
+      header: t('loans.document'),
+      render: (loan: Loan) => (
+        <div>
+          <Link
+            to={`/items/${loan.item.id}`}
+            className="font-medium text-gray-900 dark:text-white hover:text-indigo-600 dark:hover:text-indigo-400"
+          >
+            {loan.item.title || t('loans.noTitle')}
+          </Link>
+          {loan.specimen_identification && (
+            <p className="text-sm font-mono text-gray-500 dark:text-gray-400">{loan.specimen_identification}</p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'user',
+      header: t('holds.reader'),
+      render: (loan: Loan) =>
+        loan.user ? (
+          <Link to={`/users/${loan.user.id}`} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+            {loan.user.firstname} {loan.user.lastname}
+          </Link>
+        ) : (
+          '-'
+        ),
+    },
+    {
+      key: 'issue_date',
+      header: t('loans.dueDate'),
+      render: (loan: Loan) => formatDate(loan.issue_date),
+    },
+    {
+      key: 'state_date',
+      header: t('loans.state.claimedOn'),
+      render: (loan: Loan) => formatDate(loan.state_date),
+    },
+    {
+      key: 'state_reason',
+      header: t('loans.state.reason'),
+      render: (loan: Loan) => (
+        <span className="text-sm text-gray-600 dark:text-gray-300">{loan.state_reason || '-'}</span>
+      ),
+    },
+    {
+      key: 'actions',
+      header: '',
+      className: 'text-right',
+      render: (loan: Loan) => (
+        <div className="flex justify-end gap-2">
+          <Button size="sm" variant="secondary" onClick={() => handleFound(loan)} leftIcon={<Check className="h-4 w-4" />}>
+            {t('loans.state.found')}
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => setLostLoan(loan)} leftIcon={<FileWarning className="h-4 w-4" />}>
+            {t('loans.state.markLost')}
+          </Button>
+        </div>
+      ),
+    },
+  ];
+
+  const totalPages = Math.ceil(totalLoans / LOANS_PER_PAGE);
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t('loans.state.claimsTitle')}</h1>
+        <p className="text-gray-500 dark:text-gray-400">{t('loans.state.claimsSubtitle', { count: totalLoans })}</p>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      <Card padding="none">
+        <Table
+          columns={columns}
+          data={loans}
+          keyExtractor={(loan) => loan.id}
+          isLoading={isLoading}
+          emptyMessage={t('loans.state.noClaims')}
+        />
+        {totalPages > 1 && (
+          <div className="p-4 border-t border-gray-200 dark:border-gray-800">
+            <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
+          </div>
+        )}
+      </Card>
+
+      <Modal isOpen={lostLoan !== null} onClose={() => setLostLoan(null)} title={t('loans.state.markLost')}>
+        {lostLoan && (
+          <LoanStateForm
+            loan={lostLoan}
+            onSuccess={() => {
+              setLostLoan(null);
+              fetchLoans();
+            }}
+          />
+        )}
+      </Modal>
+    </div>
+  );
+}
@@ -0,0 +1,411 @@
+import { useState, useEffect } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { CalendarClock, Eye, X } from 'lucide-react';
+import { Card, CardHeader, Button, Input, Table, SearchInput } from '@/components/common';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import { parseDateKey, toDateKey } from '@/utils/calendar';
+import { getMediaTypeOptions } from '@/utils/codeLabels';
+import type { DueDateExtensionRequest, DueDateExtensionScope, Loan, MediaType, UserShort } from '@/types';
+
+type ChangeMode = 'date' | 'days';
+
+const SCOPES: DueDateExtensionScope[] = ['due_range', 'user', 'media_type'];
+
+const selectClassName =
+  'w-full px-4 py-2.5 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100';
+
+/** Changes the due date of many active loans at once (unexpected closure, reader in hospital...) */
+export default function DueDateExtensionPage() {
+  const { t, i18n } = useTranslation();
+  const [searchParams] = useSearchParams();
+
+  const [scope, setScope] = useState<DueDateExtensionScope>(searchParams.get('user') ? 'user' : 'due_range');
+  const [dueFrom, setDueFrom] = useState('');
+  const [dueTo, setDueTo] = useState('');
+  const [selectedUser, setSelectedUser] = useState<UserShort | null>(null);
+  const [mediaType, setMediaType] = useState<MediaType>('b');
+  const [mode, setMode] = useState<ChangeMode>('days');
+  const [newDueDate, setNewDueDate] = useState('');
+  const [extendDays, setExtendDays] = useState('7');
+  const [preview, setPreview] = useState<Loan[] | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState('');
+  const [success, setSuccess] = useState('');
+
+  const MEDIA_TYPES = getMediaTypeOptions(t);
+
+  // Opened from a reader's page: preselect that reader
+  useEffect(() => {
+    const userId = searchParams.get('user');
+    if (!userId) return;
+    api
+      .getUser(userId)
+      .then(setSelectedUser)
+      .catch((error) => console.error('Error fetching user:', error));
+  }, [searchParams]);
+
+  const days = parseInt(extendDays);
+  const isCriteriaValid =
+    scope === 'due_range' ? !!dueFrom && !!dueTo && dueFrom <= dueTo : scope === 'user' ? !!selectedUser : !!mediaType;
+  const isChangeValid = mode === 'date' ? !!newDueDate : Number.isInteger(days) && days > 0;
+
+  const buildRequest = (): DueDateExtensionRequest => ({
+    scope,
+    due_from: scope === 'due_range' ? dueFrom : undefined,
+    due_to: scope === 'due_range' ? dueTo : undefined,
+    user_id: scope === 'user' ? selectedUser?.id : undefined,
+    media_type: scope === 'media_type' ? mediaType : undefined,
+    new_due_date: mode === 'date' ? newDueDate : undefined,
+    extend_days: mode === 'days' ? days : undefined,
+  });
+
+  // Any change to the criteria or the new due date invalidates the preview
+  const resetPreview = () => {
+    setPreview(null);
+    setSuccess('');
+  };
+
+  const handlePreview = async () => {
+    setError('');
+    setSuccess('');
+    setIsPreviewing(true);
+    try {
+      const result = await api.extendDueDates({ ...buildRequest(), dry_run: true });
+      setPreview(result.loans);
+    } catch (error) {
+      console.error('Error previewing due date extension:', error);
+      setError(getApiErrorMessage(error, t));
+    } finally {
+      setIsPreviewing(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview || !confirm(t('dueDates.applyConfirm', { count: preview.length }))) return;
+    setError('');
+    setIsApplying(true);
+    try {
+      const result = await api.extendDueDates({ ...buildRequest(), loan_ids: preview.map((loan) => loan.id) });
+      setPreview(null);
+      setSuccess(t('dueDates.applied', { count: result.updated }));
+    } catch (error) {
+      console.error('Error extending due dates:', error);
+      setError(getApiErrorMessage(error, t));
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const computeNewDueDate = (loan: Loan): string => {
+    if (mode === 'date') return newDueDate;
+    const date = parseDateKey(toDateKey(new Date(loan.issue_date)));
+    date.setDate(date.getDate() + days);
+    return toDateKey(date);
+  };
+
+  const formatDate = (value: string) => new Date(value).toLocaleDateString(i18n.language);
+
+  const columns = [
+    {
+      key: 'item',
+      header: t('loans.document'),
+      render: (loan: Loan) => (
+        <div>
+          <p className="font-medium text-gray-900 dark:text-white">{loan.item.title || t('loans.noTitle')}</p>
+          {loan.specimen_identification && (
+            <p className="text-sm font-mono text-gray-500 dark:text-gray-400">{loan.specimen_identification}</p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'user',
+      header: t('holds.reader'),
+      render: (loan: Loan) =>
+        loan.user ? (
+          <Link to={`/users/${loan.user.id}`} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+            {loan.user.firstname} {loan.user.lastname}
+          </Link>
+        ) : (
+          '-'
+        ),
+    },
+    {
+      key: 'issue_date',
+      header: t('dueDates.currentDueDate'),
+      render: (loan: Loan) => formatDate(loan.issue_date),
+    },
+    {
+      key: 'new_due_date',
+      header: t('dueDates.newDueDate'),
+      render: (loan: Loan) => (
+        <span className="font-medium text-indigo-600 dark:text-indigo-400">
+          {parseDateKey(computeNewDueDate(loan)).toLocaleDateString(i18n.language)}
+        </span>
+      ),
+    },
+    {
+      key: 'renews',
+      header: t('dueDates.renewals'),
+      render: (loan: Loan) => loan.nb_renews,
+    },
+  ];
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t('dueDates.title')}</h1>
+        <p className="text-gray-500 dark:text-gray-400">{t('dueDates.subtitle')}</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Which loans */}
+        <Card>
+          <CardHeader title={t('dueDates.criteria')} />
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                {t('dueDates.scopeLabel')}
+              </label>
+              <select
+                value={scope}
+                onChange={(e) => {
+                  setScope(e.target.value as DueDateExtensionScope);
+                  resetPreview();
+                }}
+                className={selectClassName}
+              >
+                {SCOPES.map((value) => (
+                  <option key={value} value={value}>
+                    {t(`dueDates.scope.${value}`)}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {scope === 'due_range' && (
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <Input
+                  label={t('dueDates.dueFrom')}
+                  type="date"
+                  value={dueFrom}
+                  max={dueTo || undefined}
+                  onChange={(e) => {
+                    setDueFrom(e.target.value);
+                    resetPreview();
+                  }}
+                />
+                <Input
+                  label={t('dueDates.dueTo')}
+                  type="date"
+                  value={dueTo}
+                  min={dueFrom || undefined}
+                  onChange={(e) => {
+                    setDueTo(e.target.value);
+                    resetPreview();
+                  }}
+                />
+              </div>
+            )}
+
+            {scope === 'user' && (
+              <UserPicker
+                user={selectedUser}
+                onChange={(user) => {
+                  setSelectedUser(user);
+                  resetPreview();
+                }}
+              />
+            )}
+
+            {scope === 'media_type' && (
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                  {t('items.mediaTypeLabel')}
+                </label>
+                <select
+                  value={mediaType}
+                  onChange={(e) => {
+                    setMediaType(e.target.value as MediaType);
+                    resetPreview();
+                  }}
+                  className={selectClassName}
+                >
+                  {MEDIA_TYPES.map((type) => (
+                    <option key={type.value} value={type.value}>
+                      {type.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            )}
+          </div>
+        </Card>
+
+        {/* New due date */}
+        <Card>
+          <CardHeader title={t('dueDates.change')} />
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-4">
+              {(['days', 'date'] as const).map((value) => (
+                <label key={value} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="change-mode"
+                    checked={mode === value}
+                    onChange={() => {
+                      setMode(value);
+                      resetPreview();
+                    }}
+                    className="border-gray-300 dark:border-gray-700 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  {t(`dueDates.mode.${value}`)}
+                </label>
+              ))}
+            </div>
+            {mode === 'days' ? (
+              <Input
+                label={t('dueDates.extendDays')}
+                type="number"
+                min={1}
+                value={extendDays}
+                onChange={(e) => {
+                  setExtendDays(e.target.value);
+                  resetPreview();
+                }}
+              />
+            ) : (
+              <Input
+                label={t('dueDates.newDueDate')}
+                type="date"
+                value={newDueDate}
+                onChange={(e) => {
+                  setNewDueDate(e.target.value);
+                  resetPreview();
+                }}
+              />
+            )}
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('dueDates.notRenewalHint')}</p>
+            <div className="flex justify-end">
+              <Button
+                variant="secondary"
+                onClick={handlePreview}
+                isLoading={isPreviewing}
+                disabled={!isCriteriaValid || !isChangeValid}
+                leftIcon={<Eye className="h-4 w-4" />}
+              >
+                {t('dueDates.preview')}
+              </Button>
+            </div>
+          </div>
+        </Card>
+      </div>
+
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+      {success && (
+        <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800">
+          <p className="text-sm font-medium text-green-800 dark:text-green-200">{success}</p>
+        </div>
+      )}
+
+      {preview && (
+        <Card padding="none">
+          <div className="p-4 sm:p-6 border-b border-gray-200 dark:border-gray-800">
+            <CardHeader
+              title={t('dueDates.previewTitle')}
+              subtitle={t('dueDates.affected', { count: preview.length })}
+              action={
+                <Button
+                  onClick={handleApply}
+                  isLoading={isApplying}
+                  disabled={preview.length === 0}
+                  leftIcon={<CalendarClock className="h-4 w-4" />}
+                >
+                  {t('dueDates.apply')}
+                </Button>
+              }
+            />
+          </div>
+          <Table
+            columns={columns}
+            data={preview}
+            keyExtractor={(loan) => loan.id}
+            emptyMessage={t('dueDates.noLoans')}
+          />
+        </Card>
+      )}
+    </div>
+  );
+}
+
+interface UserPickerProps {
+  user: UserShort | null;
+  onChange: (user: UserShort | null) => void;
+}
+
+function UserPicker({ user, onChange }: UserPickerProps) {
+  const { t } = useTranslation();
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<UserShort[]>([]);
+
+  useEffect(() => {
+    if (query.trim().length < 2) return;
+    const timeoutId = setTimeout(() => {
+      api
+        .getUsers({ name: query.trim(), per_page: 10 })
+        .then((response) => setResults(response.items))
+        .catch((error) => console.error('Error searching users:', error));
+    }, 300);
+    return () => clearTimeout(timeoutId);
+  }, [query]);
+
+  if (user) {
+    return (
+      <div className="flex items-center justify-between gap-3 px-4 py-2.5 rounded-lg bg-indigo-50 dark:bg-indigo-900/20">
+        <span className="font-medium text-gray-900 dark:text-white">
+          {user.firstname} {user.lastname}
+        </span>
+        <button
+          onClick={() => onChange(null)}
+          className="p-1 rounded-md text-gray-400 hover:text-gray-600 hover:bg-indigo-100 dark:hover:bg-indigo-900/40"
+          title={t('common.clear')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">{t('holds.reader')}</label>
+      <SearchInput value={query} onChange={setQuery} placeholder={t('loans.searchUserPlaceholder')} />
+      {query.trim().length >= 2 && results.length > 0 && (
+        <ul className="mt-2 divide-y divide-gray-200 dark:divide-gray-800 rounded-lg border border-gray-200 dark:border-gray-800">
+          {results.map((result) => (
+            <li key={result.id}>
+              <button
+                onClick={() => {
+                  onChange(result);
+                  setQuery('');
+                  setResults([]);
+                }}
+                className="w-full px-4 py-2 text-left text-sm text-gray-900 dark:text-white hover:bg-gray-50 dark:hover:bg-gray-800"
+              >
+                {result.firstname} {result.lastname}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { GitMerge } from 'lucide-react';
+import { Card, CardHeader, Badge, Button, Pagination } from '@/components/common';
+import MergeItemsModal from '@/components/items/MergeItemsModal';
+import api from '@/services/api';
+import type { DuplicateCluster, DuplicateMatch, Item } from '@/types';
+
+const CLUSTERS_PER_PAGE = 20;
+
+const selectClassName =
+  'px-4 py-2.5 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100';
+
+const scoreVariant = (score: number) => (score >= 0.9 ? 'danger' : score >= 0.75 ? 'warning' : 'default');
+
+/** Catalog records that look like the same work, grouped in clusters a cataloguer can merge */
+export default function DuplicatesPage() {
+  const { t } = useTranslation();
+
+  const [clusters, setClusters] = useState<DuplicateCluster[]>([]);
+  const [totalClusters, setTotalClusters] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [match, setMatch] = useState<DuplicateMatch | ''>('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [mergeCluster, setMergeCluster] = useState<DuplicateCluster | null>(null);
+  const [lastMerged, setLastMerged] = useState<Item | null>(null);
+
+  const fetchClusters = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await api.getDuplicateClusters({
+        match: match || undefined,
+        page: currentPage,
+        per_page: CLUSTERS_PER_PAGE,
+      });
+      setClusters(response.items);
+      setTotalClusters(response.total);
+    } catch (error) {
+      console.error('Error fetching duplicate clusters:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [match, currentPage]);
+
+  useEffect(() => {
+    fetchClusters();
+  }, [fetchClusters]);
+
+  const handleMerged = (survivor: Item) => {
+    setMergeCluster(null);
+    setLastMerged(survivor);
+    fetchClusters();
+  };
+
+  const totalPages = Math.ceil(totalClusters / CLUSTERS_PER_PAGE);
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t('items.duplicates.title')}</h1>
+          <p className="text-gray-500 dark:text-gray-400">{t('items.duplicates.subtitle', { count: totalClusters })}</p>
+        </div>
+        <select
+          value={match}
+          onChange={(e) => {
+            setMatch(e.target.value as DuplicateMatch | '');
+            setCurrentPage(1);
+          }}
+          className={selectClassName}
+        >
+          <option value="">{t('items.duplicates.match.all')}</option>
+          <option value="isbn">{t('items.duplicates.match.isbn')}</option>
+          <option value="title_author_year">{t('items.duplicates.match.title_author_year')}</option>
+        </select>
+      </div>
+
+      {lastMerged && (
+        <div className="p-3 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 text-sm text-green-800 dark:text-green-200">
+          {t('items.duplicates.mergeSuccess')}{' '}
+          <Link to={`/items/${lastMerged.id}`} className="font-medium underline">
+            {lastMerged.title || t('loans.noTitle')}
+          </Link>
+        </div>
+      )}
+
+      {isLoading ? (
+        <Card>
+          <div className="flex justify-center py-8">
+            <div className="h-8 w-8 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin" />
+          </div>
+        </Card>
+      ) : clusters.length === 0 ? (
+        <Card>
+          <p className="text-center py-8 text-gray-500 dark:text-gray-400">{t('items.duplicates.none')}</p>
+        </Card>
+      ) : (
+        clusters.map((cluster) => (
+          <Card key={`${cluster.match}:${cluster.key}`}>
+            <CardHeader
+              title={cluster.items[0]?.title || t('loans.noTitle')}
+              subtitle={`${t(`items.duplicates.match.${cluster.match}`)} · ${cluster.key}`}
+              action={
+                <div className="flex items-center gap-2">
+                  <Badge variant={scoreVariant(cluster.score)}>
+                    {t('items.duplicates.score', { score: Math.round(cluster.score * 100) })}
+                  </Badge>
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => setMergeCluster(cluster)}
+                    disabled={cluster.items.length < 2}
+                    leftIcon={<GitMerge className="h-4 w-4" />}
+                  >
+                    {t('items.duplicates.merge')}
+                  </Button>
+                </div>
+              }
+            />
+            <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+              {cluster.items.map((item) => (
+                <li key={item.id} className="py-2 flex items-center justify-between gap-4 text-sm">
+                  <div className="min-w-0">
+                    <Link
+                      to={`/items/${item.id}`}
+                      className="font-medium text-gray-900 dark:text-white hover:text-indigo-600 dark:hover:text-indigo-400"
+                    >
+                      {item.title || t('loans.noTitle')}
+                    </Link>
+                    <p className="text-gray-500 dark:text-gray-400 truncate">
+                      {[
+                        item.author && `${item.author.firstname || ''} ${item.author.lastname || ''}`.trim(),
+                        item.date,
+                        item.isbn,
+                        item.source_name,
+                      ]
+                        .filter(Boolean)
+                        .join(' · ')}
+                    </p>
+                  </div>
+                  <span className="flex-shrink-0 text-gray-500 dark:text-gray-400">
+                    {t('items.specimenCount', { count: item.specimens?.length ?? 0 })}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </Card>
+        ))
+      )}
+
+      {totalPages > 1 && (
+        <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
+      )}
+
+      {mergeCluster && (
+        <MergeItemsModal
+          key={`${mergeCluster.match}:${mergeCluster.key}`}
+          cluster={mergeCluster}
+          onClose={() => setMergeCluster(null)}
+          onMerged={handleMerged}
+        />
+      )}
+    </div>
+  );
+}
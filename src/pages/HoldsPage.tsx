@@ -0,0 +1,167 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { BookmarkX } from 'lucide-react';
+import { Card, Table } from '@/components/common';
+import HoldStatusBadge from '@/components/holds/HoldStatusBadge';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import type { Hold, HoldStatus } from '@/types';
+
+const STATUS_FILTERS: HoldStatus[] = ['pending', 'ready', 'fulfilled', 'cancelled', 'expired'];
+
+export default function HoldsPage() {
+  const { t, i18n } = useTranslation();
+  const navigate = useNavigate();
+
+  const [holds, setHolds] = useState<Hold[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<HoldStatus | ''>('');
+  const [error, setError] = useState('');
+
+  const fetchHolds = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await api.getHolds({ status: statusFilter || undefined });
+      // Without a filter, only show the active queue (waiting or ready for pickup)
+      setHolds(statusFilter ? data : data.filter((h) => h.status === 'pending' || h.status === 'ready'));
+    } catch (error) {
+      console.error('Error fetching holds:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchHolds();
+  }, [fetchHolds]);
+
+  const handleCancel = async (hold: Hold) => {
+    setError('');
+    try {
+      await api.cancelHold(hold.id);
+      await fetchHolds();
+    } catch (error) {
+      console.error('Error cancelling hold:', error);
+      setError(getApiErrorMessage(error, t));
+    }
+  };
+
+  const columns = [
+    {
+      key: 'item',
+      header: t('loans.document'),
+      render: (hold: Hold) => (
+        <div>
+          <p className="font-medium text-gray-900 dark:text-white">
+            {hold.item.title || t('items.notSpecified')}
+          </p>
+          {hold.item.author && (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {hold.item.author.firstname} {hold.item.author.lastname}
+            </p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'user',
+      header: t('holds.reader'),
+      render: (hold: Hold) =>
+        hold.user ? (
+          <Link
+            to={`/users/${hold.user.id}`}
+            onClick={(e) => e.stopPropagation()}
+            className="text-indigo-600 dark:text-indigo-400 hover:underline"
+          >
+            {hold.user.firstname} {hold.user.lastname}
+          </Link>
+        ) : (
+          '-'
+        ),
+    },
+    {
+      key: 'created_at',
+      header: t('holds.placedOn'),
+      render: (hold: Hold) => new Date(hold.created_at).toLocaleDateString(i18n.language),
+    },
+    {
+      key: 'expires_at',
+      header: t('holds.expiresOn'),
+      render: (hold: Hold) =>
+        hold.expires_at ? new Date(hold.expires_at).toLocaleDateString(i18n.language) : '-',
+    },
+    {
+      key: 'status',
+      header: t('common.status'),
+      render: (hold: Hold) => <HoldStatusBadge status={hold.status} position={hold.position} />,
+    },
+    {
+      key: 'actions',
+      header: '',
+      className: 'text-right',
+      render: (hold: Hold) =>
+        (hold.status === 'pending' || hold.status === 'ready') && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              handleCancel(hold);
+            }}
+            className="p-2 rounded-lg text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"
+            title={t('holds.cancel')}
+          >
+            <BookmarkX className="h-4 w-4" />
+          </button>
+        ),
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t('holds.title')}</h1>
+        <p className="text-gray-500 dark:text-gray-400">{t('holds.count', { count: holds.length })}</p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <div className="max-w-xs">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+            {t('common.status')}
+          </label>
+          <select
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as HoldStatus | '')}
+            className="w-full px-4 py-2.5 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+          >
+            <option value="">{t('holds.activeOnly')}</option>
+            {STATUS_FILTERS.map((status) => (
+              <option key={status} value={status}>
+                {t(`holds.status.${status}`)}
+              </option>
+            ))}
+          </select>
+        </div>
+      </Card>
+
+      {error && (
+        <div className="p-4 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 text-sm text-red-600 dark:text-red-400">
+          {error}
+        </div>
+      )}
+
+      {/* Holds table */}
+      <Card padding="none">
+        <Table
+          columns={columns}
+          data={holds}
+          keyExtractor={(hold) => hold.id}
+          onRowClick={(hold) => navigate(`/items/${hold.item.id}`)}
+          isLoading={isLoading}
+          emptyMessage={t('holds.noHolds')}
+        />
+      </Card>
+    </div>
+  );
+}
@@ -4,9 +4,11 @@ import { useTranslation } from 'react-i18next';
 import { BookOpen, Users, BookMarked, TrendingUp, ArrowRight, AlertTriangle } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardHeader, Badge } from '@/components/common';
+import SavedSearchList from '@/components/items/SavedSearchList';
 import { isLibrarian } from '@/types';
 import api from '@/services/api';
 import type { Stats, Loan } from '@/types';
+import { isCountedOverdue } from '@/utils/loanState';
 
 export default function HomePage() {
   const { t } = useTranslation();
@@ -34,7 +36,7 @@ export default function HomePage() {
     fetchData();
   }, [user]);
 
-  const overdueLoans = myLoans.filter((loan) => loan.is_overdue);
+  const overdueLoans = myLoans.filter(isCountedOverdue);
 
   return (
     <div className="space-y-6">
@@ -137,7 +139,7 @@ export default function HomePage() {
                     {t('loans.dueDate')}: {new Date(loan.issue_date).toLocaleDateString()}
                   </p>
                 </div>
-                {loan.is_overdue && (
+                {isCountedOverdue(loan) && (
                   <Badge variant="danger">{t('loans.overdue')}</Badge>
                 )}
               </div>
@@ -146,6 +148,9 @@ export default function HomePage() {
         )}
       </Card>
 
+      {/* Saved catalog searches */}
+      <SavedSearchList />
+
       {/* Quick actions */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
         <QuickActionCard
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, Link } from 'react-router-dom';
 import {
   ArrowLeft,
   Edit,
@@ -14,15 +14,28 @@ import {
   Tag,
   Plus,
   Minus,
+  BookmarkPlus,
+  BookmarkX,
+  ListOrdered,
+  History,
+  Download,
 } from 'lucide-react';
 import { Card, CardHeader, Button, Badge, Modal, Input } from '@/components/common';
 import CallNumberField from '@/components/specimen/CallNumberField';
+import SpecimenLoanHistory from '@/components/specimen/SpecimenLoanHistory';
+import HoldStatusBadge from '@/components/holds/HoldStatusBadge';
+import MarcRecordPanel from '@/components/marc/MarcRecordPanel';
+import MarcExportModal from '@/components/marc/MarcExportModal';
+import AuthorAutocomplete from '@/components/authors/AuthorAutocomplete';
+import VolumeNavigation from '@/components/items/VolumeNavigation';
 import { buildSuggestedCallNumber, validateCallNumber } from '@/utils/callNumber';
+import { isCountedOverdue } from '@/utils/loanState';
 import { useAuth } from '@/contexts/AuthContext';
 import { canManageItems, type MediaType } from '@/types';
 import api from '@/services/api';
-import type { Item, Specimen, Author, Source } from '@/types';
+import type { Item, Specimen, SpecimenCirculation, Author, Source, Hold } from '@/types';
 import { useTranslation } from 'react-i18next';
+import { getApiErrorMessage } from '@/utils/apiError';
 import { LANG_OPTIONS, FUNCTION_OPTIONS, PUBLIC_TYPE_OPTIONS, STATUS_OPTIONS, getCodeLabel } from '@/utils/codeLabels';
 import type { MediaTypeOption } from '@/types';
 
@@ -81,6 +94,16 @@ export default function ItemDetailPage() {
   const [selectedSpecimen, setSelectedSpecimen] = useState<Specimen | null>(null);
   const [deleteSpecimenBorrowedError, setDeleteSpecimenBorrowedError] = useState(false);
   const [deleteSpecimenLoading, setDeleteSpecimenLoading] = useState(false);
+  const [holds, setHolds] = useState<Hold[]>([]);
+  const [isHoldLoading, setIsHoldLoading] = useState(false);
+  const [holdError, setHoldError] = useState('');
+  /** Current borrower and loan count per specimen id (librarians only) */
+  const [circulation, setCirculation] = useState<Record<string, SpecimenCirculation>>({});
+  const [historySpecimen, setHistorySpecimen] = useState<Specimen | null>(null);
+  const [activeTab, setActiveTab] = useState<'details' | 'marc'>('details');
+  const [showExportModal, setShowExportModal] = useState(false);
+
+  const canManage = canManageItems(user?.account_type);
 
   useEffect(() => {
     const fetchItem = async () => {
@@ -99,6 +122,58 @@ export default function ItemDetailPage() {
     fetchItem();
   }, [id, navigate]);
 
+  // Active holds on this item: the whole queue for librarians, the reader's own hold otherwise
+  useEffect(() => {
+    if (!id || !user?.id) return;
+    api
+      .getHolds(canManage ? { item_id: id } : { item_id: id, user_id: user.id })
+      .then((data) => setHolds(data.filter((h) => h.status === 'pending' || h.status === 'ready')))
+      .catch((error) => console.error('Error fetching holds:', error));
+  }, [id, user?.id, canManage]);
+
+  useEffect(() => {
+    if (!id || !canManage) return;
+    api
+      .getSpecimenCirculation(id)
+      .then((data) => setCirculation(Object.fromEntries(data.map((c) => [c.specimen_id, c]))))
+      .catch((error) => console.error('Error fetching specimen circulation:', error));
+  }, [id, canManage]);
+
+  const refreshHolds = async () => {
+    if (!id || !user?.id) return;
+    const data = await api.getHolds(canManage ? { item_id: id } : { item_id: id, user_id: user.id });
+    setHolds(data.filter((h) => h.status === 'pending' || h.status === 'ready'));
+  };
+
+  const handlePlaceHold = async () => {
+    if (!item?.id) return;
+    setIsHoldLoading(true);
+    setHoldError('');
+    try {
+      await api.placeHold({ item_id: item.id });
+      await refreshHolds();
+    } catch (error) {
+      console.error('Error placing hold:', error);
+      setHoldError(getApiErrorMessage(error, t) || t('holds.errorPlacing'));
+    } finally {
+      setIsHoldLoading(false);
+    }
+  };
+
+  const handleCancelHold = async (holdId: string) => {
+    setIsHoldLoading(true);
+    setHoldError('');
+    try {
+      await api.cancelHold(holdId);
+      await refreshHolds();
+    } catch (error) {
+      console.error('Error cancelling hold:', error);
+      setHoldError(getApiErrorMessage(error, t) || t('holds.errorCancelling'));
+    } finally {
+      setIsHoldLoading(false);
+    }
+  };
+
   const handleDelete = async () => {
     if (!item || item.id == null) return;
     try {
@@ -136,6 +211,10 @@ export default function ItemDetailPage() {
     );
   }
 
+  const myHold = holds.find((h) => h.user?.id == null || h.user.id === user?.id);
+  const hasAvailableSpecimen = item.specimens?.some((s) => s.availability === 0) ?? false;
+  const canPlaceHold = !canManage && !myHold && (item.specimens?.length ?? 0) > 0 && !hasAvailableSpecimen;
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -171,8 +250,11 @@ export default function ItemDetailPage() {
           </div>
         </div>
 
-        {canManageItems(user?.account_type) && (
+        {canManage && (
           <div className="flex gap-2">
+            <Button variant="secondary" onClick={() => setShowExportModal(true)} leftIcon={<Download className="h-4 w-4" />}>
+              {t('items.export.button')}
+            </Button>
             <Button variant="secondary" onClick={() => setShowEditModal(true)} leftIcon={<Edit className="h-4 w-4" />}>
               Modifier
             </Button>
@@ -181,142 +263,263 @@ export default function ItemDetailPage() {
             </Button>
           </div>
         )}
+
+        {!canManage && (myHold || canPlaceHold) && (
+          <div className="flex flex-col sm:items-end gap-2">
+            {myHold ? (
+              <div className="flex items-center gap-2">
+                <HoldStatusBadge status={myHold.status} position={myHold.position} />
+                <Button
+                  variant="secondary"
+                  onClick={() => handleCancelHold(myHold.id)}
+                  isLoading={isHoldLoading}
+                  leftIcon={<BookmarkX className="h-4 w-4" />}
+                >
+                  {t('holds.cancel')}
+                </Button>
+              </div>
+            ) : (
+              <Button
+                onClick={handlePlaceHold}
+                isLoading={isHoldLoading}
+                leftIcon={<BookmarkPlus className="h-4 w-4" />}
+              >
+                {t('holds.place')}
+              </Button>
+            )}
+            {holdError && <p className="text-sm text-red-600 dark:text-red-400">{holdError}</p>}
+          </div>
+        )}
       </div>
 
-      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-        {/* Main info */}
-        <div className="lg:col-span-2 space-y-6">
-          <Card>
-            <CardHeader title={t('items.generalInfo')} />
-            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-              <InfoRow icon={Hash} label={t('items.isbn')} value={item.isbn} />
-              <InfoRow icon={User} label={t('items.mainAuthor')} value={item.authors?.length ? formatAuthors([item.authors[0]]) : undefined} />
-              <InfoRow icon={User} label={t('items.secondaryAuthor')} value={item.authors && item.authors.length > 1 ? formatAuthors(item.authors.slice(1)) : undefined} />
-              <InfoRow icon={Calendar} label={t('items.publicationDate')} value={item.publication_date} />
-              <InfoRow icon={Building} label={t('items.publisher')} value={item.edition?.publisher_name} />
-              <InfoRow icon={MapPin} label={t('items.publicationPlace')} value={item.edition?.place_of_publication} />
-              {item.lang !== undefined && item.lang !== null && (
-                <InfoRow icon={BookOpen} label={t('items.language')} value={getCodeLabel(t, LANG_OPTIONS, item.lang)} />
-              )}
-              {item.audience_type != null && (
-                <InfoRow icon={Tag} label={t('items.publicType')} value={getCodeLabel(t, PUBLIC_TYPE_OPTIONS, item.audience_type)} />
-              )}
-              {item.specimens != null && (
-                <InfoRow 
-                  icon={Plus} 
-                  label={t('items.specimens')} 
-                  value={item.specimens.length > 0
-                    ? `${item.specimens.filter(s => s.availability === 0).length}/${item.specimens.length}`
-                    : '0'
-                  } 
-                />
-              )}
-            </div>
-          </Card>
+      {/* Tabs */}
+      <div className="border-b border-gray-200 dark:border-gray-800">
+        <nav className="-mb-px flex space-x-8">
+          {(['details', 'marc'] as const).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                activeTab === tab
+                  ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+              }`}
+            >
+              {t(`items.tabs.${tab}`)}
+            </button>
+          ))}
+        </nav>
+      </div>
 
-          {item.abstract_ && (
-            <Card>
-              <CardHeader title={t('items.abstract')} />
-              <p className="text-gray-600 dark:text-gray-300 whitespace-pre-wrap">
-                {item.abstract_}
-              </p>
-            </Card>
-          )}
+      {activeTab === 'marc' && item.id && (
+        <MarcRecordPanel itemId={item.id} marcFormat={item.marc_format} canEdit={canManage} onSaved={setItem} />
+      )}
 
-          {(item.keywords || item.subject) && (
+      {activeTab === 'details' && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Main info */}
+          <div className="lg:col-span-2 space-y-6">
             <Card>
-              <CardHeader title={t('items.keywordsAndSubject')} />
-              <div className="space-y-3">
-                {item.keywords && (
-                  <div className="flex items-start gap-2">
-                    <Tag className="h-4 w-4 mt-1 text-gray-400" />
-                    <p className="text-gray-600 dark:text-gray-300">{item.keywords}</p>
-                  </div>
+              <CardHeader title={t('items.generalInfo')} />
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <InfoRow icon={Hash} label={t('items.isbn')} value={item.isbn} />
+                <InfoRow icon={User} label={t('items.mainAuthor')} value={item.authors?.length ? formatAuthors([item.authors[0]]) : undefined} />
+                <InfoRow icon={User} label={t('items.secondaryAuthor')} value={item.authors && item.authors.length > 1 ? formatAuthors(item.authors.slice(1)) : undefined} />
+                <InfoRow icon={Calendar} label={t('items.publicationDate')} value={item.publication_date} />
+                <InfoRow icon={Building} label={t('items.publisher')} value={item.edition?.publisher_name} />
+                <InfoRow icon={MapPin} label={t('items.publicationPlace')} value={item.edition?.place_of_publication} />
+                {item.lang !== undefined && item.lang !== null && (
+                  <InfoRow icon={BookOpen} label={t('items.language')} value={getCodeLabel(t, LANG_OPTIONS, item.lang)} />
+                )}
+                {item.audience_type != null && (
+                  <InfoRow icon={Tag} label={t('items.publicType')} value={getCodeLabel(t, PUBLIC_TYPE_OPTIONS, item.audience_type)} />
                 )}
-                {item.subject && (
-                  <div className="flex items-start gap-2">
-                    <FileText className="h-4 w-4 mt-1 text-gray-400" />
-                    <p className="text-gray-600 dark:text-gray-300">{item.subject}</p>
-                  </div>
+                {item.specimens != null && (
+                  <InfoRow 
+                    icon={Plus} 
+                    label={t('items.specimens')} 
+                    value={item.specimens.length > 0
+                      ? `${item.specimens.filter(s => s.availability === 0).length}/${item.specimens.length}`
+                      : '0'
+                    } 
+                  />
                 )}
               </div>
             </Card>
-          )}
-        </div>
 
-        {/* Specimens */}
-        <div className="space-y-6">
-          <Card>
-            <CardHeader
-              title={t('items.specimens')}
-              subtitle={t('items.specimenCount', { count: item.specimens?.length ?? 0 })}
-              action={
-                canManageItems(user?.account_type) && (
-                  <Button
-                    size="sm"
-                    variant="secondary"
-                    onClick={() => setShowAddSpecimenModal(true)}
-                    leftIcon={<Plus className="h-4 w-4" />}
-                  >
-                    {t('items.addSpecimen')}
-                  </Button>
-                )
-              }
-            />
-            {item.specimens && item.specimens.length > 0 ? (
-              <div className="space-y-3">
-                {item.specimens.map((specimen) => (
-                  <SpecimenCard
-                    key={specimen.id}
-                    specimen={specimen}
-                    canManage={canManageItems(user?.account_type)}
-                    onEdit={() => {
-                      setSelectedSpecimen(specimen);
-                      setShowEditSpecimenModal(true);
-                    }}
-                    onDelete={() => {
-                      setSelectedSpecimen(specimen);
-                      setShowDeleteSpecimenModal(true);
-                    }}
-                  />
-                ))}
-              </div>
-            ) : (
-              <p className="text-center py-4 text-gray-500 dark:text-gray-400">
-                {t('items.noSpecimens')}
-              </p>
+            {item.abstract_ && (
+              <Card>
+                <CardHeader title={t('items.abstract')} />
+                <p className="text-gray-600 dark:text-gray-300 whitespace-pre-wrap">
+                  {item.abstract_}
+                </p>
+              </Card>
             )}
-          </Card>
 
-          {item.collection && (
+            {(item.keywords || item.subject) && (
+              <Card>
+                <CardHeader title={t('items.keywordsAndSubject')} />
+                <div className="space-y-3">
+                  {item.keywords && (
+                    <div className="flex items-start gap-2">
+                      <Tag className="h-4 w-4 mt-1 text-gray-400" />
+                      <p className="text-gray-600 dark:text-gray-300">{item.keywords}</p>
+                    </div>
+                  )}
+                  {item.subject && (
+                    <div className="flex items-start gap-2">
+                      <FileText className="h-4 w-4 mt-1 text-gray-400" />
+                      <p className="text-gray-600 dark:text-gray-300">{item.subject}</p>
+                    </div>
+                  )}
+                </div>
+              </Card>
+            )}
+          </div>
+
+          {/* Specimens */}
+          <div className="space-y-6">
             <Card>
-              <CardHeader title={t('items.collection')} />
-              <p className="font-medium text-gray-900 dark:text-white">
-                {item.collection.primary_title || item.collection.secondary_title || item.collection.tertiary_title || '—'}
-              </p>
-              {item.collection.issn && (
-                <p className="text-sm text-gray-500 dark:text-gray-400">
-                  ISSN: {item.collection.issn}
+              <CardHeader
+                title={t('items.specimens')}
+                subtitle={t('items.specimenCount', { count: item.specimens?.length ?? 0 })}
+                action={
+                  canManage && (
+                    <Button
+                      size="sm"
+                      variant="secondary"
+                      onClick={() => setShowAddSpecimenModal(true)}
+                      leftIcon={<Plus className="h-4 w-4" />}
+                    >
+                      {t('items.addSpecimen')}
+                    </Button>
+                  )
+                }
+              />
+              {item.specimens && item.specimens.length > 0 ? (
+                <div className="space-y-3">
+                  {item.specimens.map((specimen) => (
+                    <SpecimenCard
+                      key={specimen.id}
+                      specimen={specimen}
+                      canManage={canManage}
+                      circulation={canManage ? circulation[specimen.id] : undefined}
+                      onShowHistory={() => setHistorySpecimen(specimen)}
+                      onEdit={() => {
+                        setSelectedSpecimen(specimen);
+                        setShowEditSpecimenModal(true);
+                      }}
+                      onDelete={() => {
+                        setSelectedSpecimen(specimen);
+                        setShowDeleteSpecimenModal(true);
+                      }}
+                    />
+                  ))}
+                </div>
+              ) : (
+                <p className="text-center py-4 text-gray-500 dark:text-gray-400">
+                  {t('items.noSpecimens')}
                 </p>
               )}
             </Card>
-          )}
 
-          {(item.series || item.series_volume_number != null) && (
-            <Card>
-              <CardHeader title={t('items.series')} />
-              <p className="font-medium text-gray-900 dark:text-white">
-                {item.series?.name ?? '—'}
-              </p>
-              {(item.series_volume_number != null || item.series?.name) && (
-                <p className="text-sm text-gray-500 dark:text-gray-400">
-                  {item.series_volume_number != null ? `Volume ${item.series_volume_number}` : null}
+            {canManage && holds.length > 0 && (
+              <Card>
+                <CardHeader
+                  title={t('holds.queue')}
+                  subtitle={t('holds.count', { count: holds.length })}
+                />
+                <div className="space-y-2">
+                  {holds.map((hold) => (
+                    <div
+                      key={hold.id}
+                      className="flex items-center justify-between gap-2 p-3 rounded-lg border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50"
+                    >
+                      <div className="flex items-center gap-2 min-w-0">
+                        <ListOrdered className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                        {hold.user ? (
+                          <Link
+                            to={`/users/${hold.user.id}`}
+                            className="text-sm font-medium text-gray-900 dark:text-white hover:underline truncate"
+                          >
+                            {hold.user.firstname} {hold.user.lastname}
+                          </Link>
+                        ) : (
+                          <span className="text-sm text-gray-500 dark:text-gray-400">—</span>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <HoldStatusBadge status={hold.status} position={hold.position} />
+                        <button
+                          onClick={() => handleCancelHold(hold.id)}
+                          disabled={isHoldLoading}
+                          className="p-1 rounded hover:bg-gray-200 dark:hover:bg-gray-700 text-red-600 dark:text-red-400 disabled:opacity-50"
+                          title={t('holds.cancel')}
+                        >
+                          <BookmarkX className="h-4 w-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                {holdError && <p className="mt-2 text-sm text-red-600 dark:text-red-400">{holdError}</p>}
+              </Card>
+            )}
+
+            {item.collection && (
+              <Card>
+                <CardHeader title={t('items.collection')} />
+                <p className="font-medium text-gray-900 dark:text-white">
+                  {item.collection.primary_title || item.collection.secondary_title || item.collection.tertiary_title || '—'}
                 </p>
-              )}
-            </Card>
-          )}
+                {item.collection.issn && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    ISSN: {item.collection.issn}
+                  </p>
+                )}
+                {item.collection_sequence_number != null && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {t('series.sequence', { number: item.collection_sequence_number })}
+                  </p>
+                )}
+                {item.collection.id && (
+                  <VolumeNavigation
+                    kind="collection"
+                    groupId={item.collection.id}
+                    number={item.collection_sequence_number}
+                  />
+                )}
+              </Card>
+            )}
+
+            {(item.series || item.series_volume_number != null) && (
+              <Card>
+                <CardHeader title={t('items.series')} />
+                <p className="font-medium text-gray-900 dark:text-white">
+                  {item.series?.name ?? '—'}
+                </p>
+                {(item.series_volume_number != null || item.series?.name) && (
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {item.series_volume_number != null ? `Volume ${item.series_volume_number}` : null}
+                  </p>
+                )}
+                {item.series?.id && (
+                  <VolumeNavigation kind="series" groupId={item.series.id} number={item.series_volume_number} />
+                )}
+              </Card>
+            )}
+          </div>
         </div>
-      </div>
+      )}
+
+      {item.id && (
+        <MarcExportModal
+          isOpen={showExportModal}
+          onClose={() => setShowExportModal(false)}
+          scopes={[{ key: 'item', label: item.title || t('loans.noTitle'), resolveIds: async () => [item.id as string] }]}
+          basename={`item-${item.id}`}
+        />
+      )}
 
       {/* Delete confirmation modal */}
       <Modal
@@ -393,6 +596,16 @@ export default function ItemDetailPage() {
         )}
       </Modal>
 
+      {/* Specimen loan history */}
+      <Modal
+        isOpen={historySpecimen !== null}
+        onClose={() => setHistorySpecimen(null)}
+        title={t('items.circulation.historyTitle', { barcode: historySpecimen?.barcode ?? '' })}
+        size="lg"
+      >
+        {historySpecimen && item.id && <SpecimenLoanHistory itemId={item.id} specimenId={historySpecimen.id} />}
+      </Modal>
+
       {/* Delete specimen confirmation modal */}
       <Modal
         isOpen={showDeleteSpecimenModal}
@@ -500,12 +713,16 @@ function InfoRow({ icon: Icon, label, value }: InfoRowProps) {
 interface SpecimenCardProps {
   specimen: Specimen;
   canManage: boolean;
+  /** Staff only: readers just see availability */
+  circulation?: SpecimenCirculation;
+  onShowHistory: () => void;
   onEdit: () => void;
   onDelete: () => void;
 }
 
-function SpecimenCard({ specimen, canManage, onEdit, onDelete }: SpecimenCardProps) {
-  const { t } = useTranslation();
+function SpecimenCard({ specimen, canManage, circulation, onShowHistory, onEdit, onDelete }: SpecimenCardProps) {
+  const { t, i18n } = useTranslation();
+  const currentLoan = circulation?.current_loan;
 
   const borrowStatusLabel =
     specimen.borrow_status != null
@@ -558,6 +775,39 @@ function SpecimenCard({ specimen, canManage, onEdit, onDelete }: SpecimenCardPro
       <p className="text-sm text-gray-500 dark:text-gray-400">
         {t('items.source')}: {specimen.source_name ?? '—'}
       </p>
+      {circulation && (
+        <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-700 space-y-1 text-sm">
+          {currentLoan?.user && (
+            <p className="text-gray-700 dark:text-gray-300">
+              {t('items.circulation.borrowedBy')}{' '}
+              <Link
+                to={`/users/${currentLoan.user.id}`}
+                className="font-medium text-indigo-600 dark:text-indigo-400 hover:underline"
+              >
+                {currentLoan.user.firstname} {currentLoan.user.lastname}
+              </Link>
+              {' · '}
+              {t('items.circulation.since', { date: new Date(currentLoan.start_date).toLocaleDateString(i18n.language) })}
+              {' · '}
+              <span className={isCountedOverdue(currentLoan) ? 'text-red-600 dark:text-red-400 font-medium' : ''}>
+                {t('items.circulation.due', { date: new Date(currentLoan.issue_date).toLocaleDateString(i18n.language) })}
+              </span>
+            </p>
+          )}
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-gray-500 dark:text-gray-400">
+              {t('items.circulation.totalLoans', { count: circulation.total_loans })}
+            </span>
+            <button
+              onClick={onShowHistory}
+              className="inline-flex items-center gap-1 text-indigo-600 dark:text-indigo-400 hover:underline"
+            >
+              <History className="h-4 w-4" />
+              {t('items.circulation.history')}
+            </button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -622,6 +872,8 @@ function EditItemForm({ item, onSuccess }: EditItemFormProps) {
   const updateAuthor = (index: number, field: keyof AuthorForm, value: string) => {
     const arr = [...formData.authors];
     arr[index] = { ...arr[index], [field]: value };
+    // Editing the name unlinks the authority rather than renaming it for every record
+    if (field === 'lastname' || field === 'firstname') arr[index].id = '';
     setFormData({ ...formData, authors: arr });
   };
   const addAuthor = () => {
@@ -633,6 +885,11 @@ function EditItemForm({ item, onSuccess }: EditItemFormProps) {
   const removeAuthor = (index: number) => {
     setFormData({ ...formData, authors: formData.authors.filter((_, i) => i !== index) });
   };
+  const selectAuthor = (index: number, selected: Author) => {
+    const arr = [...formData.authors];
+    arr[index] = { ...arr[index], id: selected.id, lastname: selected.lastname ?? '', firstname: selected.firstname ?? '' };
+    setFormData({ ...formData, authors: arr });
+  };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -689,10 +946,12 @@ function EditItemForm({ item, onSuccess }: EditItemFormProps) {
       </div>
       {formData.authors.map((author, index) => (
         <div key={index} className="flex flex-wrap items-center gap-2 p-2 rounded-lg bg-gray-50 dark:bg-gray-800/50">
-          <Input
+          <AuthorAutocomplete
             placeholder={t('items.authorLastname')}
             value={author.lastname}
-            onChange={(e) => updateAuthor(index, 'lastname', e.target.value)}
+            onChange={(value) => updateAuthor(index, 'lastname', value)}
+            onSelect={(selected) => selectAuthor(index, selected)}
+            excludeIds={formData.authors.map((a) => a.id).filter(Boolean)}
             className="flex-1 min-w-[100px]"
           />
           <Input
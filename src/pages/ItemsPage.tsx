@@ -1,19 +1,28 @@
 import { useState, useEffect, useRef } from 'react';
 import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { Plus, BookOpen, Filter, Search, Globe, Loader2, AlertCircle, CheckCircle, Video, Music, Image, FileText, Disc, Newspaper, Trash2 } from 'lucide-react';
+import { Plus, BookOpen, Filter, Globe, Loader2, AlertCircle, CheckCircle, Video, Music, Image, FileText, Disc, Newspaper, Trash2, Download, FileSpreadsheet, Edit } from 'lucide-react';
 import { Card, Button, Table, Badge, SearchInput, Modal, Input } from '@/components/common';
 import { useAuth } from '@/contexts/AuthContext';
 import { canManageItems, type MediaType, type MediaTypeOption } from '@/types';
 import api from '@/services/api';
-import type { ItemShort, Author, Z3950Server, ImportReport, DuplicateConfirmationRequired, Source } from '@/types';
+import type { ItemShort, Author, Z3950Server, ImportReport, DuplicateConfirmationRequired, Source, FacetField, FacetSelection } from '@/types';
 import CallNumberField from '@/components/specimen/CallNumberField';
+import FacetSidebar from '@/components/items/FacetSidebar';
+import AdvancedSearchPanel from '@/components/items/AdvancedSearchPanel';
+import MarcExportModal, { type MarcExportScope } from '@/components/marc/MarcExportModal';
+import SpreadsheetExportModal from '@/components/items/SpreadsheetExportModal';
+import BulkEditModal from '@/components/items/BulkEditModal';
+import AuthorAutocomplete from '@/components/authors/AuthorAutocomplete';
 import { buildSuggestedCallNumber, validateCallNumber } from '@/utils/callNumber';
-import { PUBLIC_TYPE_OPTIONS } from '@/utils/codeLabels';
+import { facetSelectionToParams, parseFacetSelection, toggleFacet } from '@/utils/facets';
+import { FUNCTION_OPTIONS } from '@/utils/codeLabels';
 import type { AxiosError } from 'axios';
-import { useInfiniteQuery, useQueryClient } from '@tanstack/react-query';
+import { useInfiniteQuery, useQuery, useQueryClient } from '@tanstack/react-query';
 
 const PAGE_SIZE = 20;
+/** Export of "all results" stops there; larger sets should be narrowed or selected */
+const EXPORT_MAX_RESULTS = 1000;
 
 function getDuplicateConfirmationRequired(error: unknown): DuplicateConfirmationRequired | null {
   const ax = error as AxiosError<any>;
@@ -33,40 +42,30 @@ export default function ItemsPage() {
   const [searchParams, setSearchParams] = useSearchParams();
   const queryClient = useQueryClient();
 
-  const MEDIA_TYPES: MediaTypeOption[] = [
-    { value: '', label: t('items.allTypes') },
-    { value: 'u', label: t('items.mediaType.unknown') },
-    { value: 'b', label: t('items.mediaType.printedText') },
-    { value: 'bc', label: t('items.mediaType.comics') },
-    { value: 'p', label: t('items.mediaType.periodic') },
-    { value: 'v', label: t('items.mediaType.video') },
-    { value: 'vt', label: t('items.mediaType.videoTape') },
-    { value: 'vd', label: t('items.mediaType.videoDvd') },
-    { value: 'a', label: t('items.mediaType.audio') },
-    { value: 'am', label: t('items.mediaType.audioMusic') },
-    { value: 'amt', label: t('items.mediaType.audioMusicTape') },
-    { value: 'amc', label: t('items.mediaType.audioMusicCd') },
-    { value: 'an', label: t('items.mediaType.audioNonMusic') },
-    { value: 'c', label: t('items.mediaType.cdRom') },
-    { value: 'i', label: t('items.mediaType.images') },
-    { value: 'm', label: t('items.mediaType.multimedia') },
-  ];
-
   // Filters – init from URL so returning from item detail restores search
   const [searchQuery, setSearchQuery] = useState(() => searchParams.get('freesearch') ?? '');
-  const [mediaType, setMediaType] = useState<MediaType | ''>(
-    () => (searchParams.get('media_type') || '') as MediaType | ''
-  );
-  const [audienceType, setAudienceType] = useState<string>(() => searchParams.get('audience_type') ?? '');
-  const [showFilters, setShowFilters] = useState(false);
-  const [advancedFilters, setAdvancedFilters] = useState(() => ({
-    title: searchParams.get('title') ?? '',
-    author: searchParams.get('author') ?? '',
-    isbn: searchParams.get('isbn') ?? '',
-  }));
+  const [facets, setFacets] = useState<FacetSelection>(() => parseFacetSelection(searchParams));
+  // Boolean query in text syntax; `q` in the URL makes advanced searches shareable
+  const [advancedQuery, setAdvancedQuery] = useState(() => searchParams.get('q') ?? '');
+  const [showFilters, setShowFilters] = useState(() => searchParams.has('q'));
+  // A search opened from a link (shared query, facet, back from an item) wins over the one left in this tab
+  const openedWithSearchRef = useRef(searchParams.toString() !== '');
 
   // Modal
   const [showCreateModal, setShowCreateModal] = useState(false);
+  const [showExportModal, setShowExportModal] = useState(false);
+  const [showSpreadsheetModal, setShowSpreadsheetModal] = useState(false);
+  const [showBulkEditModal, setShowBulkEditModal] = useState(false);
+
+  // Selection (staff): kept across searches so a set can be built from several queries
+  const canManage = canManageItems(user?.account_type);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const searchFilters = {
+    freesearch: searchQuery || undefined,
+    facets,
+    q: advancedQuery || undefined,
+  };
 
   const {
     data,
@@ -79,19 +78,13 @@ export default function ItemsPage() {
       'items',
       {
         searchQuery,
-        mediaType,
-        audienceType,
-        advancedFilters,
+        facets,
+        advancedQuery,
       },
     ],
     queryFn: async ({ pageParam }) => {
       return api.getItems({
-        freesearch: searchQuery || undefined,
-        media_type: mediaType || undefined,
-        audience_type: audienceType ? parseInt(audienceType, 10) : undefined,
-        title: advancedFilters.title || undefined,
-        author: advancedFilters.author || undefined,
-        isbn: advancedFilters.isbn || undefined,
+        ...searchFilters,
         page: pageParam,
         per_page: PAGE_SIZE,
       });
@@ -104,6 +97,12 @@ export default function ItemsPage() {
     },
   });
 
+  // Counts follow the same search, so each facet shows how the current results break down
+  const { data: facetCounts } = useQuery({
+    queryKey: ['items', 'facets', { searchQuery, facets, advancedQuery }],
+    queryFn: () => api.getItemFacets(searchFilters),
+  });
+
   const items = data?.pages.flatMap((p) => p.items) ?? [];
   const totalItems = data?.pages[0]?.total ?? 0;
 
@@ -123,26 +122,20 @@ export default function ItemsPage() {
     return () => obs.disconnect();
   }, [hasNextPage, isFetchingNextPage, fetchNextPage, data?.pages?.length]);
 
-  // Restore last search from sessionStorage when (re)entering the page
+  // Restore last search from sessionStorage when (re)entering the page without one in the URL
   useEffect(() => {
+    if (openedWithSearchRef.current) return;
     try {
       const raw = sessionStorage.getItem('itemsPageState');
       if (!raw) return;
       const saved = JSON.parse(raw) as {
         searchQuery?: string;
-        mediaType?: MediaType | '';
-        audienceType?: string;
-        advancedFilters?: { title?: string; author?: string; isbn?: string };
+        facets?: FacetSelection;
+        advancedQuery?: string;
       };
       if (typeof saved.searchQuery === 'string') setSearchQuery(saved.searchQuery);
-      if (typeof saved.mediaType === 'string') setMediaType(saved.mediaType as MediaType | '');
-      if (typeof saved.audienceType === 'string') setAudienceType(saved.audienceType);
-      if (saved.advancedFilters && typeof saved.advancedFilters === 'object') {
-        setAdvancedFilters((prev) => ({
-          ...prev,
-          ...saved.advancedFilters,
-        }));
-      }
+      if (saved.facets && typeof saved.facets === 'object') setFacets(saved.facets);
+      if (typeof saved.advancedQuery === 'string') setAdvancedQuery(saved.advancedQuery);
     } catch {
       // ignore corrupted storage
     }
@@ -152,11 +145,8 @@ export default function ItemsPage() {
   useEffect(() => {
     const next = new URLSearchParams();
     if (searchQuery) next.set('freesearch', searchQuery);
-    if (mediaType) next.set('media_type', mediaType);
-    if (audienceType) next.set('audience_type', audienceType);
-    if (advancedFilters.title) next.set('title', advancedFilters.title);
-    if (advancedFilters.author) next.set('author', advancedFilters.author);
-    if (advancedFilters.isbn) next.set('isbn', advancedFilters.isbn);
+    Object.entries(facetSelectionToParams(facets)).forEach(([field, value]) => next.set(field, value));
+    if (advancedQuery) next.set('q', advancedQuery);
     setSearchParams(next, { replace: true });
 
     try {
@@ -164,20 +154,62 @@ export default function ItemsPage() {
         'itemsPageState',
         JSON.stringify({
           searchQuery,
-          mediaType,
-          audienceType,
-          advancedFilters,
+          facets,
+          advancedQuery,
         })
       );
     } catch {
       // ignore quota / storage errors
     }
-  }, [searchQuery, mediaType, audienceType, advancedFilters, setSearchParams]);
+  }, [searchQuery, facets, advancedQuery, setSearchParams]);
 
   const handleSearch = (value: string) => {
     setSearchQuery(value);
   };
 
+  const handleToggleFacet = (field: FacetField, value: string) => {
+    setFacets((prev) => toggleFacet(prev, field, value));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const fetchResultIds = async (): Promise<string[]> => {
+    const ids: string[] = [];
+    for (let page = 1; ids.length < EXPORT_MAX_RESULTS; page++) {
+      const response = await api.getItems({ ...searchFilters, page, per_page: 100 });
+      ids.push(...response.items.map((item) => item.id));
+      if (response.items.length === 0 || page * response.per_page >= response.total) break;
+    }
+    return ids.slice(0, EXPORT_MAX_RESULTS);
+  };
+
+  const exportScopes: MarcExportScope[] = [
+    ...(selectedIds.size > 0
+      ? [
+          {
+            key: 'selection',
+            label: t('items.export.scopeSelection', { count: selectedIds.size }),
+            resolveIds: async () => [...selectedIds],
+          },
+        ]
+      : []),
+    {
+      key: 'results',
+      label:
+        totalItems > EXPORT_MAX_RESULTS
+          ? t('items.export.scopeResultsCapped', { count: EXPORT_MAX_RESULTS })
+          : t('items.export.scopeResults', { count: totalItems }),
+      resolveIds: fetchResultIds,
+    },
+  ];
+
   const handleRowClick = (item: ItemShort) => {
     navigate(`/items/${item.id}`);
   };
@@ -310,6 +342,23 @@ export default function ItemsPage() {
     },
   ];
 
+  const selectColumn = {
+    key: 'select',
+    header: '',
+    className: 'w-10',
+    render: (item: ItemShort) => (
+      <input
+        type="checkbox"
+        checked={selectedIds.has(item.id)}
+        onClick={(e) => e.stopPropagation()}
+        onChange={() => toggleSelected(item.id)}
+        aria-label={t('items.selection.select')}
+        className="rounded border-gray-300 dark:border-gray-700 text-indigo-600 focus:ring-indigo-500"
+      />
+    ),
+  };
+  const tableColumns = canManage ? [selectColumn, ...columns] : columns;
+
   return (
     <div className="space-y-4">
       {/* Header */}
@@ -320,7 +369,7 @@ export default function ItemsPage() {
             {t('items.count', { count: totalItems })}
           </p>
         </div>
-        {canManageItems(user?.account_type) && (
+        {canManage && (
           <Button onClick={() => setShowCreateModal(true)} leftIcon={<Plus className="h-4 w-4" />}>
             {t('items.add')}
           </Button>
@@ -340,29 +389,6 @@ export default function ItemsPage() {
             )}
           </div>
           <div className="flex gap-2">
-            <select
-              value={mediaType}
-              onChange={(e) => setMediaType(e.target.value as MediaType | '')}
-              className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
-            >
-              {MEDIA_TYPES.map((type) => (
-                <option key={type.value} value={type.value}>
-                  {type.label}
-                </option>
-              ))}
-            </select>
-            <select
-              value={audienceType}
-              onChange={(e) => setAudienceType(e.target.value)}
-              className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
-            >
-              <option value="">{t('items.allPublicTypes')}</option>
-              {PUBLIC_TYPE_OPTIONS.map((opt) => (
-                <option key={opt.value} value={opt.value}>
-                  {t(opt.labelKey)}
-                </option>
-              ))}
-            </select>
             <Button
               variant="secondary"
               onClick={() => setShowFilters(!showFilters)}
@@ -378,91 +404,128 @@ export default function ItemsPage() {
         {/* Advanced filters */}
         {showFilters && (
           <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
-            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-              <Input
-                label={t('items.titleField')}
-                value={advancedFilters.title}
-                onChange={(e) =>
-                  setAdvancedFilters({ ...advancedFilters, title: e.target.value })
-                }
-                placeholder={t('z3950.titlePlaceholder')}
-              />
-              <Input
-                label={t('items.author')}
-                value={advancedFilters.author}
-                onChange={(e) =>
-                  setAdvancedFilters({ ...advancedFilters, author: e.target.value })
-                }
-                placeholder={t('z3950.authorPlaceholder')}
-              />
-              <Input
-                label={t('items.isbn')}
-                value={advancedFilters.isbn}
-                onChange={(e) =>
-                  setAdvancedFilters({ ...advancedFilters, isbn: e.target.value })
-                }
-                placeholder={t('z3950.isbnPlaceholder')}
-              />
-            </div>
-            <div className="flex justify-end gap-2 mt-4">
-              <Button
-                variant="ghost"
-                onClick={() => setAdvancedFilters({ title: '', author: '', isbn: '' })}
-              >
-                {t('common.reset')}
-              </Button>
-              <Button leftIcon={<Search className="h-4 w-4" />}>
-                {t('common.search')}
-              </Button>
-            </div>
+            <AdvancedSearchPanel query={advancedQuery} onSearch={setAdvancedQuery} />
           </div>
         )}
       </Card>
 
-      {/* Items list: fixed-height scroll area so header/filters stay static */}
-      <Card padding="none" className="flex flex-col min-h-0">
-        <div className="px-4 py-2 border-b border-gray-200 dark:border-gray-800 text-sm text-gray-600 dark:text-gray-300 flex justify-end">
-          <span>{t('items.count', { count: totalItems })}</span>
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-4 items-start">
+        {/* Facets */}
+        <div className="lg:max-h-[calc(100vh-14rem)] lg:overflow-auto">
+          <FacetSidebar
+            facets={facetCounts ?? {}}
+            selection={facets}
+            onToggle={handleToggleFacet}
+            onClear={() => setFacets({})}
+          />
         </div>
-        {/* Fixed table header (Titre / Auteur / ...) */}
-        <div className="overflow-x-auto border-b border-gray-200 dark:border-gray-800">
-          <table className="w-full">
-            <thead>
-              <tr className="border-b border-gray-200 dark:border-gray-800">
-                {columns.map((column) => (
-                  <th
-                    key={column.key}
-                    className={`px-4 py-3 text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider ${column.className || ''}`}
-                  >
-                    {column.header}
-                  </th>
+
+        {/* Items list: fixed-height scroll area so header/filters stay static */}
+        <Card padding="none" className="flex flex-col min-h-0 lg:col-span-3">
+          <div className="px-4 py-2 border-b border-gray-200 dark:border-gray-800 text-sm text-gray-600 dark:text-gray-300 flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3">
+              {canManage &&
+                (selectedIds.size > 0 ? (
+                  <>
+                    <span className="font-medium">{t('items.selection.count', { count: selectedIds.size })}</span>
+                    <button onClick={() => setSelectedIds(new Set())} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+                      {t('common.clear')}
+                    </button>
+                    <Button size="sm" variant="secondary" onClick={() => setShowBulkEditModal(true)} leftIcon={<Edit className="h-4 w-4" />}>
+                      {t('items.bulkEdit.button')}
+                    </Button>
+                  </>
+                ) : (
+                  items.length > 0 && (
+                    <button
+                      onClick={() => setSelectedIds(new Set(items.map((item) => item.id)))}
+                      className="text-indigo-600 dark:text-indigo-400 hover:underline"
+                    >
+                      {t('items.selection.selectLoaded', { count: items.length })}
+                    </button>
+                  )
                 ))}
-              </tr>
-            </thead>
-          </table>
-        </div>
-        <div
-          className="items-list-scroll overflow-auto max-h-[calc(100vh-18rem)]"
-          aria-label={t('items.title')}
-        >
-          <Table
-            columns={columns}
-            data={items}
-            keyExtractor={(item) => item.id}
-            onRowClick={handleRowClick}
-            isLoading={isItemsLoading}
-            emptyMessage={t('items.noItems')}
-            hideHeader
-          />
-          <div ref={loadMoreRef} className="h-4 flex-shrink-0" aria-hidden />
-          {isFetchingNextPage && (
-            <div className="flex items-center justify-center gap-2 py-4 text-sm text-gray-500 dark:text-gray-400">
-              <Loader2 className="h-5 w-5 animate-spin" />
-              <span>{t('common.loading')}</span>
             </div>
-          )}
-        </div>
-      </Card>
+            <div className="flex items-center gap-3">
+              <span>{t('items.count', { count: totalItems })}</span>
+              {canManage && (
+                <>
+                  <Button
+                    size="sm"
+                    variant="secondary"
+                    onClick={() => setShowSpreadsheetModal(true)}
+                    leftIcon={<FileSpreadsheet className="h-4 w-4" />}
+                  >
+                    {t('items.spreadsheet.button')}
+                  </Button>
+                  <Button size="sm" variant="secondary" onClick={() => setShowExportModal(true)} leftIcon={<Download className="h-4 w-4" />}>
+                    {t('items.export.button')}
+                  </Button>
+                </>
+              )}
+            </div>
+          </div>
+          {/* Fixed table header (Titre / Auteur / ...) */}
+          <div className="overflow-x-auto border-b border-gray-200 dark:border-gray-800">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-800">
+                  {tableColumns.map((column) => (
+                    <th
+                      key={column.key}
+                      className={`px-4 py-3 text-left text-xs font-semibold text-gray-500 dark:text-gray-400 uppercase tracking-wider ${column.className || ''}`}
+                    >
+                      {column.header}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+            </table>
+          </div>
+          <div
+            className="items-list-scroll overflow-auto max-h-[calc(100vh-18rem)]"
+            aria-label={t('items.title')}
+          >
+            <Table
+              columns={tableColumns}
+              data={items}
+              keyExtractor={(item) => item.id}
+              onRowClick={handleRowClick}
+              isLoading={isItemsLoading}
+              emptyMessage={t('items.noItems')}
+              hideHeader
+            />
+            <div ref={loadMoreRef} className="h-4 flex-shrink-0" aria-hidden />
+            {isFetchingNextPage && (
+              <div className="flex items-center justify-center gap-2 py-4 text-sm text-gray-500 dark:text-gray-400">
+                <Loader2 className="h-5 w-5 animate-spin" />
+                <span>{t('common.loading')}</span>
+              </div>
+            )}
+          </div>
+        </Card>
+      </div>
+
+      <MarcExportModal
+        isOpen={showExportModal}
+        onClose={() => setShowExportModal(false)}
+        scopes={exportScopes}
+        basename="catalog"
+      />
+
+      <SpreadsheetExportModal
+        isOpen={showSpreadsheetModal}
+        onClose={() => setShowSpreadsheetModal(false)}
+        filters={searchFilters}
+        total={totalItems}
+      />
+
+      <BulkEditModal
+        isOpen={showBulkEditModal}
+        onClose={() => setShowBulkEditModal(false)}
+        itemIds={[...selectedIds]}
+        onUpdated={() => queryClient.invalidateQueries({ queryKey: ['items'] })}
+      />
 
       {/* Create modal */}
       <Modal
@@ -518,6 +581,9 @@ function CreateItemForm({ onCreated, onClose }: CreateItemFormProps) {
     { barcode: '', call_number: '', source_id: '' },
   ]);
 
+  // Authors: id is set when an existing authority was picked from the suggestions
+  const [authors, setAuthors] = useState<{ id: string; lastname: string; firstname: string; function: string }[]>([]);
+
   const MEDIA_TYPES: MediaTypeOption[] = [
     { value: 'u', label: t('items.mediaType.unknown') },
     { value: 'b', label: t('items.mediaType.printedText') },
@@ -633,6 +699,31 @@ function CreateItemForm({ onCreated, onClose }: CreateItemFormProps) {
     setSpecimens(next);
   };
 
+  const handleAuthorChange = (index: number, field: 'lastname' | 'firstname' | 'function', value: string) => {
+    const next = [...authors];
+    next[index] = { ...next[index], [field]: value };
+    // A name edited after picking an authority no longer designates it: a new author is created instead
+    if (field !== 'function') next[index].id = '';
+    setAuthors(next);
+  };
+
+  const handleAuthorSelect = (index: number, author: Author) => {
+    const next = [...authors];
+    next[index] = { ...next[index], id: author.id, lastname: author.lastname ?? '', firstname: author.firstname ?? '' };
+    setAuthors(next);
+  };
+
+  const buildAuthorsPayload = (): Author[] | undefined => {
+    const filled = authors.filter((a) => a.lastname.trim() !== '');
+    if (filled.length === 0) return undefined;
+    return filled.map((a) => ({
+      id: a.id,
+      lastname: a.lastname.trim(),
+      firstname: a.firstname.trim() || undefined,
+      function: a.function || undefined,
+    }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     const invalidCallNumber = specimens.find((s) => s.call_number.trim() !== '' && !validateCallNumber(s.call_number));
@@ -641,7 +732,11 @@ function CreateItemForm({ onCreated, onClose }: CreateItemFormProps) {
     if (specimenPayload?.some((s) => !s.source_id)) return;
     setIsLoading(true);
     try {
-      const payload = { ...formData, ...(specimenPayload?.length ? { specimens: specimenPayload } : {}) };
+      const payload = {
+        ...formData,
+        authors: buildAuthorsPayload(),
+        ...(specimenPayload?.length ? { specimens: specimenPayload } : {}),
+      };
       const created = await api.createItem(payload);
       setCreatedItemId(created.item.id ?? null);
       setImportReport(created.import_report);
@@ -665,7 +760,11 @@ function CreateItemForm({ onCreated, onClose }: CreateItemFormProps) {
     setConfirmReplaceLoading(true);
     setConfirmReplaceError(null);
     try {
-      const payload = { ...formData, ...(specimenPayload?.length ? { specimens: specimenPayload } : {}) };
+      const payload = {
+        ...formData,
+        authors: buildAuthorsPayload(),
+        ...(specimenPayload?.length ? { specimens: specimenPayload } : {}),
+      };
       const created = await api.createItem(payload, { confirmReplaceExistingId: confirmReplaceModal.existingId });
       setConfirmReplaceModal(null);
       setCreatedItemId(created.item.id ?? null);
@@ -791,6 +890,63 @@ function CreateItemForm({ onCreated, onClose }: CreateItemFormProps) {
         placeholder="YYYY"
       />
 
+      {/* Authors, linked to existing authorities when picked from the suggestions */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">{t('items.authors')}</label>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => setAuthors([...authors, { id: '', lastname: '', firstname: '', function: '' }])}
+            leftIcon={<Plus className="h-4 w-4" />}
+          >
+            {t('common.add')}
+          </Button>
+        </div>
+        <div className="space-y-2">
+          {authors.map((author, index) => (
+            <div key={index} className="flex flex-wrap items-center gap-2 p-2 rounded-lg bg-gray-50 dark:bg-gray-800/50">
+              <AuthorAutocomplete
+                placeholder={t('items.authorLastname')}
+                value={author.lastname}
+                onChange={(value) => handleAuthorChange(index, 'lastname', value)}
+                onSelect={(selected) => handleAuthorSelect(index, selected)}
+                excludeIds={authors.map((a) => a.id).filter(Boolean)}
+                className="flex-1 min-w-[100px]"
+              />
+              <Input
+                placeholder={t('items.authorFirstname')}
+                value={author.firstname}
+                onChange={(e) => handleAuthorChange(index, 'firstname', e.target.value)}
+                className="flex-1 min-w-[100px]"
+              />
+              <select
+                value={author.function}
+                onChange={(e) => handleAuthorChange(index, 'function', e.target.value)}
+                className="px-3 py-2 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 text-sm min-w-[120px]"
+              >
+                <option value="">{t('items.notSpecified')}</option>
+                {FUNCTION_OPTIONS.map((opt) => (
+                  <option key={opt.value} value={opt.value}>
+                    {t(opt.labelKey)}
+                  </option>
+                ))}
+              </select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setAuthors(authors.filter((_, i) => i !== index))}
+                className="text-red-600 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 shrink-0"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      </div>
+
       {/* Optional specimens: add one or more with source per specimen */}
       <div>
         <div className="flex items-center justify-between mb-2">
@@ -0,0 +1,410 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { CreditCard, BookMarked, RotateCcw, Printer, LogOut, Lock, Check, AlertTriangle, Clock } from 'lucide-react';
+import { Button, Input, Modal } from '@/components/common';
+import { useAuth } from '@/contexts/AuthContext';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import { printReceipt, type Receipt } from '@/utils/receipt';
+import type { KioskSession } from '@/types';
+
+/** Reader session is closed after this many seconds without interaction */
+const INACTIVITY_TIMEOUT_SECONDS = 90;
+/** Countdown shown to the reader during the last seconds */
+const INACTIVITY_WARNING_SECONDS = 20;
+
+type KioskMode = 'checkout' | 'return';
+
+interface KioskTransaction {
+  kind: KioskMode;
+  barcode: string;
+  title?: string | null;
+  dueDate?: string;
+  error?: string;
+}
+
+export default function KioskPage() {
+  const { t } = useTranslation();
+  const { logout } = useAuth();
+  const navigate = useNavigate();
+  const [session, setSession] = useState<KioskSession | null>(null);
+  const [showUnlock, setShowUnlock] = useState(false);
+
+  // Reached only once staff credentials are checked: readers cannot leave kiosk mode
+  const handleExitKiosk = () => {
+    logout();
+    navigate('/login');
+  };
+
+  return (
+    <div className="min-h-screen flex flex-col bg-gray-50 dark:bg-gray-950">
+      <header className="flex items-center justify-between px-8 h-20 bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800">
+        <div className="flex items-center gap-3">
+          <img src="/elidune_logo.png" alt="Elidune" className="h-12 w-12" />
+          <span className="text-2xl font-bold text-gray-900 dark:text-white">{t('kiosk.title')}</span>
+        </div>
+        <button
+          onClick={() => setShowUnlock(true)}
+          className="p-2 rounded-lg text-gray-300 hover:text-gray-500 dark:text-gray-700 dark:hover:text-gray-500"
+          title={t('kiosk.exit')}
+        >
+          <Lock className="h-5 w-5" />
+        </button>
+      </header>
+
+      <main className="flex-1 flex items-center justify-center p-8">
+        {session ? (
+          <KioskSessionPanel session={session} onEnd={() => setSession(null)} />
+        ) : (
+          <KioskIdentify onIdentified={setSession} />
+        )}
+      </main>
+
+      <Modal isOpen={showUnlock} onClose={() => setShowUnlock(false)} title={t('kiosk.exit')} size="sm">
+        {showUnlock && <KioskUnlockForm onUnlocked={handleExitKiosk} />}
+      </Modal>
+    </div>
+  );
+}
+
+// ─── Staff unlock ─────────────────────────────────────────────────────────────
+
+function KioskUnlockForm({ onUnlocked }: { onUnlocked: () => void }) {
+  const { t } = useTranslation();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsLoading(true);
+    try {
+      await api.unlockKiosk({ username: username.trim(), password });
+      onUnlocked();
+    } catch (error) {
+      console.error('Error unlocking kiosk:', error);
+      setError(getApiErrorMessage(error, t));
+      setPassword('');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <p className="text-sm text-gray-500 dark:text-gray-400">{t('kiosk.unlockHint')}</p>
+      <Input
+        label={t('auth.username')}
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+        autoComplete="off"
+        autoFocus
+        required
+      />
+      <Input
+        label={t('auth.password')}
+        type="password"
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+        autoComplete="off"
+        required
+      />
+      {error && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          <p className="text-sm font-medium text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+      <div className="flex justify-end">
+        <Button type="submit" isLoading={isLoading} disabled={!username.trim() || !password}>
+          {t('kiosk.exit')}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+// ─── Identification ───────────────────────────────────────────────────────────
+
+function KioskIdentify({ onIdentified }: { onIdentified: (session: KioskSession) => void }) {
+  const { t } = useTranslation();
+  const [barcode, setBarcode] = useState('');
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const barcodeInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!barcode.trim()) return;
+    setError('');
+    setIsLoading(true);
+    try {
+      const session = await api.openKioskSession({ barcode: barcode.trim(), pin: pin || undefined });
+      onIdentified(session);
+    } catch (error) {
+      console.error('Error opening kiosk session:', error);
+      setError(getApiErrorMessage(error, t));
+      setBarcode('');
+      setPin('');
+      barcodeInputRef.current?.focus();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="w-full max-w-lg space-y-6 p-8 rounded-2xl bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-800 shadow-sm"
+    >
+      <div className="text-center">
+        <CreditCard className="h-16 w-16 mx-auto mb-4 text-indigo-600 dark:text-indigo-400" />
+        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t('kiosk.welcome')}</h1>
+        <p className="mt-2 text-gray-500 dark:text-gray-400">{t('kiosk.scanCard')}</p>
+      </div>
+      <input
+        ref={barcodeInputRef}
+        value={barcode}
+        onChange={(e) => setBarcode(e.target.value)}
+        placeholder={t('kiosk.cardBarcode')}
+        autoFocus
+        autoComplete="off"
+        className="w-full px-5 py-4 text-xl rounded-xl border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20"
+      />
+      <input
+        type="password"
+        inputMode="numeric"
+        value={pin}
+        onChange={(e) => setPin(e.target.value)}
+        placeholder={t('kiosk.pinOptional')}
+        autoComplete="off"
+        className="w-full px-5 py-4 text-xl rounded-xl border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20"
+      />
+      {error && (
+        <div className="flex items-center gap-3 p-4 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+          <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0" />
+          <p className="text-red-800 dark:text-red-200">{error}</p>
+        </div>
+      )}
+      <Button type="submit" size="lg" className="w-full" isLoading={isLoading} disabled={!barcode.trim()}>
+        {t('kiosk.start')}
+      </Button>
+    </form>
+  );
+}
+
+// ─── Reader session ───────────────────────────────────────────────────────────
+
+interface KioskSessionPanelProps {
+  session: KioskSession;
+  onEnd: () => void;
+}
+
+function KioskSessionPanel({ session, onEnd }: KioskSessionPanelProps) {
+  const { t, i18n } = useTranslation();
+  const [mode, setMode] = useState<KioskMode>('checkout');
+  const [barcode, setBarcode] = useState('');
+  const [transactions, setTransactions] = useState<KioskTransaction[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [secondsLeft, setSecondsLeft] = useState(INACTIVITY_TIMEOUT_SECONDS);
+  const lastActivityRef = useRef(0);
+  const scanInputRef = useRef<HTMLInputElement>(null);
+
+  const readerName = `${session.user.firstname ?? ''} ${session.user.lastname ?? ''}`.trim();
+
+  const endSession = useCallback(() => {
+    api.closeKioskSession(session.session_id).catch((error) => console.error('Error closing kiosk session:', error));
+    onEnd();
+  }, [session.session_id, onEnd]);
+
+  // Inactivity logout: any touch or key press restarts the countdown
+  useEffect(() => {
+    lastActivityRef.current = Date.now();
+    const handleActivity = () => {
+      lastActivityRef.current = Date.now();
+    };
+    window.addEventListener('pointerdown', handleActivity);
+    window.addEventListener('keydown', handleActivity);
+    const intervalId = setInterval(() => {
+      const idleSeconds = (Date.now() - lastActivityRef.current) / 1000;
+      const left = Math.ceil(INACTIVITY_TIMEOUT_SECONDS - idleSeconds);
+      if (left <= 0) endSession();
+      else setSecondsLeft(left);
+    }, 1000);
+    return () => {
+      window.removeEventListener('pointerdown', handleActivity);
+      window.removeEventListener('keydown', handleActivity);
+      clearInterval(intervalId);
+    };
+  }, [endSession]);
+
+  const formatDate = (value?: string) =>
+    value ? new Date(value).toLocaleDateString(i18n.language, { weekday: 'long', day: 'numeric', month: 'long' }) : '-';
+
+  const handleScan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const specimenBarcode = barcode.trim();
+    if (!specimenBarcode || isProcessing) return;
+    setBarcode('');
+    setIsProcessing(true);
+    try {
+      if (mode === 'checkout') {
+        const loan = await api.kioskCheckout(session.session_id, specimenBarcode);
+        setTransactions((prev) => [
+          { kind: 'checkout', barcode: specimenBarcode, title: loan.item.title, dueDate: loan.issue_date },
+          ...prev,
+        ]);
+      } else {
+        const result = await api.kioskReturn(session.session_id, specimenBarcode);
+        setTransactions((prev) => [
+          { kind: 'return', barcode: specimenBarcode, title: result.loan.item.title },
+          ...prev,
+        ]);
+      }
+    } catch (error) {
+      console.error('Error processing kiosk transaction:', error);
+      setTransactions((prev) => [
+        { kind: mode, barcode: specimenBarcode, error: getApiErrorMessage(error, t) },
+        ...prev,
+      ]);
+    } finally {
+      setIsProcessing(false);
+      scanInputRef.current?.focus();
+    }
+  };
+
+  const succeeded = transactions.filter((tx) => !tx.error);
+
+  const handleFinish = (withSlip: boolean) => {
+    if (withSlip && succeeded.length > 0) {
+      const receipt: Receipt = {
+        title: t('kiosk.slipTitle'),
+        meta: [
+          `${t('loans.receipt.reader')}: ${readerName}`,
+          `${t('common.date')}: ${new Date().toLocaleString(i18n.language)}`,
+        ],
+        columns: [t('loans.document'), t('loans.specimenBarcode'), t('loans.dueDate')],
+        rows: [...succeeded].reverse().map((tx) => [
+          tx.title || t('loans.noTitle'),
+          tx.barcode,
+          tx.kind === 'checkout' ? formatDate(tx.dueDate) : t('kiosk.returned'),
+        ]),
+        footer: t('kiosk.slipFooter'),
+      };
+      if (!printReceipt(receipt)) alert(t('loans.receipt.popupBlocked'));
+    }
+    endSession();
+  };
+
+  const modeButtonClass = (value: KioskMode) =>
+    `flex-1 flex items-center justify-center gap-3 py-5 rounded-xl text-lg font-semibold transition-colors ${
+      mode === value
+        ? 'bg-indigo-600 text-white'
+        : 'bg-white dark:bg-gray-900 text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-gray-800'
+    }`;
+
+  return (
+    <div className="w-full max-w-3xl space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900 dark:text-white">{t('kiosk.hello', { name: readerName })}</h1>
+          <p className="text-gray-500 dark:text-gray-400">{t('loans.count', { count: session.loans.length })}</p>
+        </div>
+        {secondsLeft <= INACTIVITY_WARNING_SECONDS && (
+          <div className="flex items-center gap-2 px-4 py-2 rounded-full bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200">
+            <Clock className="h-5 w-5" />
+            {t('kiosk.endsIn', { count: secondsLeft })}
+          </div>
+        )}
+      </div>
+
+      <div className="flex gap-4">
+        <button
+          onClick={() => {
+            setMode('checkout');
+            scanInputRef.current?.focus();
+          }}
+          className={modeButtonClass('checkout')}
+        >
+          <BookMarked className="h-6 w-6" />
+          {t('kiosk.borrow')}
+        </button>
+        <button
+          onClick={() => {
+            setMode('return');
+            scanInputRef.current?.focus();
+          }}
+          className={modeButtonClass('return')}
+        >
+          <RotateCcw className="h-6 w-6" />
+          {t('kiosk.return')}
+        </button>
+      </div>
+
+      <form onSubmit={handleScan}>
+        <input
+          ref={scanInputRef}
+          value={barcode}
+          onChange={(e) => setBarcode(e.target.value)}
+          placeholder={mode === 'checkout' ? t('kiosk.scanToBorrow') : t('kiosk.scanToReturn')}
+          autoFocus
+          autoComplete="off"
+          disabled={isProcessing}
+          className="w-full px-5 py-4 text-xl rounded-xl border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 focus:border-indigo-500 focus:ring-2 focus:ring-indigo-500/20"
+        />
+      </form>
+
+      {transactions.length > 0 && (
+        <div className="divide-y divide-gray-200 dark:divide-gray-800 rounded-xl border border-gray-200 dark:border-gray-800 bg-white dark:bg-gray-900">
+          {transactions.map((tx, index) => (
+            <div key={`${tx.barcode}-${index}`} className="flex items-center gap-4 px-5 py-4">
+              {tx.error ? (
+                <AlertTriangle className="h-6 w-6 text-red-600 dark:text-red-400 flex-shrink-0" />
+              ) : (
+                <Check className="h-6 w-6 text-green-600 dark:text-green-400 flex-shrink-0" />
+              )}
+              <div className="flex-1 min-w-0">
+                <p className="text-lg font-medium text-gray-900 dark:text-white truncate">
+                  {tx.title || tx.barcode}
+                </p>
+                {tx.error ? (
+                  <p className="text-red-600 dark:text-red-400">{tx.error}</p>
+                ) : tx.kind === 'checkout' ? (
+                  <p className="text-gray-600 dark:text-gray-300">
+                    {t('kiosk.dueOn', { date: formatDate(tx.dueDate) })}
+                  </p>
+                ) : (
+                  <p className="text-gray-600 dark:text-gray-300">{t('kiosk.returned')}</p>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex flex-col sm:flex-row gap-4">
+        <Button
+          size="lg"
+          className="flex-1"
+          onClick={() => handleFinish(true)}
+          disabled={succeeded.length === 0}
+          leftIcon={<Printer className="h-5 w-5" />}
+        >
+          {t('kiosk.finishWithSlip')}
+        </Button>
+        <Button
+          size="lg"
+          variant="secondary"
+          className="flex-1"
+          onClick={() => handleFinish(false)}
+          leftIcon={<LogOut className="h-5 w-5" />}
+        >
+          {t('kiosk.finish')}
+        </Button>
+      </div>
+    </div>
+  );
+}
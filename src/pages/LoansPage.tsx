@@ -11,16 +11,40 @@ import {
   AlertTriangle,
   Calendar,
   BookOpen,
+  Bookmark,
+  Printer,
+  Download,
+  Trash2,
+  Wallet,
+  CalendarClock,
+  WifiOff,
+  FileWarning,
+  Ban,
+  Truck,
 } from 'lucide-react';
 import { Card, CardHeader, Button, Badge, Table, Input, Modal } from '@/components/common';
 import api from '@/services/api';
 import { getApiErrorMessage } from '@/utils/apiError';
-import type { User as UserType, Loan, UserShort } from '@/types';
+import { printReceipt, downloadReceiptPdf, type Receipt } from '@/utils/receipt';
+import { formatMoney, DEFAULT_FINE_SETTINGS } from '@/utils/money';
+import { getRenewalEligibility } from '@/utils/renewal';
+import { nextOpenDay } from '@/utils/calendar';
+import { isServerUnavailable } from '@/utils/offlineQueue';
+import { useOffline } from '@/contexts/useOffline';
+import RenewalInfo from '@/components/loans/RenewalInfo';
+import LoanStateBadge from '@/components/loans/LoanStateBadge';
+import LoanStateForm from '@/components/loans/LoanStateForm';
+import PatronNotices from '@/components/patrons/PatronNotices';
+import DeskSourceSelect from '@/components/transfers/DeskSourceSelect';
+import { getDeskSourceId } from '@/utils/deskSource';
+import { isCountedOverdue, hasLoanIssue } from '@/utils/loanState';
+import type { User as UserType, Loan, UserShort, LoanReturnResult, FineLedger, FineSettings, LoanSettings, OpeningCalendar, PatronStatus, PatronBlock, Source } from '@/types';
 
 type TabType = 'borrow' | 'return';
 
 export default function LoansPage() {
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
+  const { recordTransaction } = useOffline();
   const [activeTab, setActiveTab] = useState<TabType>('borrow');
   
   // Borrow section state
@@ -31,16 +55,29 @@ export default function LoansPage() {
   const [userSearchResults, setUserSearchResults] = useState<UserShort[]>([]);
   const [, setIsSearchingUsers] = useState(false);
   const [showBorrowModal, setShowBorrowModal] = useState(false);
-  const [barcodeInput, setBarcodeInput] = useState('');
-  const barcodeInputRef = useRef<HTMLInputElement>(null);
+  const [fineLedger, setFineLedger] = useState<FineLedger | null>(null);
+  const [patronStatus, setPatronStatus] = useState<PatronStatus | null>(null);
+  const [showPatronNotices, setShowPatronNotices] = useState(false);
+  const [fineSettings, setFineSettings] = useState<FineSettings>(DEFAULT_FINE_SETTINGS);
+  const [loanSettings, setLoanSettings] = useState<LoanSettings[]>([]);
+  /** Loan being reported lost, damaged or claimed returned */
+  const [stateLoan, setStateLoan] = useState<Loan | null>(null);
+  const [calendar, setCalendar] = useState<OpeningCalendar | null>(null);
   const userBarcodeInputRef = useRef<HTMLInputElement>(null);
 
   // Return section state
   const [returnBarcodeInput, setReturnBarcodeInput] = useState('');
   const returnBarcodeInputRef = useRef<HTMLInputElement>(null);
-  const [returnResult, setReturnResult] = useState<{ status: string; loan: Loan } | null>(null);
+  const [returnResult, setReturnResult] = useState<LoanReturnResult | null>(null);
   const [isProcessingReturn, setIsProcessingReturn] = useState(false);
   const [returnError, setReturnError] = useState('');
+  /** Barcode of the last return recorded in the offline queue */
+  const [offlineReturn, setOfflineReturn] = useState<string | null>(null);
+  const [sources, setSources] = useState<Source[]>([]);
+  /** Branch of this desk: copies of other branches returned here are routed back */
+  const [deskSourceId, setDeskSourceId] = useState(getDeskSourceId);
+  const [isRouting, setIsRouting] = useState(false);
+  const [routedTo, setRoutedTo] = useState<string | null>(null);
 
   // Search users by name or barcode
   useEffect(() => {
@@ -69,10 +106,31 @@ export default function LoansPage() {
     return () => clearTimeout(timeoutId);
   }, [userSearchQuery]);
 
+  // Renewal rules, fine warning threshold and opening calendar (due date previews)
+  useEffect(() => {
+    api
+      .getSettings()
+      .then((data) => {
+        setLoanSettings(data.loan_settings);
+        if (data.fine_settings) setFineSettings(data.fine_settings);
+      })
+      .catch((error) => console.error('Error fetching settings:', error));
+    api
+      .getOpeningCalendar()
+      .then(setCalendar)
+      .catch((error) => console.error('Error fetching opening calendar:', error));
+    api
+      .getSources()
+      .then(setSources)
+      .catch((error) => console.error('Error fetching sources:', error));
+  }, []);
+
   // Load user details and loans when user is selected
   useEffect(() => {
     if (!selectedUser) {
       setLoans([]);
+      setFineLedger(null);
+      setPatronStatus(null);
       return;
     }
 
@@ -89,6 +147,18 @@ export default function LoansPage() {
     };
 
     loadUserLoans();
+    api
+      .getUserFines(selectedUser.id)
+      .then(setFineLedger)
+      .catch((error) => console.error('Error fetching fines:', error));
+    // Blocks and alerts pop up as soon as the reader is selected
+    api
+      .getPatronStatus(selectedUser.id)
+      .then((status) => {
+        setPatronStatus(status);
+        setShowPatronNotices(status.blocks.length > 0 || status.alerts.length > 0);
+      })
+      .catch((error) => console.error('Error fetching patron blocks:', error));
   }, [selectedUser]);
 
   const handleUserSelect = async (user: UserShort) => {
@@ -128,25 +198,6 @@ export default function LoansPage() {
     }
   };
 
-  const handleBorrow = async (specimenBarcode: string) => {
-    if (!selectedUser || !specimenBarcode.trim()) {
-      throw new Error(t('loans.noUserSelected'));
-    }
-
-    try {
-      await api.createLoan({
-        user_id: selectedUser.id,
-        specimen_identification: specimenBarcode.trim(),
-      });
-      // Refresh loans
-      const loansData = await api.getUserLoans(selectedUser.id);
-      setLoans(loansData);
-    } catch (error: unknown) {
-      console.error('Error creating loan:', error);
-      throw new Error(getApiErrorMessage(error, t) || t('loans.errorCreatingLoan'));
-    }
-  };
-
   const handleReturn = async (loanId: string) => {
     try {
       await api.returnLoan(loanId);
@@ -161,6 +212,23 @@ export default function LoansPage() {
     }
   };
 
+  const handleRouteBack = async (result: LoanReturnResult) => {
+    if (!result.route_to || !result.loan.specimen_identification) return;
+    setIsRouting(true);
+    try {
+      await api.createTransfer({
+        specimen_barcode: result.loan.specimen_identification,
+        to_source_id: result.route_to.id,
+      });
+      setRoutedTo(result.route_to.id);
+    } catch (error) {
+      console.error('Error sending transfer:', error);
+      setReturnError(getApiErrorMessage(error, t));
+    } finally {
+      setIsRouting(false);
+    }
+  };
+
   const handleReturnByBarcode = async (specimenBarcode: string) => {
     if (!specimenBarcode.trim()) {
       throw new Error(t('loans.barcodeRequired'));
@@ -169,9 +237,11 @@ export default function LoansPage() {
     setIsProcessingReturn(true);
     setReturnError('');
     setReturnResult(null);
+    setOfflineReturn(null);
+    setRoutedTo(null);
 
     try {
-      const result = await api.returnLoanByBarcode(specimenBarcode.trim());
+      const result = await api.returnLoanByBarcode(specimenBarcode.trim(), undefined, deskSourceId || undefined);
       setReturnResult(result);
       setReturnBarcodeInput('');
       // Auto-focus for next scan
@@ -180,6 +250,19 @@ export default function LoansPage() {
       }, 500);
     } catch (error: unknown) {
       console.error('Error returning loan:', error);
+      if (isServerUnavailable(error)) {
+        try {
+          await recordTransaction({ kind: 'return', specimen_identification: specimenBarcode.trim() });
+          setOfflineReturn(specimenBarcode.trim());
+          setReturnBarcodeInput('');
+          setTimeout(() => {
+            returnBarcodeInputRef.current?.focus();
+          }, 500);
+          return;
+        } catch (queueError) {
+          console.error('Error recording offline return:', queueError);
+        }
+      }
       setReturnError(getApiErrorMessage(error, t) || t('loans.errorReturningLoan'));
       setTimeout(() => {
         returnBarcodeInputRef.current?.focus();
@@ -227,7 +310,8 @@ export default function LoansPage() {
       render: (loan: Loan) => (
         <div className="flex items-center gap-2">
           <span>{new Date(loan.issue_date).toLocaleDateString('fr-FR')}</span>
-          {loan.is_overdue && <Badge variant="danger">{t('loans.overdue')}</Badge>}
+          {isCountedOverdue(loan) && <Badge variant="danger">{t('loans.overdue')}</Badge>}
+          <LoanStateBadge state={loan.state} />
         </div>
       ),
     },
@@ -239,32 +323,49 @@ export default function LoansPage() {
     {
       key: 'actions',
       header: t('common.actions'),
-      render: (loan: Loan) => (
-        <div className="flex items-center gap-2">
-          <Button
-            size="sm"
-            variant="ghost"
-            onClick={(e) => {
-              e.stopPropagation();
-              handleRenewLoan(loan.id);
-            }}
-            leftIcon={<RotateCcw className="h-4 w-4" />}
-          >
-            {t('loans.renew')}
-          </Button>
-          <Button
-            size="sm"
-            variant="primary"
-            onClick={(e) => {
-              e.stopPropagation();
-              handleReturn(loan.id);
-            }}
-            leftIcon={<Check className="h-4 w-4" />}
-          >
-            {t('loans.return')}
-          </Button>
-        </div>
-      ),
+      render: (loan: Loan) => {
+        const eligibility = getRenewalEligibility(loan, loanSettings, selectedUser, calendar);
+        return (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleRenewLoan(loan.id);
+                }}
+                disabled={!eligibility.canRenew || hasLoanIssue(loan)}
+                leftIcon={<RotateCcw className="h-4 w-4" />}
+              >
+                {t('loans.renew')}
+              </Button>
+              <Button
+                size="sm"
+                variant="primary"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleReturn(loan.id);
+                }}
+                leftIcon={<Check className="h-4 w-4" />}
+              >
+                {t('loans.return')}
+              </Button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setStateLoan(loan);
+                }}
+                className="p-2 rounded-lg text-gray-400 hover:text-amber-600 hover:bg-gray-100 dark:hover:bg-gray-800"
+                title={t('loans.state.report')}
+              >
+                <FileWarning className="h-4 w-4" />
+              </button>
+            </div>
+            <RenewalInfo eligibility={eligibility} />
+          </div>
+        );
+      },
     },
   ];
 
@@ -282,7 +383,14 @@ export default function LoansPage() {
     }
   };
 
-  const overdueLoans = loans.filter((l) => l.is_overdue);
+  const overdueLoans = loans.filter(isCountedOverdue);
+  const fineWarning =
+    fineLedger && fineLedger.balance > fineSettings.warning_threshold
+      ? t('fines.checkoutWarning', {
+          amount: formatMoney(fineLedger.balance, i18n.language, fineLedger.currency ?? fineSettings.currency),
+          threshold: formatMoney(fineSettings.warning_threshold, i18n.language, fineLedger.currency ?? fineSettings.currency),
+        })
+      : '';
 
   return (
     <div className="space-y-6">
@@ -459,6 +567,17 @@ export default function LoansPage() {
                       </span>
                     </div>
                   )}
+                  {fineWarning && (
+                    <div className="mt-3 flex items-center gap-2 text-amber-600 dark:text-amber-400">
+                      <Wallet className="h-4 w-4" />
+                      <span className="text-sm">{fineWarning}</span>
+                    </div>
+                  )}
+                  {patronStatus && (patronStatus.blocks.length > 0 || patronStatus.alerts.length > 0) && (
+                    <div className="mt-3">
+                      <PatronNotices status={patronStatus} />
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -491,25 +610,54 @@ export default function LoansPage() {
             </Card>
           )}
 
-          {/* Borrow Modal */}
+          {/* Checkout session modal */}
           <Modal
             isOpen={showBorrowModal}
-            onClose={() => {
-              setShowBorrowModal(false);
-              setBarcodeInput('');
-            }}
-            title={t('loans.newLoan')}
+            onClose={() => setShowBorrowModal(false)}
+            title={t('loans.checkout.title')}
+            size="lg"
           >
-            <BorrowForm
-              onBorrow={handleBorrow}
-              barcodeInput={barcodeInput}
-              setBarcodeInput={setBarcodeInput}
-              barcodeInputRef={barcodeInputRef}
-              onSuccess={() => {
-                setShowBorrowModal(false);
-                setBarcodeInput('');
-              }}
-            />
+            {selectedUser && (
+              <CheckoutSession
+                user={selectedUser}
+                warning={fineWarning}
+                blocks={patronStatus?.blocks ?? []}
+                loanSettings={loanSettings}
+                calendar={calendar}
+                onLoansChanged={setLoans}
+                onClose={() => setShowBorrowModal(false)}
+              />
+            )}
+          </Modal>
+
+          {/* Blocks and alerts of the selected reader */}
+          <Modal
+            isOpen={showPatronNotices}
+            onClose={() => setShowPatronNotices(false)}
+            title={t('patrons.noticesTitle')}
+          >
+            <PatronNotices status={patronStatus} />
+            <div className="flex justify-end pt-4">
+              <Button onClick={() => setShowPatronNotices(false)}>{t('patrons.acknowledge')}</Button>
+            </div>
+          </Modal>
+
+          {/* Lost / damaged / claims returned */}
+          <Modal isOpen={stateLoan !== null} onClose={() => setStateLoan(null)} title={t('loans.state.report')}>
+            {stateLoan && (
+              <LoanStateForm
+                loan={stateLoan}
+                onSuccess={async () => {
+                  setStateLoan(null);
+                  if (!selectedUser) return;
+                  try {
+                    setLoans(await api.getUserLoans(selectedUser.id));
+                  } catch (error) {
+                    console.error('Error fetching loans:', error);
+                  }
+                }}
+              />
+            )}
           </Modal>
         </>
       )}
@@ -517,7 +665,10 @@ export default function LoansPage() {
       {/* Return Tab */}
       {activeTab === 'return' && (
         <Card>
-          <CardHeader title={t('loans.returnLoan')} />
+          <CardHeader
+            title={t('loans.returnLoan')}
+            action={<DeskSourceSelect sources={sources} value={deskSourceId} onChange={setDeskSourceId} />}
+          />
           <div className="space-y-6">
             {/* Barcode input */}
             <div>
@@ -569,6 +720,17 @@ export default function LoansPage() {
             )}
 
             {/* Return result display */}
+            {offlineReturn && (
+              <div className="p-4 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+                <div className="flex items-start gap-3">
+                  <WifiOff className="h-5 w-5 text-amber-600 dark:text-amber-500 flex-shrink-0 mt-0.5" />
+                  <p className="text-sm font-medium text-amber-800 dark:text-amber-200">
+                    {t('offline.returnQueued', { barcode: offlineReturn })}
+                  </p>
+                </div>
+              </div>
+            )}
+
             {returnResult && (
               <div className="p-6 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800">
                 <div className="flex items-start gap-3 mb-4">
@@ -585,6 +747,51 @@ export default function LoansPage() {
                   </div>
                 </div>
 
+                {/* Copy of another branch: send it back in transit */}
+                {returnResult.route_to && (
+                  <div className="flex items-start gap-3 p-4 mb-4 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+                    <Truck className="h-5 w-5 text-amber-600 dark:text-amber-500 flex-shrink-0 mt-0.5" />
+                    <div className="flex-1">
+                      <p className="font-medium text-amber-800 dark:text-amber-200">
+                        {t('transfers.routeTo', { destination: returnResult.route_to.name || returnResult.route_to.key })}
+                      </p>
+                      {routedTo ? (
+                        <p className="text-sm text-amber-700 dark:text-amber-300">{t('transfers.routed')}</p>
+                      ) : (
+                        <Button
+                          size="sm"
+                          variant="secondary"
+                          className="mt-2"
+                          isLoading={isRouting}
+                          onClick={() => handleRouteBack(returnResult)}
+                          leftIcon={<Truck className="h-4 w-4" />}
+                        >
+                          {t('transfers.sendAction')}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )}
+
+                {/* Reserved copy: must be set aside for the next reader in the queue */}
+                {returnResult.hold && (
+                  <div className="flex items-start gap-3 p-4 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+                    <Bookmark className="h-5 w-5 text-amber-600 dark:text-amber-500 flex-shrink-0 mt-0.5" />
+                    <div>
+                      <p className="font-medium text-amber-800 dark:text-amber-200">
+                        {t('holds.returnReserved')}
+                      </p>
+                      {returnResult.hold.user && (
+                        <p className="text-sm text-amber-700 dark:text-amber-300">
+                          {t('holds.setAsideFor', {
+                            name: `${returnResult.hold.user.firstname ?? ''} ${returnResult.hold.user.lastname ?? ''}`.trim(),
+                          })}
+                        </p>
+                      )}
+                    </div>
+                  </div>
+                )}
+
                 <div className="space-y-4 mt-6">
                   {/* Document info */}
                   <div className="bg-white dark:bg-gray-900 rounded-lg p-4 border border-gray-200 dark:border-gray-700">
@@ -690,79 +897,339 @@ export default function LoansPage() {
   );
 }
 
-interface BorrowFormProps {
-  onBorrow: (barcode: string) => Promise<void>;
-  barcodeInput: string;
-  setBarcodeInput: (value: string) => void;
-  barcodeInputRef: React.RefObject<HTMLInputElement | null>;
-  onSuccess?: () => void;
+/** 'offline': the server could not be reached, the checkout waits in the offline queue */
+type CheckoutLineStatus = 'queued' | 'processing' | 'done' | 'error' | 'offline';
+
+interface CheckoutLine {
+  barcode: string;
+  status: CheckoutLineStatus;
+  error?: string;
+  loanId?: string;
+}
+
+interface CheckoutSessionProps {
+  user: UserType;
+  /** Shown above the scan field (e.g. outstanding fines over the threshold) */
+  warning?: string;
+  /** Blocks of the reader: checking out then requires an override reason */
+  blocks: PatronBlock[];
+  /** Used to preview the due dates of the session, pushed to the next open day */
+  loanSettings: LoanSettings[];
+  calendar: OpeningCalendar | null;
+  onLoansChanged: (loans: Loan[]) => void;
+  onClose: () => void;
 }
 
-function BorrowForm({ onBorrow, barcodeInput, setBarcodeInput, barcodeInputRef, onSuccess }: BorrowFormProps) {
-  const { t } = useTranslation();
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState('');
+/**
+ * Desk checkout: specimens are scanned into a running list, then checked out together.
+ * Each line keeps its own error (already on loan, limit reached...) so it can be fixed or removed,
+ * and the successful loans make up the receipt.
+ */
+function CheckoutSession({ user, warning, blocks, loanSettings, calendar, onLoansChanged, onClose }: CheckoutSessionProps) {
+  const { t, i18n } = useTranslation();
+  const [lines, setLines] = useState<CheckoutLine[]>([]);
+  const [barcodeInput, setBarcodeInput] = useState('');
+  const [scanError, setScanError] = useState('');
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [receiptLoans, setReceiptLoans] = useState<Loan[]>([]);
+  const [completedAt, setCompletedAt] = useState<Date | null>(null);
+  const { recordTransaction } = useOffline();
+  const [today] = useState(() => new Date());
+  const [overrideReason, setOverrideReason] = useState('');
+  const isBlocked = blocks.length > 0;
+  const barcodeInputRef = useRef<HTMLInputElement>(null);
+
+  const pendingLines = lines.filter((l) => l.status === 'queued' || l.status === 'error');
+  const offlineLines = lines.filter((l) => l.status === 'offline');
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  // One preview per distinct loan duration configured in the settings
+  const dueDatePreviews = [...new Set(loanSettings.map((s) => s.duration_days))]
+    .sort((a, b) => a - b)
+    .map((days) => {
+      const due = new Date(today);
+      due.setDate(due.getDate() + days);
+      const pushed = nextOpenDay(due, calendar);
+      return { days, due: pushed, isPushed: pushed.getTime() !== due.getTime() };
+    });
+
+  const handleScan = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!barcodeInput.trim()) return;
+    const barcode = barcodeInput.trim();
+    if (!barcode) return;
+    if (lines.some((l) => l.barcode === barcode)) {
+      setScanError(t('loans.checkout.alreadyScanned', { barcode }));
+    } else {
+      setLines((prev) => [...prev, { barcode, status: 'queued' }]);
+      setScanError('');
+    }
+    setBarcodeInput('');
+    barcodeInputRef.current?.focus();
+  };
+
+  const updateLine = (barcode: string, patch: Partial<CheckoutLine>) => {
+    setLines((prev) => prev.map((l) => (l.barcode === barcode ? { ...l, ...patch } : l)));
+  };
+
+  const handleRemove = (barcode: string) => {
+    setLines((prev) => prev.filter((l) => l.barcode !== barcode));
+  };
+
+  const handleCommit = async () => {
+    if (pendingLines.length === 0) return;
+    setIsCommitting(true);
+    const createdIds: string[] = [];
+    const createdBarcodes: string[] = [];
+    let recordedOffline = 0;
+
+    // Sequential on purpose: the server checks loan quotas against previous loans of the session
+    for (const line of pendingLines) {
+      updateLine(line.barcode, { status: 'processing', error: undefined });
+      try {
+        const result = await api.createLoan({
+          user_id: user.id,
+          specimen_identification: line.barcode,
+          ...(isBlocked ? { force: true, override_reason: overrideReason.trim() } : {}),
+        });
+        createdIds.push(result.id);
+        createdBarcodes.push(line.barcode);
+        updateLine(line.barcode, { status: 'done', loanId: result.id });
+      } catch (error) {
+        console.error('Error creating loan:', error);
+        if (isServerUnavailable(error)) {
+          try {
+            await recordTransaction({
+              kind: 'checkout',
+              user_id: user.id,
+              specimen_identification: line.barcode,
+              user_label: `${user.firstname ?? ''} ${user.lastname ?? ''}`.trim(),
+              ...(isBlocked ? { force: true, override_reason: overrideReason.trim() } : {}),
+            });
+            updateLine(line.barcode, { status: 'offline' });
+            recordedOffline++;
+            continue;
+          } catch (queueError) {
+            console.error('Error recording offline checkout:', queueError);
+          }
+        }
+        updateLine(line.barcode, {
+          status: 'error',
+          error: getApiErrorMessage(error, t) || t('loans.errorCreatingLoan'),
+        });
+      }
+    }
+    if (recordedOffline > 0) setCompletedAt(new Date());
 
-    setError('');
-    setIsLoading(true);
     try {
-      await onBorrow(barcodeInput);
-      setBarcodeInput('');
-      setError('');
-      if (onSuccess) {
-        onSuccess();
-      } else {
-        barcodeInputRef.current?.focus();
+      const loansData = await api.getUserLoans(user.id);
+      onLoansChanged(loansData);
+      const created = loansData.filter(
+        (l) =>
+          createdIds.includes(l.id) ||
+          (l.specimen_identification != null && createdBarcodes.includes(l.specimen_identification))
+      );
+      if (created.length > 0) {
+        setReceiptLoans((prev) => [...prev, ...created.filter((l) => !prev.some((p) => p.id === l.id))]);
+        setCompletedAt(new Date());
       }
-    } catch (err: any) {
-      const errorMessage = err?.message || 
-                          err?.response?.data?.message || 
-                          err?.response?.data?.error || 
-                          t('loans.errorCreatingLoan');
-      setError(errorMessage);
-      setTimeout(() => {
-        barcodeInputRef.current?.focus();
-        barcodeInputRef.current?.select();
-      }, 100);
+    } catch (error) {
+      console.error('Error loading loans:', error);
     } finally {
-      setIsLoading(false);
+      setIsCommitting(false);
+      barcodeInputRef.current?.focus();
     }
   };
 
+  const handleNewSession = () => {
+    setLines([]);
+    setReceiptLoans([]);
+    setCompletedAt(null);
+    setScanError('');
+    barcodeInputRef.current?.focus();
+  };
+
+  const buildReceipt = (): Receipt => {
+    const readerName = `${user.firstname ?? ''} ${user.lastname ?? ''}`.trim();
+    return {
+      title: t('loans.receipt.title'),
+      meta: [
+        `${t('loans.receipt.reader')}: ${readerName}${user.barcode ? ` (${user.barcode})` : ''}`,
+        `${t('common.date')}: ${(completedAt ?? new Date()).toLocaleString(i18n.language)}`,
+      ],
+      columns: [t('loans.document'), t('loans.specimenBarcode'), t('loans.dueDate')],
+      rows: [
+        ...receiptLoans.map((loan) => [
+          loan.item.title || t('loans.noTitle'),
+          loan.specimen_identification ?? '-',
+          new Date(loan.issue_date).toLocaleDateString(i18n.language),
+        ]),
+        // Recorded offline: title and due date are only known once the queue is replayed
+        ...offlineLines.map((line) => [t('offline.recordedOffline'), line.barcode, '-']),
+      ],
+      footer: t('loans.receipt.footer', { count: receiptLoans.length + offlineLines.length }),
+    };
+  };
+
+  const handlePrint = () => {
+    if (!printReceipt(buildReceipt())) {
+      alert(t('loans.receipt.popupBlocked'));
+    }
+  };
+
+  const handleDownload = () => {
+    const stamp = (completedAt ?? new Date()).toISOString().slice(0, 10);
+    downloadReceiptPdf(buildReceipt(), `receipt-${user.barcode || user.id}-${stamp}.pdf`);
+  };
+
   return (
-    <form onSubmit={handleSubmit} className="space-y-4">
-      <Input
-        ref={barcodeInputRef}
-        label={t('loans.specimenBarcode')}
-        value={barcodeInput}
-        onChange={(e) => {
-          setBarcodeInput(e.target.value);
-          if (error) setError('');
-        }}
-        placeholder={t('loans.scanOrEnterBarcode')}
-        autoFocus
-        required
-        onKeyDown={(e) => {
-          if (e.key === 'Enter') {
-            e.preventDefault();
-            handleSubmit(e);
-          }
-        }}
-      />
-      {error && (
-        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
-          <p className="text-sm font-medium text-red-800 dark:text-red-200">{error}</p>
+    <div className="space-y-4">
+      {warning && (
+        <div className="flex items-start gap-3 p-3 rounded-lg bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800">
+          <Wallet className="h-5 w-5 text-amber-600 dark:text-amber-500 flex-shrink-0" />
+          <p className="text-sm font-medium text-amber-800 dark:text-amber-200">{warning}</p>
+        </div>
+      )}
+
+      {isBlocked && (
+        <div className="p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 space-y-3">
+          <div className="flex items-start gap-3">
+            <Ban className="h-5 w-5 text-red-600 dark:text-red-400 flex-shrink-0" />
+            <div className="text-sm text-red-800 dark:text-red-200">
+              <p className="font-medium">{t('patrons.checkoutBlocked')}</p>
+              <p>{blocks.map((block) => t(`patrons.block.${block.kind}`)).join(', ')}</p>
+            </div>
+          </div>
+          <Input
+            label={t('patrons.overrideReason')}
+            value={overrideReason}
+            onChange={(e) => setOverrideReason(e.target.value)}
+            hint={t('patrons.overrideHint')}
+          />
+        </div>
+      )}
+
+      {dueDatePreviews.length > 0 && (
+        <div className="flex items-start gap-3 p-3 rounded-lg bg-gray-50 dark:bg-gray-800/50">
+          <CalendarClock className="h-5 w-5 text-gray-400 flex-shrink-0" />
+          <div className="text-sm text-gray-600 dark:text-gray-300">
+            <p className="font-medium">{t('loans.checkout.dueDatePreview')}</p>
+            {dueDatePreviews.map((preview) => (
+              <p key={preview.days}>
+                {t('loans.checkout.dueInDays', { count: preview.days })}:{' '}
+                {preview.due.toLocaleDateString(i18n.language, { weekday: 'short', day: 'numeric', month: 'short' })}
+                {preview.isPushed && (
+                  <span className="text-amber-600 dark:text-amber-400"> ({t('loans.checkout.pushedToOpenDay')})</span>
+                )}
+              </p>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleScan}>
+        <Input
+          ref={barcodeInputRef}
+          label={t('loans.specimenBarcode')}
+          value={barcodeInput}
+          onChange={(e) => {
+            setBarcodeInput(e.target.value);
+            if (scanError) setScanError('');
+          }}
+          placeholder={t('loans.scanOrEnterBarcode')}
+          error={scanError || undefined}
+          hint={t('loans.checkout.scanHint')}
+          autoFocus
+        />
+      </form>
+
+      {/* Scanned specimens */}
+      {lines.length > 0 && (
+        <div className="divide-y divide-gray-200 dark:divide-gray-700 rounded-lg border border-gray-200 dark:border-gray-700">
+          {lines.map((line) => {
+            const loan = receiptLoans.find(
+              (l) => l.id === line.loanId || l.specimen_identification === line.barcode
+            );
+            return (
+              <div key={line.barcode} className="flex items-start gap-3 px-4 py-3">
+                <div className="flex-1 min-w-0">
+                  <p className="font-mono text-sm text-gray-900 dark:text-white">{line.barcode}</p>
+                  {loan && (
+                    <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                      {loan.item.title || t('loans.noTitle')} · {t('loans.dueDate')}:{' '}
+                      {new Date(loan.issue_date).toLocaleDateString(i18n.language)}
+                    </p>
+                  )}
+                  {line.status === 'error' && line.error && (
+                    <p className="text-sm text-red-600 dark:text-red-400">{line.error}</p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  {line.status === 'queued' && <Badge>{t('loans.checkout.queued')}</Badge>}
+                  {line.status === 'processing' && (
+                    <div className="h-4 w-4 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin" />
+                  )}
+                  {line.status === 'done' && <Badge variant="success">{t('loans.checkout.done')}</Badge>}
+                  {line.status === 'error' && <Badge variant="danger">{t('common.error')}</Badge>}
+                  {line.status === 'offline' && <Badge variant="warning">{t('offline.recordedOffline')}</Badge>}
+                  {(line.status === 'queued' || line.status === 'error') && (
+                    <button
+                      type="button"
+                      onClick={() => handleRemove(line.barcode)}
+                      disabled={isCommitting}
+                      className="p-1 rounded text-gray-400 hover:text-red-600 dark:hover:text-red-400 disabled:opacity-50"
+                      title={t('common.delete')}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
         </div>
       )}
-      <div className="flex justify-end gap-2 pt-4">
-        <Button type="submit" isLoading={isLoading}>
-          {t('loans.borrow')}
+
+      {/* Receipt */}
+      {(receiptLoans.length > 0 || offlineLines.length > 0) && (
+        <div className="p-4 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div className="text-sm font-medium text-green-800 dark:text-green-200">
+              {receiptLoans.length > 0 && <p>{t('loans.checkout.completed', { count: receiptLoans.length })}</p>}
+              {offlineLines.length > 0 && (
+                <p className="text-amber-700 dark:text-amber-300">
+                  {t('offline.checkoutsQueued', { count: offlineLines.length })}
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <Button size="sm" variant="secondary" onClick={handlePrint} leftIcon={<Printer className="h-4 w-4" />}>
+                {t('loans.receipt.print')}
+              </Button>
+              <Button size="sm" variant="secondary" onClick={handleDownload} leftIcon={<Download className="h-4 w-4" />}>
+                {t('loans.receipt.pdf')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      <div className="flex justify-between gap-2 pt-2">
+        <Button variant="ghost" onClick={handleNewSession} disabled={isCommitting || lines.length === 0}>
+          {t('loans.checkout.newSession')}
         </Button>
+        <div className="flex gap-2">
+          <Button variant="secondary" onClick={onClose} disabled={isCommitting}>
+            {t('common.close')}
+          </Button>
+          <Button
+            onClick={handleCommit}
+            isLoading={isCommitting}
+            disabled={pendingLines.length === 0 || (isBlocked && !overrideReason.trim())}
+            leftIcon={<BookMarked className="h-4 w-4" />}
+          >
+            {t('loans.checkout.commit', { count: pendingLines.length })}
+          </Button>
+        </div>
       </div>
-    </form>
+    </div>
   );
 }
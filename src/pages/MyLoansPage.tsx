@@ -1,23 +1,49 @@
 import { useState, useEffect } from 'react';
 import { useTranslation } from 'react-i18next';
-import { BookOpen, Calendar, RotateCcw, AlertTriangle } from 'lucide-react';
-import { Card, CardHeader, Button, Badge } from '@/components/common';
+import { Link } from 'react-router-dom';
+import { BookOpen, Calendar, CalendarPlus, RotateCcw, AlertTriangle, BookMarked, Bookmark, BookmarkX, History } from 'lucide-react';
+import { Card, CardHeader, Button, Badge, Modal } from '@/components/common';
+import HoldStatusBadge from '@/components/holds/HoldStatusBadge';
+import RenewalInfo from '@/components/loans/RenewalInfo';
+import LoanHistory from '@/components/loans/LoanHistory';
+import LoanStateBadge from '@/components/loans/LoanStateBadge';
+import DueDateCalendarExport from '@/components/loans/DueDateCalendarExport';
 import { useAuth } from '@/contexts/AuthContext';
 import api from '@/services/api';
-import type { Loan } from '@/types';
+import { getApiErrorMessage } from '@/utils/apiError';
+import { getRenewalEligibility, type RenewalEligibility } from '@/utils/renewal';
+import { isCountedOverdue, hasLoanIssue } from '@/utils/loanState';
+import type { Loan, Hold, LoanSettings, OpeningCalendar } from '@/types';
+
+type TabType = 'loans' | 'holds' | 'history';
 
 export default function MyLoansPage() {
   const { t } = useTranslation();
   const { user } = useAuth();
   const [loans, setLoans] = useState<Loan[]>([]);
+  const [holds, setHolds] = useState<Hold[]>([]);
+  const [loanSettings, setLoanSettings] = useState<LoanSettings[]>([]);
+  const [calendar, setCalendar] = useState<OpeningCalendar | null>(null);
+  const [activeTab, setActiveTab] = useState<TabType>('loans');
   const [isLoading, setIsLoading] = useState(true);
+  const [showCalendarExport, setShowCalendarExport] = useState(false);
 
   useEffect(() => {
     const fetchLoans = async () => {
       if (!user?.id) return;
       try {
-        const data = await api.getUserLoans(user.id);
-        setLoans(data);
+        const [loansData, holdsData, settingsData, calendarData] = await Promise.all([
+          api.getUserLoans(user.id),
+          // Loans stay visible even if holds cannot be loaded
+          api.getHolds({ user_id: user.id }).catch(() => []),
+          // Renewal rules; falls back to defaults when settings are not readable
+          api.getSettings().catch(() => null),
+          api.getOpeningCalendar().catch(() => null),
+        ]);
+        setLoans(loansData);
+        if (settingsData) setLoanSettings(settingsData.loan_settings);
+        setCalendar(calendarData);
+        setHolds(holdsData.filter((h) => h.status === 'pending' || h.status === 'ready'));
       } catch (error) {
         console.error('Error fetching loans:', error);
       } finally {
@@ -38,11 +64,21 @@ export default function MyLoansPage() {
       }
     } catch (error) {
       console.error('Error renewing loan:', error);
+      alert(getApiErrorMessage(error, t) || t('loans.errorRenewingLoan'));
+    }
+  };
+
+  const handleCancelHold = async (holdId: string) => {
+    try {
+      await api.cancelHold(holdId);
+      setHolds((prev) => prev.filter((h) => h.id !== holdId));
+    } catch (error) {
+      console.error('Error cancelling hold:', error);
     }
   };
 
-  const overdueLoans = loans.filter((l) => l.is_overdue);
-  const activeLoans = loans.filter((l) => !l.is_overdue);
+  const overdueLoans = loans.filter(isCountedOverdue);
+  const activeLoans = loans.filter((l) => !isCountedOverdue(l));
 
   if (isLoading) {
     return (
@@ -55,70 +91,224 @@ export default function MyLoansPage() {
   return (
     <div className="space-y-6">
       {/* Header */}
-      <div>
-        <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t('loans.myLoans')}</h1>
-        <p className="text-gray-500 dark:text-gray-400">
-          {t('loans.count', { count: loans.length })}
-        </p>
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t('loans.myLoans')}</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            {t('loans.count', { count: loans.length })}
+          </p>
+        </div>
+        <Button
+          variant="secondary"
+          onClick={() => setShowCalendarExport(true)}
+          leftIcon={<CalendarPlus className="h-4 w-4" />}
+        >
+          {t('loans.calendar.addToCalendar')}
+        </Button>
       </div>
 
-      {/* Overdue loans alert */}
-      {overdueLoans.length > 0 && (
-        <div className="flex items-start gap-3 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl">
-          <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-500 flex-shrink-0 mt-0.5" />
-          <div>
-            <p className="font-medium text-red-800 dark:text-red-200">
-              {t('loans.overdueCount', { count: overdueLoans.length })}
-            </p>
-          </div>
-        </div>
+      {/* Tabs */}
+      <div className="border-b border-gray-200 dark:border-gray-800">
+        <nav className="-mb-px flex space-x-8">
+          <button
+            onClick={() => setActiveTab('loans')}
+            className={`py-4 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'loans'
+                ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <BookMarked className="h-5 w-5" />
+              {t('loans.activeLoans')}
+            </div>
+          </button>
+          <button
+            onClick={() => setActiveTab('holds')}
+            className={`py-4 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'holds'
+                ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <Bookmark className="h-5 w-5" />
+              {t('holds.myHolds')}
+              {holds.length > 0 && <Badge size="sm">{holds.length}</Badge>}
+            </div>
+          </button>
+          <button
+            onClick={() => setActiveTab('history')}
+            className={`py-4 px-1 border-b-2 font-medium text-sm ${
+              activeTab === 'history'
+                ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+            }`}
+          >
+            <div className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              {t('loans.history.title')}
+            </div>
+          </button>
+        </nav>
+      </div>
+
+      {activeTab === 'history' && user?.id && (
+        <LoanHistory userId={user.id} retentionDisabled={user.keep_loan_history === false} />
       )}
 
-      {/* Overdue loans */}
-      {overdueLoans.length > 0 && (
+      {activeTab === 'holds' && (
         <Card>
-          <CardHeader
-            title={t('loans.overdue')}
-            subtitle={t('items.count', { count: overdueLoans.length })}
-          />
-          <div className="space-y-3">
-            {overdueLoans.map((loan) => (
-              <LoanCard key={loan.id} loan={loan} onRenew={handleRenewLoan} isOverdue />
-            ))}
-          </div>
+          <CardHeader title={t('holds.myHolds')} subtitle={t('holds.count', { count: holds.length })} />
+          {holds.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+              <Bookmark className="h-12 w-12 mx-auto mb-3 opacity-30" />
+              <p>{t('holds.noHolds')}</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {holds.map((hold) => (
+                <HoldCard key={hold.id} hold={hold} onCancel={handleCancelHold} />
+              ))}
+            </div>
+          )}
         </Card>
       )}
 
-      {/* Active loans */}
-      <Card>
-        <CardHeader
-          title={t('loans.activeLoans')}
-          subtitle={t('items.count', { count: activeLoans.length })}
-        />
-        {activeLoans.length === 0 ? (
-          <div className="text-center py-8 text-gray-500 dark:text-gray-400">
-            <BookOpen className="h-12 w-12 mx-auto mb-3 opacity-30" />
-            <p>{t('loans.noLoans')}</p>
-          </div>
-        ) : (
-          <div className="space-y-3">
-            {activeLoans.map((loan) => (
-              <LoanCard key={loan.id} loan={loan} onRenew={handleRenewLoan} />
-            ))}
+      {activeTab === 'loans' && (
+        <>
+          {/* Overdue loans alert */}
+          {overdueLoans.length > 0 && (
+            <div className="flex items-start gap-3 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-xl">
+              <AlertTriangle className="h-5 w-5 text-red-600 dark:text-red-500 flex-shrink-0 mt-0.5" />
+              <div>
+                <p className="font-medium text-red-800 dark:text-red-200">
+                  {t('loans.overdueCount', { count: overdueLoans.length })}
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Overdue loans */}
+          {overdueLoans.length > 0 && (
+            <Card>
+              <CardHeader
+                title={t('loans.overdue')}
+                subtitle={t('items.count', { count: overdueLoans.length })}
+              />
+              <div className="space-y-3">
+                {overdueLoans.map((loan) => (
+                  <LoanCard
+                    key={loan.id}
+                    loan={loan}
+                    eligibility={getRenewalEligibility(loan, loanSettings, user, calendar)}
+                    onRenew={handleRenewLoan}
+                    isOverdue
+                  />
+                ))}
+              </div>
+            </Card>
+          )}
+
+          {/* Active loans */}
+          <Card>
+            <CardHeader
+              title={t('loans.activeLoans')}
+              subtitle={t('items.count', { count: activeLoans.length })}
+            />
+            {activeLoans.length === 0 ? (
+              <div className="text-center py-8 text-gray-500 dark:text-gray-400">
+                <BookOpen className="h-12 w-12 mx-auto mb-3 opacity-30" />
+                <p>{t('loans.noLoans')}</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {activeLoans.map((loan) => (
+                  <LoanCard
+                    key={loan.id}
+                    loan={loan}
+                    eligibility={getRenewalEligibility(loan, loanSettings, user, calendar)}
+                    onRenew={handleRenewLoan}
+                  />
+                ))}
+              </div>
+            )}
+          </Card>
+        </>
+      )}
+
+      <Modal
+        isOpen={showCalendarExport}
+        onClose={() => setShowCalendarExport(false)}
+        title={t('loans.calendar.addToCalendar')}
+      >
+        {showCalendarExport && <DueDateCalendarExport loans={loans} />}
+      </Modal>
+    </div>
+  );
+}
+
+interface HoldCardProps {
+  hold: Hold;
+  onCancel: (id: string) => void;
+}
+
+function HoldCard({ hold, onCancel }: HoldCardProps) {
+  const { t, i18n } = useTranslation();
+
+  return (
+    <div
+      className={`flex flex-col sm:flex-row sm:items-center gap-4 p-4 rounded-xl border ${
+        hold.status === 'ready'
+          ? 'border-green-200 dark:border-green-800 bg-green-50 dark:bg-green-900/10'
+          : 'border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800/50'
+      }`}
+    >
+      <div className="flex-shrink-0 h-14 w-14 rounded-xl bg-indigo-100 dark:bg-indigo-900/50 flex items-center justify-center">
+        <Bookmark className="h-7 w-7 text-indigo-600 dark:text-indigo-400" />
+      </div>
+
+      <div className="flex-1 min-w-0">
+        <Link
+          to={`/items/${hold.item.id}`}
+          className="font-medium text-gray-900 dark:text-white truncate hover:underline block"
+        >
+          {hold.item.title || t('items.notSpecified')}
+        </Link>
+        <div className="flex flex-wrap items-center gap-4 mt-2 text-sm text-gray-500 dark:text-gray-400">
+          <div className="flex items-center gap-1">
+            <Calendar className="h-4 w-4" />
+            <span>{t('holds.placedOn')}: {new Date(hold.created_at).toLocaleDateString(i18n.language)}</span>
           </div>
-        )}
-      </Card>
+          {hold.status === 'ready' && hold.expires_at && (
+            <span>{t('holds.pickupBefore', { date: new Date(hold.expires_at).toLocaleDateString(i18n.language) })}</span>
+          )}
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:items-end gap-2">
+        <HoldStatusBadge status={hold.status} position={hold.position} />
+        <Button
+          size="sm"
+          variant="secondary"
+          onClick={() => onCancel(hold.id)}
+          leftIcon={<BookmarkX className="h-4 w-4" />}
+        >
+          {t('holds.cancel')}
+        </Button>
+      </div>
     </div>
   );
 }
 
 interface LoanCardProps {
   loan: Loan;
+  eligibility: RenewalEligibility;
   onRenew: (id: string) => void;
   isOverdue?: boolean;
 }
 
-function LoanCard({ loan, onRenew, isOverdue = false }: LoanCardProps) {
+function LoanCard({ loan, eligibility, onRenew, isOverdue = false }: LoanCardProps) {
   const { t, i18n } = useTranslation();
   const daysUntilDue = Math.ceil((new Date(loan.issue_date).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
 
@@ -158,7 +348,9 @@ function LoanCard({ loan, onRenew, isOverdue = false }: LoanCardProps) {
 
       <div className="flex flex-col sm:items-end gap-2">
         <div className="flex items-center gap-2">
-          {isOverdue ? (
+          {hasLoanIssue(loan) ? (
+            <LoanStateBadge state={loan.state} />
+          ) : isOverdue ? (
             <Badge variant="danger">
               {t('loans.overdue')} ({Math.abs(daysUntilDue)})
             </Badge>
@@ -175,16 +367,17 @@ function LoanCard({ loan, onRenew, isOverdue = false }: LoanCardProps) {
           )}
         </div>
 
-        {loan.nb_renews < 2 && (
+        {eligibility.canRenew && !hasLoanIssue(loan) && (
           <Button
             size="sm"
             variant="secondary"
             onClick={() => onRenew(loan.id)}
             leftIcon={<RotateCcw className="h-4 w-4" />}
           >
-            {t('loans.renew')} ({2 - loan.nb_renews})
+            {t('loans.renew')} ({eligibility.renewalsLeft})
           </Button>
         )}
+        <RenewalInfo eligibility={eligibility} />
       </div>
     </div>
   );
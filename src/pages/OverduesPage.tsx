@@ -0,0 +1,398 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Mail, AlertTriangle } from 'lucide-react';
+import { Card, Button, Table, Badge, Pagination } from '@/components/common';
+import api from '@/services/api';
+import type { Loan, OverdueSortField, ReminderLevel } from '@/types';
+import { PUBLIC_TYPE_OPTIONS, getCodeLabel, getMediaTypeOptions } from '@/utils/codeLabels';
+import { printReminderLetters, type ReminderLetter } from '@/utils/reminderLetters';
+
+const LOANS_PER_PAGE = 50;
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+const MIN_DAYS_OPTIONS = [1, 7, 15, 30, 60, 90];
+const REMINDER_LEVELS: ReminderLevel[] = ['first', 'second', 'final'];
+
+type SortOption = `${OverdueSortField}:${'asc' | 'desc'}`;
+
+/** Fills days_overdue when the server does not provide it */
+function withDaysOverdue(loans: Loan[]): Loan[] {
+  const now = Date.now();
+  return loans.map((loan) =>
+    loan.days_overdue != null
+      ? loan
+      : { ...loan, days_overdue: Math.max(0, Math.floor((now - new Date(loan.issue_date).getTime()) / DAY_MS)) }
+  );
+}
+
+export default function OverduesPage() {
+  const { t, i18n } = useTranslation();
+
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [totalLoans, setTotalLoans] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [minDays, setMinDays] = useState(1);
+  const [mediaType, setMediaType] = useState('');
+  const [publicType, setPublicType] = useState('');
+  const [sort, setSort] = useState<SortOption>('issue_date:asc');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [reminderLevel, setReminderLevel] = useState<ReminderLevel>('first');
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const MEDIA_TYPES = getMediaTypeOptions(t, t('items.allTypes'));
+
+  const SORT_OPTIONS: { value: SortOption; label: string }[] = [
+    { value: 'issue_date:asc', label: t('overdues.sort.mostOverdue') },
+    { value: 'issue_date:desc', label: t('overdues.sort.leastOverdue') },
+    { value: 'user:asc', label: t('overdues.sort.borrower') },
+    { value: 'title:asc', label: t('overdues.sort.title') },
+  ];
+
+  const buildParams = useCallback(() => {
+    const [sortBy, sortOrder] = sort.split(':') as [OverdueSortField, 'asc' | 'desc'];
+    return {
+      min_days: minDays,
+      media_type: mediaType || undefined,
+      public_type: publicType || undefined,
+      sort_by: sortBy,
+      sort_order: sortOrder,
+      // Claims-returned loans are followed up on their own screen, not reminded
+      exclude_state: 'claims_returned' as const,
+    };
+  }, [minDays, mediaType, publicType, sort]);
+
+  const fetchLoans = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await api.getOverdueLoans({
+        ...buildParams(),
+        page: currentPage,
+        per_page: LOANS_PER_PAGE,
+      });
+      setLoans(withDaysOverdue(response.items));
+      setTotalLoans(response.total);
+    } catch (error) {
+      console.error('Error fetching overdue loans:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [buildParams, currentPage]);
+
+  useEffect(() => {
+    fetchLoans();
+  }, [fetchLoans]);
+
+  const resetPage = () => {
+    setCurrentPage(1);
+    setSelectedIds(new Set());
+  };
+
+  const toggleSelected = (loanId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(loanId)) next.delete(loanId);
+      else next.add(loanId);
+      return next;
+    });
+  };
+
+  const allOnPageSelected = loans.length > 0 && loans.every((l) => selectedIds.has(l.id));
+
+  const toggleAllOnPage = () => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      loans.forEach((l) => (allOnPageSelected ? next.delete(l.id) : next.add(l.id)));
+      return next;
+    });
+  };
+
+  /** Loads every overdue loan matching the current filters (all pages) */
+  const fetchAllMatching = async (): Promise<Loan[]> => {
+    const all: Loan[] = [];
+    let page = 1;
+    for (;;) {
+      const response = await api.getOverdueLoans({ ...buildParams(), page, per_page: 200 });
+      all.push(...response.items);
+      if (response.items.length === 0 || all.length >= response.total) break;
+      page += 1;
+    }
+    return withDaysOverdue(all);
+  };
+
+  const buildLetters = (source: Loan[]): ReminderLetter[] => {
+    const byUser = new Map<string, Loan[]>();
+    for (const loan of source) {
+      if (!loan.user) continue;
+      byUser.set(loan.user.id, [...(byUser.get(loan.user.id) ?? []), loan]);
+    }
+    const today = new Date().toLocaleDateString(i18n.language, { day: 'numeric', month: 'long', year: 'numeric' });
+
+    return Array.from(byUser.values()).map((userLoans) => {
+      const user = userLoans[0].user!;
+      const name = `${user.firstname ?? ''} ${user.lastname ?? ''}`.trim();
+      const cityLine = [user.addr_zip_code, user.addr_city].filter(Boolean).join(' ');
+      return {
+        recipient: [name, user.addr_street, cityLine].filter((line): line is string => !!line),
+        date: today,
+        subject: t(`overdues.letter.${reminderLevel}.subject`),
+        greeting: t('overdues.letter.greeting', { name }),
+        body: t(`overdues.letter.${reminderLevel}.body`, { count: userLoans.length }),
+        columns: [t('loans.document'), t('loans.specimenBarcode'), t('loans.dueDate'), t('overdues.daysOverdue')],
+        rows: userLoans.map((loan) => [
+          loan.item.title || t('loans.noTitle'),
+          loan.specimen_identification ?? '-',
+          new Date(loan.issue_date).toLocaleDateString(i18n.language),
+          String(loan.days_overdue ?? ''),
+        ]),
+        closing: t('overdues.letter.closing'),
+      };
+    });
+  };
+
+  const handleGenerateLetters = async () => {
+    setIsGenerating(true);
+    try {
+      const matching = await fetchAllMatching();
+      const source = selectedIds.size > 0 ? matching.filter((l) => selectedIds.has(l.id)) : matching;
+      const letters = buildLetters(source);
+      if (letters.length === 0) return;
+      if (!printReminderLetters(t(`overdues.level.${reminderLevel}`), letters)) {
+        alert(t('overdues.popupBlocked'));
+      }
+    } catch (error) {
+      console.error('Error generating reminder letters:', error);
+      alert(t('errors.generic'));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const columns = [
+    {
+      key: 'select',
+      header: '',
+      className: 'w-10',
+      render: (loan: Loan) => (
+        <input
+          type="checkbox"
+          checked={selectedIds.has(loan.id)}
+          onChange={() => toggleSelected(loan.id)}
+          className="rounded border-gray-300 dark:border-gray-600 text-indigo-600 focus:ring-indigo-500"
+        />
+      ),
+    },
+    {
+      key: 'title',
+      header: t('loans.document'),
+      render: (loan: Loan) => (
+        <div>
+          <Link to={`/items/${loan.item.id}`} className="font-medium text-gray-900 dark:text-white hover:underline">
+            {loan.item.title || t('loans.noTitle')}
+          </Link>
+          <p className="text-sm text-gray-500 dark:text-gray-400 font-mono">{loan.specimen_identification ?? '-'}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'user',
+      header: t('overdues.borrower'),
+      render: (loan: Loan) =>
+        loan.user ? (
+          <div>
+            <Link to={`/users/${loan.user.id}`} className="text-indigo-600 dark:text-indigo-400 hover:underline">
+              {loan.user.firstname} {loan.user.lastname}
+            </Link>
+            {loan.user.public_type != null && (
+              <p className="text-sm text-gray-500 dark:text-gray-400">
+                {getCodeLabel(t, PUBLIC_TYPE_OPTIONS, loan.user.public_type)}
+              </p>
+            )}
+          </div>
+        ) : (
+          '-'
+        ),
+    },
+    {
+      key: 'issue_date',
+      header: t('loans.dueDate'),
+      render: (loan: Loan) => new Date(loan.issue_date).toLocaleDateString(i18n.language),
+    },
+    {
+      key: 'days_overdue',
+      header: t('overdues.daysOverdue'),
+      render: (loan: Loan) => (
+        <Badge variant={(loan.days_overdue ?? 0) >= 30 ? 'danger' : 'warning'}>
+          {t('overdues.days', { count: loan.days_overdue ?? 0 })}
+        </Badge>
+      ),
+    },
+  ];
+
+  const totalPages = Math.ceil(totalLoans / LOANS_PER_PAGE);
+  const selectClassName =
+    'w-full px-4 py-2.5 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100';
+
+  return (
+    <div className="space-y-4">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t('overdues.title')}</h1>
+          <p className="text-gray-500 dark:text-gray-400">{t('loans.overdueCount', { count: totalLoans })}</p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+              {t('overdues.minDays')}
+            </label>
+            <select
+              value={minDays}
+              onChange={(e) => {
+                setMinDays(Number(e.target.value));
+                resetPage();
+              }}
+              className={selectClassName}
+            >
+              {MIN_DAYS_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  {t('overdues.atLeastDays', { count: days })}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+              {t('items.mediaTypeLabel')}
+            </label>
+            <select
+              value={mediaType}
+              onChange={(e) => {
+                setMediaType(e.target.value);
+                resetPage();
+              }}
+              className={selectClassName}
+            >
+              {MEDIA_TYPES.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+              {t('users.publicType')}
+            </label>
+            <select
+              value={publicType}
+              onChange={(e) => {
+                setPublicType(e.target.value);
+                resetPage();
+              }}
+              className={selectClassName}
+            >
+              <option value="">{t('common.all')}</option>
+              {PUBLIC_TYPE_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {t(opt.labelKey)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+              {t('overdues.sortBy')}
+            </label>
+            <select
+              value={sort}
+              onChange={(e) => {
+                setSort(e.target.value as SortOption);
+                resetPage();
+              }}
+              className={selectClassName}
+            >
+              {SORT_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </Card>
+
+      {/* Reminder letters */}
+      <Card>
+        <div className="flex flex-col md:flex-row md:items-end gap-4">
+          <div className="md:w-64">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+              {t('overdues.reminderLevel')}
+            </label>
+            <select
+              value={reminderLevel}
+              onChange={(e) => setReminderLevel(e.target.value as ReminderLevel)}
+              className={selectClassName}
+            >
+              {REMINDER_LEVELS.map((level) => (
+                <option key={level} value={level}>
+                  {t(`overdues.level.${level}`)}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex-1 flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+            <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+            <span>
+              {selectedIds.size > 0
+                ? t('overdues.lettersForSelection', { count: selectedIds.size })
+                : t('overdues.lettersForAll', { count: totalLoans })}
+            </span>
+          </div>
+          <Button
+            onClick={handleGenerateLetters}
+            isLoading={isGenerating}
+            disabled={totalLoans === 0}
+            leftIcon={<Mail className="h-4 w-4" />}
+          >
+            {t('overdues.printLetters')}
+          </Button>
+        </div>
+      </Card>
+
+      {/* Overdue loans table */}
+      <Card padding="none">
+        {loans.length > 0 && (
+          <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-800">
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={allOnPageSelected}
+                onChange={toggleAllOnPage}
+                className="rounded border-gray-300 dark:border-gray-600 text-indigo-600 focus:ring-indigo-500"
+              />
+              {t('overdues.selectPage')}
+            </label>
+          </div>
+        )}
+        <Table
+          columns={columns}
+          data={loans}
+          keyExtractor={(loan) => loan.id}
+          isLoading={isLoading}
+          emptyMessage={t('overdues.noOverdues')}
+        />
+        {totalPages > 1 && (
+          <div className="p-4 border-t border-gray-200 dark:border-gray-800">
+            <Pagination currentPage={currentPage} totalPages={totalPages} onPageChange={setCurrentPage} />
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -22,6 +22,7 @@ import {
 } from 'lucide-react';
 import { QRCodeSVG } from 'qrcode.react';
 import { Card, CardHeader, Button, Input, Modal } from '@/components/common';
+import FineLedgerCard from '@/components/fines/FineLedgerCard';
 import { useAuth } from '@/contexts/AuthContext';
 import { useLanguage } from '@/contexts/LanguageContext';
 import api from '@/services/api';
@@ -63,6 +64,10 @@ export default function ProfilePage() {
   const [passwordSuccess, setPasswordSuccess] = useState(false);
   const [passwordError, setPasswordError] = useState('');
 
+  // Loan history retention state
+  const [isUpdatingLoanHistory, setIsUpdatingLoanHistory] = useState(false);
+  const [loanHistoryError, setLoanHistoryError] = useState('');
+
   // 2FA state
   const [show2FAModal, setShow2FAModal] = useState(false);
   const [twoFAMethod, setTwoFAMethod] = useState<TwoFactorMethod>('totp');
@@ -164,6 +169,21 @@ export default function ProfilePage() {
     }
   };
 
+  const handleLoanHistoryChange = async (keep: boolean) => {
+    if (!keep && !confirm(t('profile.loanHistory.confirmDisable'))) return;
+    setIsUpdatingLoanHistory(true);
+    setLoanHistoryError('');
+    try {
+      await api.updateProfile({ keep_loan_history: keep });
+      await refreshProfile();
+    } catch (error) {
+      console.error('Error updating loan history retention:', error);
+      setLoanHistoryError(t('profile.updateError'));
+    } finally {
+      setIsUpdatingLoanHistory(false);
+    }
+  };
+
   const handleLanguageChange = async (newLang: SupportedLanguage) => {
     await setLanguage(newLang);
   };
@@ -377,6 +397,38 @@ export default function ProfilePage() {
         </form>
       </Card>
 
+      {/* Fines and fees */}
+      {user?.id && <FineLedgerCard userId={user.id} />}
+
+      {/* Loan history retention */}
+      <Card>
+        <CardHeader
+          title={t('profile.loanHistory.title')}
+          subtitle={t('profile.loanHistory.subtitle')}
+        />
+
+        <label className="flex items-start gap-3 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={user?.keep_loan_history !== false}
+            onChange={(e) => handleLoanHistoryChange(e.target.checked)}
+            disabled={isUpdatingLoanHistory}
+            className="mt-0.5 rounded border-gray-300 dark:border-gray-700 text-indigo-600 focus:ring-indigo-500"
+          />
+          <div>
+            <p className="text-sm font-medium text-gray-900 dark:text-white">{t('profile.loanHistory.keep')}</p>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t('profile.loanHistory.keepHint')}</p>
+          </div>
+        </label>
+
+        {loanHistoryError && (
+          <div className="flex items-center gap-2 mt-4 text-red-600 dark:text-red-400 text-sm">
+            <AlertCircle className="h-4 w-4" />
+            {loanHistoryError}
+          </div>
+        )}
+      </Card>
+
       {/* Language card */}
       <Card>
         <CardHeader
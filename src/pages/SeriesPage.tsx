@@ -0,0 +1,254 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate, Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { ArrowLeft, Edit } from 'lucide-react';
+import { Card, CardHeader, Button, Input, Badge } from '@/components/common';
+import { useAuth } from '@/contexts/AuthContext';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import { buildVolumeRows } from '@/utils/volumes';
+import { canManageItems, type Collection, type ItemGroupKind, type NumberedItem, type Serie } from '@/types';
+
+type GroupForm = { name: string; primary_title: string; secondary_title: string; tertiary_title: string; issn: string };
+
+interface SeriesPageProps {
+  kind: ItemGroupKind;
+}
+
+const groupTitle = (kind: ItemGroupKind, group: Serie | Collection) =>
+  kind === 'series'
+    ? (group as Serie).name
+    : [(group as Collection).primary_title, (group as Collection).secondary_title, (group as Collection).tertiary_title]
+        .filter(Boolean)
+        .join(' — ');
+
+/** Every item of a series or collection in numbering order, with missing volumes and per-volume availability */
+export default function SeriesPage({ kind }: SeriesPageProps) {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { t } = useTranslation();
+  const { user } = useAuth();
+  const canManage = canManageItems(user?.account_type);
+
+  const [group, setGroup] = useState<Serie | Collection | null>(null);
+  const [members, setMembers] = useState<NumberedItem[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editForm, setEditForm] = useState<GroupForm | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!id) return;
+    const request =
+      kind === 'series'
+        ? Promise.all([api.getSerie(id), api.getSerieItems(id)])
+        : Promise.all([api.getCollection(id), api.getCollectionItems(id)]);
+    request
+      .then(([record, items]) => {
+        setGroup(record);
+        setMembers(items);
+      })
+      .catch((error) => console.error('Error fetching series:', error))
+      .finally(() => setIsLoading(false));
+  }, [kind, id]);
+
+  const startEdit = () => {
+    if (!group) return;
+    const collection = group as Collection;
+    setError('');
+    setEditForm({
+      name: (group as Serie).name ?? '',
+      primary_title: collection.primary_title ?? '',
+      secondary_title: collection.secondary_title ?? '',
+      tertiary_title: collection.tertiary_title ?? '',
+      issn: group.issn ?? '',
+    });
+  };
+
+  const handleSave = async () => {
+    if (!id || !editForm) return;
+    setError('');
+    setIsSaving(true);
+    try {
+      const updated =
+        kind === 'series'
+          ? await api.updateSerie(id, { name: editForm.name.trim(), issn: editForm.issn.trim() || null })
+          : await api.updateCollection(id, {
+              primary_title: editForm.primary_title.trim(),
+              secondary_title: editForm.secondary_title.trim() || null,
+              tertiary_title: editForm.tertiary_title.trim() || null,
+              issn: editForm.issn.trim() || null,
+            });
+      setGroup(updated);
+      setEditForm(null);
+    } catch (error) {
+      console.error('Error updating series:', error);
+      setError(getApiErrorMessage(error, t));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="h-8 w-8 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  if (!group) {
+    return (
+      <Card>
+        <p className="text-center py-8 text-gray-500 dark:text-gray-400">{t(`series.notFound.${kind}`)}</p>
+      </Card>
+    );
+  }
+
+  const rows = buildVolumeRows(members);
+  const missing = rows.reduce((total, row) => (row.kind === 'gap' ? total + row.to - row.from + 1 : total), 0);
+  const titleRequired = kind === 'series' ? !editForm?.name.trim() : !editForm?.primary_title.trim();
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div className="flex items-start gap-4">
+          <button onClick={() => navigate(-1)} className="p-2 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800">
+            <ArrowLeft className="h-5 w-5" />
+          </button>
+          <div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">{t(kind === 'series' ? 'items.series' : 'items.collection')}</p>
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-900 dark:text-white">{groupTitle(kind, group) || '—'}</h1>
+            <div className="flex flex-wrap items-center gap-2 mt-1">
+              {group.issn && <Badge>ISSN {group.issn}</Badge>}
+              <Badge variant="info">{t('items.count', { count: members.length })}</Badge>
+              {missing > 0 && <Badge variant="warning">{t('series.missingCount', { count: missing })}</Badge>}
+            </div>
+          </div>
+        </div>
+        {canManage && !editForm && (
+          <Button variant="secondary" onClick={startEdit} leftIcon={<Edit className="h-4 w-4" />}>
+            {t('common.edit')}
+          </Button>
+        )}
+      </div>
+
+      {editForm && (
+        <Card>
+          <CardHeader title={t(`series.edit.${kind}`)} />
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {kind === 'series' ? (
+              <Input
+                label={t('items.seriesName')}
+                value={editForm.name}
+                onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+                required
+              />
+            ) : (
+              <>
+                <Input
+                  label={t('items.collectionPrimaryTitle')}
+                  value={editForm.primary_title}
+                  onChange={(e) => setEditForm({ ...editForm, primary_title: e.target.value })}
+                  required
+                />
+                <Input
+                  label={t('items.subtitle')}
+                  value={editForm.secondary_title}
+                  onChange={(e) => setEditForm({ ...editForm, secondary_title: e.target.value })}
+                />
+                <Input
+                  label={t('items.title3')}
+                  value={editForm.tertiary_title}
+                  onChange={(e) => setEditForm({ ...editForm, tertiary_title: e.target.value })}
+                />
+              </>
+            )}
+            <Input
+              label="ISSN"
+              value={editForm.issn}
+              onChange={(e) => setEditForm({ ...editForm, issn: e.target.value })}
+              placeholder="0000-0000"
+            />
+          </div>
+          {error && (
+            <div className="mt-4 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800">
+              <p className="text-sm font-medium text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          )}
+          <div className="flex justify-end gap-2 mt-4">
+            <Button variant="secondary" onClick={() => setEditForm(null)}>
+              {t('common.cancel')}
+            </Button>
+            <Button onClick={handleSave} isLoading={isSaving} disabled={titleRequired}>
+              {t('common.save')}
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      <Card padding="none">
+        {rows.length === 0 ? (
+          <p className="text-center py-8 text-gray-500 dark:text-gray-400">{t('items.noItems')}</p>
+        ) : (
+          <ul className="divide-y divide-gray-200 dark:divide-gray-800">
+            {rows.map((row) =>
+              row.kind === 'gap' ? (
+                <li
+                  key={`gap-${row.from}`}
+                  className="px-4 py-2 text-sm italic text-amber-700 dark:text-amber-400 bg-amber-50/50 dark:bg-amber-900/10"
+                >
+                  {row.from === row.to
+                    ? t('series.missingOne', { number: row.from })
+                    : t('series.missingRange', { from: row.from, to: row.to })}
+                </li>
+              ) : (
+                <VolumeRow key={row.entry.item.id} entry={row.entry} />
+              )
+            )}
+          </ul>
+        )}
+      </Card>
+    </div>
+  );
+}
+
+function VolumeRow({ entry }: { entry: NumberedItem }) {
+  const { t } = useTranslation();
+  const specimens = entry.item.specimens ?? [];
+  const available = specimens.filter((specimen) => specimen.availability === 0).length;
+
+  return (
+    <li className="px-4 py-3 flex items-center gap-4">
+      <span className="w-12 flex-shrink-0 text-center font-mono text-sm font-semibold text-gray-700 dark:text-gray-300">
+        {entry.number ?? '—'}
+      </span>
+      <div className="flex-1 min-w-0">
+        <Link
+          to={`/items/${entry.item.id}`}
+          className="font-medium text-gray-900 dark:text-white hover:text-indigo-600 dark:hover:text-indigo-400"
+        >
+          {entry.item.title || t('loans.noTitle')}
+        </Link>
+        {(entry.item.author || entry.item.date) && (
+          <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+            {[
+              entry.item.author && `${entry.item.author.firstname || ''} ${entry.item.author.lastname || ''}`.trim(),
+              entry.item.date,
+            ]
+              .filter(Boolean)
+              .join(' · ')}
+          </p>
+        )}
+      </div>
+      {specimens.length === 0 ? (
+        <Badge>{t('items.noSpecimens')}</Badge>
+      ) : (
+        <Badge variant={available > 0 ? 'success' : 'danger'}>
+          {t('series.availability', { available, total: specimens.length })}
+        </Badge>
+      )}
+    </li>
+  );
+}
@@ -1,10 +1,13 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { Save, Plus, Trash2, Server, BookOpen, Archive, Pencil, Merge, Package, Check, X, AlertTriangle } from 'lucide-react';
+import { Save, Plus, Trash2, Server, BookOpen, Archive, Pencil, Merge, Package, Check, X, AlertTriangle, Upload, Download, CalendarX } from 'lucide-react';
 import { Card, CardHeader, Button, Input, Badge } from '@/components/common';
 import api from '@/services/api';
 import { getApiErrorMessage } from '@/utils/apiError';
-import type { Settings, LoanSettings, Z3950Server, MediaType, Source } from '@/types';
+import type { Settings, LoanSettings, FineSettings, Z3950Server, MediaType, Source, OpeningCalendar, OpeningPeriod, Closure, ClosureKind } from '@/types';
+import { WEEKDAYS, calendarToIcs, icsToCalendar, parseDateKey } from '@/utils/calendar';
+import { downloadBlob } from '@/utils/download';
+import { DEFAULT_FINE_SETTINGS } from '@/utils/money';
 
 // Helper function to get translation key for media type
 function getMediaTypeTranslationKey(mediaType: MediaType): string {
@@ -419,6 +422,321 @@ function SourceEditor() {
   );
 }
 
+// ─── Opening Calendar Editor Component ────────────────────────────────────────
+const EMPTY_CALENDAR: OpeningCalendar = { weekly_hours: [], closures: [] };
+
+function OpeningCalendarEditor() {
+  const { t, i18n } = useTranslation();
+  const [calendar, setCalendar] = useState<OpeningCalendar>(EMPTY_CALENDAR);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDirty, setIsDirty] = useState(false);
+  const [pushingIndex, setPushingIndex] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [successMsg, setSuccessMsg] = useState<string | null>(null);
+  const [newClosure, setNewClosure] = useState<Closure>({ start_date: '', end_date: '', label: '', kind: 'closure' });
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const showSuccess = (msg: string) => { setSuccessMsg(msg); setTimeout(() => setSuccessMsg(null), 3000); };
+
+  useEffect(() => {
+    api
+      .getOpeningCalendar()
+      .then((data) => setCalendar(data))
+      .catch(() => setError(t('settings.calendar.errorLoad')))
+      .finally(() => setIsLoading(false));
+  }, [t]);
+
+  const updateCalendar = (next: OpeningCalendar) => {
+    setCalendar(next);
+    setIsDirty(true);
+  };
+
+  const getPeriods = (weekday: number) =>
+    calendar.weekly_hours.find((h) => h.weekday === weekday)?.periods ?? [];
+
+  const setPeriods = (weekday: number, periods: OpeningPeriod[]) => {
+    const others = calendar.weekly_hours.filter((h) => h.weekday !== weekday);
+    updateCalendar({ ...calendar, weekly_hours: [...others, { weekday, periods }] });
+  };
+
+  const handleAddClosure = () => {
+    if (!newClosure.start_date) return;
+    const end = newClosure.end_date && newClosure.end_date >= newClosure.start_date ? newClosure.end_date : newClosure.start_date;
+    const closures = [...calendar.closures, { ...newClosure, end_date: end, label: newClosure.label || null }].sort(
+      (a, b) => a.start_date.localeCompare(b.start_date)
+    );
+    updateCalendar({ ...calendar, closures });
+    setNewClosure({ start_date: '', end_date: '', label: '', kind: 'closure' });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = await api.updateOpeningCalendar(calendar);
+      setCalendar(saved);
+      setIsDirty(false);
+      showSuccess(t('settings.calendar.saved'));
+    } catch (err) {
+      setError(getApiErrorMessage(err, t));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handlePushDueDates = async (closure: Closure, index: number) => {
+    if (!confirm(t('settings.calendar.pushConfirm', { start: formatDay(closure.start_date), end: formatDay(closure.end_date) }))) return;
+    setPushingIndex(index);
+    setError(null);
+    try {
+      const result = await api.pushDueDatesForClosure({ start_date: closure.start_date, end_date: closure.end_date });
+      showSuccess(t('settings.calendar.pushed', { count: result.updated }));
+    } catch (err) {
+      setError(getApiErrorMessage(err, t));
+    } finally {
+      setPushingIndex(null);
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([calendarToIcs(calendar, t('settings.calendar.title'))], { type: 'text/calendar;charset=utf-8' });
+    downloadBlob(blob, 'opening-calendar.ics');
+  };
+
+  const handleImport = async (file: File) => {
+    setError(null);
+    try {
+      const imported = icsToCalendar(await file.text());
+      if (imported.weekly_hours.length === 0 && imported.closures.length === 0) {
+        setError(t('settings.calendar.importEmpty'));
+        return;
+      }
+      if (!confirm(t('settings.calendar.importConfirm', { count: imported.closures.length }))) return;
+      updateCalendar({
+        // Keep the current opening hours when the file only contains closures
+        weekly_hours: imported.weekly_hours.length > 0 ? imported.weekly_hours : calendar.weekly_hours,
+        closures: imported.closures,
+      });
+    } catch {
+      setError(t('settings.calendar.importError'));
+    } finally {
+      if (importInputRef.current) importInputRef.current.value = '';
+    }
+  };
+
+  const formatDay = (key: string) =>
+    parseDateKey(key).toLocaleDateString(i18n.language, { day: 'numeric', month: 'short', year: 'numeric' });
+
+  const weekdayName = (weekday: number) =>
+    // 7 January 2024 is a Sunday
+    new Date(2024, 0, 7 + weekday).toLocaleDateString(i18n.language, { weekday: 'long' });
+
+  const inputClassName =
+    'px-2 py-1 rounded border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100 text-sm';
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardHeader title={t('settings.calendar.title')} />
+        <div className="flex items-center justify-center h-24">
+          <div className="h-6 w-6 border-2 border-indigo-600 border-t-transparent rounded-full animate-spin" />
+        </div>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader
+        title={t('settings.calendar.title')}
+        subtitle={t('settings.calendar.subtitle')}
+        action={
+          <div className="flex items-center gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".ics,text/calendar"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImport(file);
+              }}
+            />
+            <Button size="sm" variant="ghost" leftIcon={<Upload className="h-4 w-4" />} onClick={() => importInputRef.current?.click()}>
+              {t('settings.calendar.importIcs')}
+            </Button>
+            <Button size="sm" variant="ghost" leftIcon={<Download className="h-4 w-4" />} onClick={handleExport}>
+              {t('settings.calendar.exportIcs')}
+            </Button>
+            <Button size="sm" leftIcon={<Save className="h-4 w-4" />} onClick={handleSave} isLoading={isSaving} disabled={!isDirty}>
+              {t('common.save')}
+            </Button>
+          </div>
+        }
+      />
+
+      {/* Messages */}
+      {error && (
+        <div className="mb-3 flex items-center gap-2 rounded-lg bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 px-3 py-2 text-sm text-red-700 dark:text-red-400">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {error}
+          <button onClick={() => setError(null)} className="ml-auto"><X className="h-4 w-4" /></button>
+        </div>
+      )}
+      {successMsg && (
+        <div className="mb-3 flex items-center gap-2 rounded-lg bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 px-3 py-2 text-sm text-green-700 dark:text-green-400">
+          <Check className="h-4 w-4 shrink-0" />
+          {successMsg}
+        </div>
+      )}
+
+      {/* Weekly opening hours */}
+      <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">{t('settings.calendar.weeklyHours')}</h4>
+      <div className="divide-y divide-gray-100 dark:divide-gray-800 mb-6">
+        {WEEKDAYS.map((weekday) => {
+          const periods = getPeriods(weekday);
+          return (
+            <div key={weekday} className="flex flex-col sm:flex-row sm:items-center gap-2 py-2">
+              <span className="w-32 text-sm font-medium text-gray-900 dark:text-white capitalize">{weekdayName(weekday)}</span>
+              <div className="flex-1 flex flex-wrap items-center gap-3">
+                {periods.length === 0 && (
+                  <span className="text-sm text-gray-400">{t('settings.calendar.closed')}</span>
+                )}
+                {periods.map((period, index) => (
+                  <div key={index} className="flex items-center gap-1">
+                    <input
+                      type="time"
+                      value={period.open}
+                      onChange={(e) =>
+                        setPeriods(weekday, periods.map((p, i) => (i === index ? { ...p, open: e.target.value } : p)))
+                      }
+                      className={inputClassName}
+                    />
+                    <span className="text-gray-400">–</span>
+                    <input
+                      type="time"
+                      value={period.close}
+                      onChange={(e) =>
+                        setPeriods(weekday, periods.map((p, i) => (i === index ? { ...p, close: e.target.value } : p)))
+                      }
+                      className={inputClassName}
+                    />
+                    <button
+                      onClick={() => setPeriods(weekday, periods.filter((_, i) => i !== index))}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      title={t('common.delete')}
+                    >
+                      <X className="h-4 w-4" />
+                    </button>
+                  </div>
+                ))}
+                <button
+                  onClick={() => setPeriods(weekday, [...periods, { open: '09:00', close: '18:00' }])}
+                  className="p-1 rounded-md text-gray-400 hover:text-indigo-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  title={t('settings.calendar.addPeriod')}
+                >
+                  <Plus className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Closures and holidays */}
+      <h4 className="text-sm font-semibold text-gray-700 dark:text-gray-300 mb-2">{t('settings.calendar.closures')}</h4>
+      <div className="space-y-2 mb-4">
+        {calendar.closures.length === 0 && (
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t('settings.calendar.noClosures')}</p>
+        )}
+        {calendar.closures.map((closure, index) => (
+          <div
+            key={`${closure.start_date}-${index}`}
+            className="flex flex-wrap items-center gap-3 px-4 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800/50"
+          >
+            <CalendarX className="h-4 w-4 text-gray-400 shrink-0" />
+            <span className="text-sm font-medium text-gray-900 dark:text-white">
+              {closure.start_date === closure.end_date
+                ? formatDay(closure.start_date)
+                : `${formatDay(closure.start_date)} → ${formatDay(closure.end_date)}`}
+            </span>
+            {closure.label && <span className="text-sm text-gray-500 dark:text-gray-400">{closure.label}</span>}
+            <Badge variant={closure.kind === 'holiday' ? 'info' : 'warning'}>
+              {t(`settings.calendar.kind.${closure.kind}`)}
+            </Badge>
+            <div className="ml-auto flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handlePushDueDates(closure, index)}
+                isLoading={pushingIndex === index}
+                disabled={isDirty}
+                title={isDirty ? t('settings.calendar.saveFirst') : undefined}
+              >
+                {t('settings.calendar.pushDueDates')}
+              </Button>
+              <button
+                onClick={() => updateCalendar({ ...calendar, closures: calendar.closures.filter((_, i) => i !== index) })}
+                className="p-1.5 rounded-md text-gray-400 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-700"
+                title={t('common.delete')}
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {/* New closure */}
+      <div className="flex flex-wrap items-end gap-3 p-4 rounded-lg bg-gray-50 dark:bg-gray-800/50">
+        <div>
+          <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{t('settings.calendar.startDate')}</label>
+          <input
+            type="date"
+            value={newClosure.start_date}
+            onChange={(e) => setNewClosure({ ...newClosure, start_date: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{t('settings.calendar.endDate')}</label>
+          <input
+            type="date"
+            value={newClosure.end_date}
+            min={newClosure.start_date || undefined}
+            onChange={(e) => setNewClosure({ ...newClosure, end_date: e.target.value })}
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex-1 min-w-40">
+          <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{t('settings.calendar.label')}</label>
+          <input
+            type="text"
+            value={newClosure.label ?? ''}
+            onChange={(e) => setNewClosure({ ...newClosure, label: e.target.value })}
+            className={`w-full ${inputClassName}`}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-gray-500 dark:text-gray-400 mb-1">{t('common.type')}</label>
+          <select
+            value={newClosure.kind}
+            onChange={(e) => setNewClosure({ ...newClosure, kind: e.target.value as ClosureKind })}
+            className={inputClassName}
+          >
+            <option value="closure">{t('settings.calendar.kind.closure')}</option>
+            <option value="holiday">{t('settings.calendar.kind.holiday')}</option>
+          </select>
+        </div>
+        <Button size="sm" variant="secondary" leftIcon={<Plus className="h-4 w-4" />} onClick={handleAddClosure} disabled={!newClosure.start_date}>
+          {t('common.add')}
+        </Button>
+      </div>
+    </Card>
+  );
+}
+
 // ─── Settings Page ─────────────────────────────────────────────────────────────
 export default function SettingsPage() {
   const { t } = useTranslation();
@@ -453,7 +771,7 @@ export default function SettingsPage() {
     }
   };
 
-  const updateLoanSetting = (index: number, field: keyof LoanSettings, value: string | number) => {
+  const updateLoanSetting = (index: number, field: keyof LoanSettings, value: string | number | null) => {
     if (!settings) return;
     const newSettings = { ...settings };
     newSettings.loan_settings[index] = {
@@ -463,6 +781,18 @@ export default function SettingsPage() {
     setSettings(newSettings);
   };
 
+  const updateFineSetting = (field: keyof FineSettings, value: string | number) => {
+    if (!settings) return;
+    setSettings({
+      ...settings,
+      fine_settings: {
+        ...DEFAULT_FINE_SETTINGS,
+        ...settings.fine_settings,
+        [field]: value,
+      },
+    });
+  };
+
   const updateZ3950Server = (index: number, field: keyof Z3950Server, value: string | number | boolean) => {
     if (!settings) return;
     const newSettings = { ...settings };
@@ -522,6 +852,12 @@ export default function SettingsPage() {
                 <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase">
                   {t('settings.maxRenewals')}
                 </th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase">
+                  {t('settings.finePerDay')}
+                </th>
+                <th className="px-4 py-3 text-left text-xs font-semibold text-gray-500 uppercase">
+                  {t('settings.maxFine')}
+                </th>
               </tr>
             </thead>
             <tbody className="divide-y divide-gray-100 dark:divide-gray-800">
@@ -562,6 +898,30 @@ export default function SettingsPage() {
                       min={0}
                     />
                   </td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="number"
+                      value={setting.fine_per_day ?? ''}
+                      onChange={(e) =>
+                        updateLoanSetting(index, 'fine_per_day', e.target.value === '' ? null : parseFloat(e.target.value))
+                      }
+                      className="w-24 px-2 py-1 rounded border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+                      min={0}
+                      step="0.01"
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      type="number"
+                      value={setting.max_fine ?? ''}
+                      onChange={(e) =>
+                        updateLoanSetting(index, 'max_fine', e.target.value === '' ? null : parseFloat(e.target.value))
+                      }
+                      className="w-24 px-2 py-1 rounded border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100"
+                      min={0}
+                      step="0.01"
+                    />
+                  </td>
                 </tr>
               ))}
             </tbody>
@@ -569,6 +929,31 @@ export default function SettingsPage() {
         </div>
       </Card>
 
+      {/* Fines */}
+      <Card>
+        <CardHeader title={t('settings.fines')} subtitle={t('settings.finesHint')} />
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 max-w-xl">
+          <Input
+            label={t('settings.fineCurrency')}
+            value={settings.fine_settings?.currency ?? DEFAULT_FINE_SETTINGS.currency}
+            onChange={(e) => updateFineSetting('currency', e.target.value.toUpperCase())}
+            maxLength={3}
+          />
+          <Input
+            label={t('settings.fineWarningThreshold')}
+            type="number"
+            min={0}
+            step="0.01"
+            value={settings.fine_settings?.warning_threshold ?? DEFAULT_FINE_SETTINGS.warning_threshold}
+            onChange={(e) => updateFineSetting('warning_threshold', parseFloat(e.target.value) || 0)}
+            hint={t('settings.fineWarningThresholdHint')}
+          />
+        </div>
+      </Card>
+
+      {/* Opening calendar */}
+      <OpeningCalendarEditor />
+
       {/* Sources */}
       <SourceEditor />
 
@@ -0,0 +1,310 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { Send, PackageCheck, X, BookOpen } from 'lucide-react';
+import { Card, CardHeader, Button, Badge, Input, Table } from '@/components/common';
+import DeskSourceSelect from '@/components/transfers/DeskSourceSelect';
+import api from '@/services/api';
+import { getApiErrorMessage } from '@/utils/apiError';
+import { getDeskSourceId, daysInTransit, TRANSFER_STUCK_DAYS } from '@/utils/deskSource';
+import type { Source, SpecimenTransfer } from '@/types';
+
+type Direction = 'incoming' | 'outgoing';
+
+const sourceName = (source?: Source | null) => source?.name || source?.key || '-';
+
+/** Sending copies between sources (branches), receiving them by scan, and following what is in transit */
+export default function TransfersPage() {
+  const { t, i18n } = useTranslation();
+
+  const [sources, setSources] = useState<Source[]>([]);
+  const [deskSourceId, setDeskSourceId] = useState(getDeskSourceId);
+  const [direction, setDirection] = useState<Direction>('incoming');
+  const [transfers, setTransfers] = useState<SpecimenTransfer[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [now] = useState(() => new Date());
+
+  const [sendBarcode, setSendBarcode] = useState('');
+  const [destinationId, setDestinationId] = useState('');
+  const [isSending, setIsSending] = useState(false);
+  const [receiveBarcode, setReceiveBarcode] = useState('');
+  const [isReceiving, setIsReceiving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  useEffect(() => {
+    api
+      .getSources()
+      .then(setSources)
+      .catch((error) => console.error('Error fetching sources:', error));
+  }, []);
+
+  const fetchTransfers = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const data = await api.getTransfers({
+        source_id: deskSourceId || undefined,
+        direction: deskSourceId ? direction : undefined,
+        status: 'in_transit',
+      });
+      setTransfers(data);
+    } catch (error) {
+      console.error('Error fetching transfers:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [deskSourceId, direction]);
+
+  useEffect(() => {
+    fetchTransfers();
+  }, [fetchTransfers]);
+
+  const handleSend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sendBarcode.trim() || !destinationId) return;
+    setMessage(null);
+    setIsSending(true);
+    try {
+      const transfer = await api.createTransfer({ specimen_barcode: sendBarcode.trim(), to_source_id: destinationId });
+      setMessage({
+        type: 'success',
+        text: t('transfers.sent', { barcode: sendBarcode.trim(), destination: sourceName(transfer.to_source) }),
+      });
+      setSendBarcode('');
+      fetchTransfers();
+    } catch (error) {
+      console.error('Error sending transfer:', error);
+      setMessage({ type: 'error', text: getApiErrorMessage(error, t) });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleReceive = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!receiveBarcode.trim() || !deskSourceId) return;
+    setMessage(null);
+    setIsReceiving(true);
+    try {
+      const transfer = await api.receiveTransfer({ specimen_barcode: receiveBarcode.trim(), source_id: deskSourceId });
+      setMessage({
+        type: 'success',
+        text: t('transfers.received', { barcode: receiveBarcode.trim(), origin: sourceName(transfer.from_source) }),
+      });
+      setReceiveBarcode('');
+      fetchTransfers();
+    } catch (error) {
+      console.error('Error receiving transfer:', error);
+      setMessage({ type: 'error', text: getApiErrorMessage(error, t) });
+    } finally {
+      setIsReceiving(false);
+    }
+  };
+
+  const handleCancel = async (transfer: SpecimenTransfer) => {
+    if (!confirm(t('transfers.cancelConfirm'))) return;
+    try {
+      await api.cancelTransfer(transfer.id);
+      fetchTransfers();
+    } catch (error) {
+      console.error('Error cancelling transfer:', error);
+      setMessage({ type: 'error', text: getApiErrorMessage(error, t) });
+    }
+  };
+
+  const stuckCount = transfers.filter((transfer) => daysInTransit(transfer.sent_at, now) >= TRANSFER_STUCK_DAYS).length;
+
+  const columns = [
+    {
+      key: 'item',
+      header: t('loans.document'),
+      render: (transfer: SpecimenTransfer) => (
+        <div>
+          {transfer.item?.id ? (
+            <Link
+              to={`/items/${transfer.item.id}`}
+              className="font-medium text-gray-900 dark:text-white hover:text-indigo-600 dark:hover:text-indigo-400"
+            >
+              {transfer.item.title || t('loans.noTitle')}
+            </Link>
+          ) : (
+            <p className="font-medium text-gray-900 dark:text-white">{t('loans.noTitle')}</p>
+          )}
+          {transfer.specimen_barcode && (
+            <p className="text-sm font-mono text-gray-500 dark:text-gray-400">{transfer.specimen_barcode}</p>
+          )}
+        </div>
+      ),
+    },
+    {
+      key: 'route',
+      header: t('transfers.route'),
+      render: (transfer: SpecimenTransfer) => (
+        <span className="text-sm">
+          {sourceName(transfer.from_source)} → {sourceName(transfer.to_source)}
+        </span>
+      ),
+    },
+    {
+      key: 'sent_at',
+      header: t('transfers.sentAt'),
+      render: (transfer: SpecimenTransfer) => {
+        const days = daysInTransit(transfer.sent_at, now);
+        return (
+          <div className="flex items-center gap-2">
+            <span>{new Date(transfer.sent_at).toLocaleDateString(i18n.language)}</span>
+            {days >= TRANSFER_STUCK_DAYS && (
+              <Badge variant="danger">{t('transfers.stuck', { count: days })}</Badge>
+            )}
+          </div>
+        );
+      },
+    },
+    {
+      key: 'actions',
+      header: '',
+      className: 'text-right',
+      render: (transfer: SpecimenTransfer) => (
+        <button
+          onClick={() => handleCancel(transfer)}
+          className="p-2 rounded-lg text-gray-400 hover:text-red-600 hover:bg-gray-100 dark:hover:bg-gray-800"
+          title={t('transfers.cancel')}
+        >
+          <X className="h-4 w-4" />
+        </button>
+      ),
+    },
+  ];
+
+  const selectClassName =
+    'w-full px-4 py-2.5 rounded-lg border border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-900 text-gray-900 dark:text-gray-100';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">{t('transfers.title')}</h1>
+          <p className="text-gray-500 dark:text-gray-400">{t('transfers.subtitle')}</p>
+        </div>
+        <DeskSourceSelect sources={sources} value={deskSourceId} onChange={setDeskSourceId} />
+      </div>
+
+      {message && (
+        <div
+          className={`p-3 rounded-lg border ${
+            message.type === 'success'
+              ? 'bg-green-50 dark:bg-green-900/20 border-green-200 dark:border-green-800 text-green-800 dark:text-green-200'
+              : 'bg-red-50 dark:bg-red-900/20 border-red-200 dark:border-red-800 text-red-800 dark:text-red-200'
+          }`}
+        >
+          <p className="text-sm font-medium">{message.text}</p>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Send */}
+        <Card>
+          <CardHeader title={t('transfers.send')} />
+          <form onSubmit={handleSend} className="space-y-4">
+            <Input
+              label={t('loans.specimenBarcode')}
+              value={sendBarcode}
+              onChange={(e) => setSendBarcode(e.target.value)}
+              placeholder={t('loans.scanOrEnterBarcode')}
+              leftIcon={<BookOpen className="h-4 w-4" />}
+            />
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1.5">
+                {t('transfers.destination')}
+              </label>
+              <select value={destinationId} onChange={(e) => setDestinationId(e.target.value)} className={selectClassName}>
+                <option value="">{t('common.select')}</option>
+                {sources
+                  .filter((source) => source.id !== deskSourceId && !source.is_archive)
+                  .map((source) => (
+                    <option key={source.id} value={source.id}>
+                      {sourceName(source)}
+                    </option>
+                  ))}
+              </select>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                isLoading={isSending}
+                disabled={!sendBarcode.trim() || !destinationId}
+                leftIcon={<Send className="h-4 w-4" />}
+              >
+                {t('transfers.sendAction')}
+              </Button>
+            </div>
+          </form>
+        </Card>
+
+        {/* Receive */}
+        <Card>
+          <CardHeader title={t('transfers.receive')} />
+          <form onSubmit={handleReceive} className="space-y-4">
+            <Input
+              label={t('loans.specimenBarcode')}
+              value={receiveBarcode}
+              onChange={(e) => setReceiveBarcode(e.target.value)}
+              placeholder={t('loans.scanOrEnterBarcode')}
+              leftIcon={<BookOpen className="h-4 w-4" />}
+              disabled={!deskSourceId}
+              hint={deskSourceId ? undefined : t('transfers.deskSourceRequired')}
+            />
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                isLoading={isReceiving}
+                disabled={!receiveBarcode.trim() || !deskSourceId}
+                leftIcon={<PackageCheck className="h-4 w-4" />}
+              >
+                {t('transfers.receiveAction')}
+              </Button>
+            </div>
+          </form>
+        </Card>
+      </div>
+
+      {/* In transit */}
+      <Card padding="none">
+        <div className="p-4 sm:p-6 border-b border-gray-200 dark:border-gray-800 space-y-4">
+          <CardHeader
+            title={t('transfers.inTransit')}
+            subtitle={
+              stuckCount > 0
+                ? t('transfers.stuckCount', { count: stuckCount, days: TRANSFER_STUCK_DAYS })
+                : t('transfers.count', { count: transfers.length })
+            }
+          />
+          {deskSourceId && (
+            <nav className="-mb-px flex space-x-8">
+              {(['incoming', 'outgoing'] as const).map((value) => (
+                <button
+                  key={value}
+                  onClick={() => setDirection(value)}
+                  className={`py-2 px-1 border-b-2 font-medium text-sm ${
+                    direction === value
+                      ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+                  }`}
+                >
+                  {t(`transfers.${value}`)}
+                </button>
+              ))}
+            </nav>
+          )}
+        </div>
+        <Table
+          columns={columns}
+          data={transfers}
+          keyExtractor={(transfer) => transfer.id}
+          isLoading={isLoading}
+          emptyMessage={t('transfers.empty')}
+        />
+      </Card>
+    </div>
+  );
+}
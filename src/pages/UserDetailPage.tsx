@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useParams, useNavigate, Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import {
   ArrowLeft,
@@ -19,6 +19,11 @@ import {
   Hash,
   Filter,
   X,
+  BookOpen,
+  History,
+  FileWarning,
+  Users,
+  CalendarClock,
 } from 'lucide-react';
 import {
   XAxis,
@@ -31,8 +36,20 @@ import {
   Area,
 } from 'recharts';
 import { Card, CardHeader, Button, Badge, Modal, Input, Table } from '@/components/common';
+import FineLedgerCard from '@/components/fines/FineLedgerCard';
+import PatronStatusCard from '@/components/patrons/PatronStatusCard';
+import GroupCard from '@/components/groups/GroupCard';
+import GroupSelect from '@/components/groups/GroupSelect';
+import RenewalInfo from '@/components/loans/RenewalInfo';
+import LoanHistory from '@/components/loans/LoanHistory';
+import LoanStateBadge from '@/components/loans/LoanStateBadge';
+import LoanStateForm from '@/components/loans/LoanStateForm';
 import api from '@/services/api';
-import type { User as UserType, Loan, LoanStatsResponse, AdvancedStatsParams, StatsInterval } from '@/types';
+import { isGroup } from '@/types';
+import type { User as UserType, Loan, LoanSettings, OpeningCalendar, LoanStatsResponse, AdvancedStatsParams, StatsInterval } from '@/types';
+import { getApiErrorMessage } from '@/utils/apiError';
+import { getRenewalEligibility } from '@/utils/renewal';
+import { isCountedOverdue, hasLoanIssue } from '@/utils/loanState';
 import { PUBLIC_TYPE_OPTIONS, STATUS_OPTIONS } from '@/utils/codeLabels';
 
 export default function UserDetailPage() {
@@ -41,7 +58,14 @@ export default function UserDetailPage() {
   const { t, i18n } = useTranslation();
 
   const [user, setUser] = useState<UserType | null>(null);
+  /** Group account the user belongs to (class, school, family) */
+  const [group, setGroup] = useState<UserType | null>(null);
   const [loans, setLoans] = useState<Loan[]>([]);
+  const [loanSettings, setLoanSettings] = useState<LoanSettings[]>([]);
+  const [loansTab, setLoansTab] = useState<'current' | 'history'>('current');
+  /** Loan being reported lost, damaged or claimed returned */
+  const [stateLoan, setStateLoan] = useState<Loan | null>(null);
+  const [calendar, setCalendar] = useState<OpeningCalendar | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showDeleteModal, setShowDeleteModal] = useState(false);
@@ -73,12 +97,16 @@ export default function UserDetailPage() {
     const fetchData = async () => {
       if (!id) return;
       try {
-        const [userData, loansData] = await Promise.all([
+        const [userData, loansData, settingsData, calendarData] = await Promise.all([
           api.getUser(id),
           api.getUserLoans(id),
+          api.getSettings().catch(() => null),
+          api.getOpeningCalendar().catch(() => null),
         ]);
         setUser(userData);
         setLoans(loansData);
+        if (settingsData) setLoanSettings(settingsData.loan_settings);
+        setCalendar(calendarData);
       } catch (error) {
         console.error('Error fetching user:', error);
         navigate('/users');
@@ -90,6 +118,14 @@ export default function UserDetailPage() {
     fetchData();
   }, [id, navigate]);
 
+  useEffect(() => {
+    if (!user?.group_id) return;
+    api
+      .getUser(user.group_id)
+      .then(setGroup)
+      .catch((error) => console.error('Error fetching group:', error));
+  }, [user?.group_id]);
+
   // Init default filters when stats section is expanded
   useEffect(() => {
     if (showStats && user && !userStatsFilters) {
@@ -209,6 +245,7 @@ export default function UserDetailPage() {
       }
     } catch (error) {
       console.error('Error renewing loan:', error);
+      alert(getApiErrorMessage(error, t) || t('loans.errorRenewingLoan'));
     }
   };
 
@@ -228,7 +265,7 @@ export default function UserDetailPage() {
     );
   }
 
-  const overdueLoans = loans.filter((l) => l.is_overdue);
+  const overdueLoans = loans.filter(isCountedOverdue);
 
   const loanColumns = [
     {
@@ -267,7 +304,8 @@ export default function UserDetailPage() {
       render: (loan: Loan) => (
         <div className="flex items-center gap-2">
           <span>{new Date(loan.issue_date).toLocaleDateString('fr-FR')}</span>
-          {loan.is_overdue && <Badge variant="danger">Retard</Badge>}
+          {isCountedOverdue(loan) && <Badge variant="danger">Retard</Badge>}
+          <LoanStateBadge state={loan.state} />
         </div>
       ),
     },
@@ -279,32 +317,49 @@ export default function UserDetailPage() {
     {
       key: 'actions',
       header: 'Actions',
-      render: (loan: Loan) => (
-        <div className="flex items-center gap-2">
-          <Button
-            size="sm"
-            variant="ghost"
-            onClick={(e) => {
-              e.stopPropagation();
-              handleRenewLoan(loan.id);
-            }}
-            leftIcon={<RotateCcw className="h-4 w-4" />}
-          >
-            Prolonger
-          </Button>
-          <Button
-            size="sm"
-            variant="primary"
-            onClick={(e) => {
-              e.stopPropagation();
-              handleReturnLoan(loan.id);
-            }}
-            leftIcon={<Check className="h-4 w-4" />}
-          >
-            Retour
-          </Button>
-        </div>
-      ),
+      render: (loan: Loan) => {
+        const eligibility = getRenewalEligibility(loan, loanSettings, user, calendar);
+        return (
+          <div className="space-y-1">
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleRenewLoan(loan.id);
+                }}
+                disabled={!eligibility.canRenew || hasLoanIssue(loan)}
+                leftIcon={<RotateCcw className="h-4 w-4" />}
+              >
+                Prolonger
+              </Button>
+              <Button
+                size="sm"
+                variant="primary"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleReturnLoan(loan.id);
+                }}
+                leftIcon={<Check className="h-4 w-4" />}
+              >
+                Retour
+              </Button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setStateLoan(loan);
+                }}
+                className="p-2 rounded-lg text-gray-400 hover:text-amber-600 hover:bg-gray-100 dark:hover:bg-gray-800"
+                title={t('loans.state.report')}
+              >
+                <FileWarning className="h-4 w-4" />
+              </button>
+            </div>
+            <RenewalInfo eligibility={eligibility} />
+          </div>
+        );
+      },
     },
   ];
 
@@ -334,6 +389,15 @@ export default function UserDetailPage() {
                 <Badge variant="danger">{overdueLoans.length} retard{overdueLoans.length > 1 ? 's' : ''}</Badge>
               )}
             </div>
+            {user.group_id && group && group.id === user.group_id && (
+              <Link
+                to={`/users/${group.id}`}
+                className="inline-flex items-center gap-1.5 mt-2 text-sm text-indigo-600 dark:text-indigo-400 hover:underline"
+              >
+                <Users className="h-4 w-4" />
+                {t('groups.memberOf', { name: `${group.firstname ?? ''} ${group.lastname ?? ''}`.trim() })}
+              </Link>
+            )}
           </div>
         </div>
 
@@ -374,23 +438,78 @@ export default function UserDetailPage() {
         </Card>
 
         {/* Loans */}
-        <div className="lg:col-span-2">
-          <Card padding="none">
-            <div className="p-4 sm:p-6 border-b border-gray-200 dark:border-gray-800">
-              <CardHeader
-                title={t('loans.activeLoans')}
+        <div className="lg:col-span-2 space-y-4">
+          <div className="border-b border-gray-200 dark:border-gray-800">
+            <nav className="-mb-px flex space-x-8">
+              {(['current', 'history'] as const).map((tab) => (
+                <button
+                  key={tab}
+                  onClick={() => setLoansTab(tab)}
+                  className={`py-3 px-1 border-b-2 font-medium text-sm ${
+                    loansTab === tab
+                      ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                      : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    {tab === 'current' ? <BookOpen className="h-4 w-4" /> : <History className="h-4 w-4" />}
+                    {tab === 'current' ? t('loans.activeLoans') : t('loans.history.title')}
+                  </div>
+                </button>
+              ))}
+            </nav>
+          </div>
+          {loansTab === 'current' ? (
+            <Card padding="none">
+              <div className="p-4 sm:p-6 border-b border-gray-200 dark:border-gray-800">
+                <CardHeader
+                  title={t('loans.activeLoans')}
+                  action={
+                    loans.length > 0 && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => navigate(`/due-dates?user=${user.id}`)}
+                        leftIcon={<CalendarClock className="h-4 w-4" />}
+                      >
+                        {t('dueDates.extendAll')}
+                      </Button>
+                    )
+                  }
+                />
+              </div>
+              <Table
+                columns={loanColumns}
+                data={loans}
+                keyExtractor={(loan) => loan.id}
+                emptyMessage={t('loans.noLoans')}
               />
-            </div>
-            <Table
-              columns={loanColumns}
-              data={loans}
-              keyExtractor={(loan) => loan.id}
-              emptyMessage={t('loans.noLoans')}
-            />
-          </Card>
+            </Card>
+          ) : (
+            <LoanHistory userId={user.id} retentionDisabled={user.keep_loan_history === false} />
+          )}
         </div>
       </div>
 
+      {/* Group members, aggregated loans and quotas */}
+      {isGroup(user.account_type) && (
+        <GroupCard
+          groupId={user.id}
+          onCheckout={() =>
+            api
+              .getUserLoans(user.id)
+              .then(setLoans)
+              .catch((error) => console.error('Error fetching loans:', error))
+          }
+        />
+      )}
+
+      {/* Fines and fees */}
+      <FineLedgerCard userId={user.id} loans={loans} canManage />
+
+      {/* Blocks, alerts and block overrides */}
+      <PatronStatusCard userId={user.id} />
+
       {/* Loan statistics section */}
       <Card>
         <div
@@ -658,6 +777,19 @@ export default function UserDetailPage() {
           }}
         />
       </Modal>
+
+      {/* Lost / damaged / claims returned */}
+      <Modal isOpen={stateLoan !== null} onClose={() => setStateLoan(null)} title={t('loans.state.report')}>
+        {stateLoan && (
+          <LoanStateForm
+            loan={stateLoan}
+            onSuccess={() => {
+              setStateLoan(null);
+              api.getUserLoans(user.id).then(setLoans);
+            }}
+          />
+        )}
+      </Modal>
     </div>
   );
 }
@@ -701,7 +833,7 @@ function EditUserForm({ user, onSuccess }: EditUserFormProps) {
     addr_city: user.addr_city || '',
     notes: user.notes || '',
     fee: user.fee || '',
-    group_id: user.group_id?.toString() || '',
+    group_id: user.group_id ?? '',
     public_type: user.public_type?.toString() || '',
     status: user.status?.toString() || '',
     account_type: user.account_type || 'Reader',
@@ -713,6 +845,8 @@ function EditUserForm({ user, onSuccess }: EditUserFormProps) {
     { value: 'Librarian', label: t('users.librarian') },
     { value: 'Administrator', label: t('users.administrator') },
     { value: 'Guest', label: t('users.guest') },
+    { value: 'Kiosk', label: t('users.kiosk') },
+    { value: 'Group', label: t('users.group') },
   ];
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -732,7 +866,7 @@ function EditUserForm({ user, onSuccess }: EditUserFormProps) {
         addr_city: formData.addr_city || undefined,
         notes: formData.notes || undefined,
         fee: formData.fee || undefined,
-        group_id: formData.group_id ? parseInt(formData.group_id) : undefined,
+        group_id: formData.group_id || undefined,
         public_type: formData.public_type ? parseInt(formData.public_type) : undefined,
         status: formData.status ? parseInt(formData.status) : undefined,
         account_type: formData.account_type || undefined,
@@ -866,11 +1000,11 @@ function EditUserForm({ user, onSuccess }: EditUserFormProps) {
         />
       </div>
       <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-        <Input
+        <GroupSelect
           label={t('users.groupId')}
-          type="number"
           value={formData.group_id}
-          onChange={(e) => setFormData({ ...formData, group_id: e.target.value })}
+          onChange={(groupId) => setFormData({ ...formData, group_id: groupId })}
+          excludeId={user.id}
         />
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { Plus, Mail, Phone, BookMarked, AlertTriangle, MapPin } from 'lucide-react';
 import { Card, Button, Table, Badge, Pagination, SearchInput, Modal, Input } from '@/components/common';
+import GroupSelect from '@/components/groups/GroupSelect';
 import api from '@/services/api';
 import type { UserShort } from '@/types';
 import { PUBLIC_TYPE_OPTIONS, getCodeLabel } from '@/utils/codeLabels';
@@ -202,6 +203,8 @@ function CreateUserForm({ onSuccess }: CreateUserFormProps) {
     { value: 'Librarian', label: t('users.librarian') },
     { value: 'Administrator', label: t('users.administrator') },
     { value: 'Guest', label: t('users.guest') },
+    { value: 'Kiosk', label: t('users.kiosk') },
+    { value: 'Group', label: t('users.group') },
   ];
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -223,7 +226,7 @@ function CreateUserForm({ onSuccess }: CreateUserFormProps) {
         addr_city: formData.addr_city || undefined,
         notes: formData.notes || undefined,
         fee: formData.fee || undefined,
-        group_id: formData.group_id ? parseInt(formData.group_id) : undefined,
+        group_id: formData.group_id || undefined,
         public_type: formData.public_type ? parseInt(formData.public_type) : undefined,
       };
       await api.createUser(createData);
@@ -352,11 +355,10 @@ function CreateUserForm({ onSuccess }: CreateUserFormProps) {
         />
       </div>
       <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-        <Input
+        <GroupSelect
           label={t('users.groupId')}
-          type="number"
           value={formData.group_id}
-          onChange={(e) => setFormData({ ...formData, group_id: e.target.value })}
+          onChange={(groupId) => setFormData({ ...formData, group_id: groupId })}
         />
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
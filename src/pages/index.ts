@@ -6,10 +6,20 @@ export { default as UsersPage } from './UsersPage';
 export { default as UserDetailPage } from './UserDetailPage';
 export { default as MyLoansPage } from './MyLoansPage';
 export { default as LoansPage } from './LoansPage';
+export { default as HoldsPage } from './HoldsPage';
+export { default as OverduesPage } from './OverduesPage';
+export { default as ClaimsReturnedPage } from './ClaimsReturnedPage';
+export { default as DueDateExtensionPage } from './DueDateExtensionPage';
+export { default as TransfersPage } from './TransfersPage';
 export { default as StatsPage } from './StatsPage';
 export { default as SettingsPage } from './SettingsPage';
 export { default as Z3950SearchPage } from './Z3950SearchPage';
 export { default as ProfilePage } from './ProfilePage';
 export { default as ImportIsoPage } from './ImportIsoPage';
+export { default as DuplicatesPage } from './DuplicatesPage';
+export { default as AuthorsPage } from './AuthorsPage';
+export { default as AuthorDetailPage } from './AuthorDetailPage';
+export { default as SeriesPage } from './SeriesPage';
 
 
+export { default as KioskPage } from './KioskPage';
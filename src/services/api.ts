@@ -8,6 +8,23 @@ import type {
   ItemShort,
   ImportResult,
   Loan,
+  LoanReturnResult,
+  LoanState,
+  KioskSession,
+  PatronStatus,
+  GroupQuota,
+  DueDateFeed,
+  DueDateExtensionRequest,
+  DueDateExtensionResult,
+  PatronBlock,
+  PatronAlert,
+  BlockOverride,
+  Hold,
+  HoldStatus,
+  OverdueSortField,
+  FineLedger,
+  OpeningCalendar,
+  FineEntry,
   Stats,
   Settings,
   PaginatedResponse,
@@ -29,9 +46,26 @@ import type {
   CreateItemSpecimenInput,
   CreateSpecimen,
   UpdateSpecimen,
+  SpecimenCirculation,
+  SpecimenTransfer,
+  FacetSelection,
+  ItemFacets,
+  MarcFormat,
+  SavedSearch,
+  Author,
+  AuthorSummary,
+  AuthorWork,
+  Serie,
+  Collection,
+  NumberedItem,
+  DuplicateCluster,
+  DuplicateMatch,
+  MergeItemsRequest,
+  TransferStatus,
   EnqueueResult,
   MarcBatchImportReport,
 } from '@/types';
+import { facetSelectionToParams } from '@/utils/facets';
 
 const API_BASE_URL = '/api/v1';
 
@@ -166,15 +200,38 @@ class ApiService {
     media_type?: MediaType;
     audience_type?: number;
     freesearch?: string;
+    /** Boolean query in the catalog text syntax (see utils/catalogQuery) */
+    q?: string;
     page?: number;
     per_page?: number;
     archive?: boolean;
+    facets?: FacetSelection;
   }): Promise<PaginatedResponse<ItemShort>> {
-    const response = await this.client.get<PaginatedResponse<ItemShort>>('/items', { params });
+    const { facets, ...rest } = params ?? {};
+    const response = await this.client.get<PaginatedResponse<ItemShort>>('/items', {
+      params: { ...rest, ...facetSelectionToParams(facets ?? {}) },
+    });
+    return response.data;
+  }
+
+  /** Result counts per facet value for the same search as getItems */
+  async getItemFacets(params?: {
+    title?: string;
+    author?: string;
+    isbn?: string;
+    freesearch?: string;
+    q?: string;
+    facets?: FacetSelection;
+  }): Promise<ItemFacets> {
+    const { facets, ...rest } = params ?? {};
+    const response = await this.client.get<ItemFacets>('/items/facets', {
+      params: { ...rest, ...facetSelectionToParams(facets ?? {}) },
+    });
     return response.data;
   }
 
-  async getItem(id: string, params?: { full_record?: boolean }): Promise<Item> {
+  /** `marc_format` asks the server to convert marc_record to that format (with full_record) */
+  async getItem(id: string, params?: { full_record?: boolean; marc_format?: MarcFormat }): Promise<Item> {
     const response = await this.client.get<Item>(`/items/${id}`, { params });
     return response.data;
   }
@@ -202,6 +259,27 @@ class ApiService {
     await this.client.delete(`/items/${id}`, { params: { force } });
   }
 
+  async archiveItem(id: string): Promise<Item> {
+    const response = await this.client.post<Item>(`/items/${id}/archive`);
+    return response.data;
+  }
+
+  async getDuplicateClusters(params?: {
+    match?: DuplicateMatch;
+    min_score?: number;
+    page?: number;
+    per_page?: number;
+  }): Promise<PaginatedResponse<DuplicateCluster>> {
+    const response = await this.client.get<PaginatedResponse<DuplicateCluster>>('/items/duplicates', { params });
+    return response.data;
+  }
+
+  /** Specimens of the merged items are moved onto the survivor before they are deleted */
+  async mergeItems(survivorId: string, data: MergeItemsRequest): Promise<Item> {
+    const response = await this.client.post<Item>(`/items/${survivorId}/merge`, data);
+    return response.data;
+  }
+
   async updateSpecimen(itemId: string, specimenId: string, data: UpdateSpecimen): Promise<Specimen> {
 
 
@@ -216,6 +294,24 @@ class ApiService {
     await this.client.delete(`/items/${itemId}/specimens/${specimenId}`, { params: { force } });
   }
 
+  /** Current loan and lifetime loan count of each specimen of the item */
+  async getSpecimenCirculation(itemId: string): Promise<SpecimenCirculation[]> {
+    const response = await this.client.get<SpecimenCirculation[]>(`/items/${itemId}/specimens/circulation`);
+    return response.data;
+  }
+
+  async getSpecimenLoanHistory(
+    itemId: string,
+    specimenId: string,
+    params?: { page?: number; per_page?: number }
+  ): Promise<PaginatedResponse<Loan>> {
+    const response = await this.client.get<PaginatedResponse<Loan>>(
+      `/items/${itemId}/specimens/${specimenId}/loans`,
+      { params }
+    );
+    return response.data;
+  }
+
   async createSpecimen(itemId: string, data: CreateSpecimen): Promise<Specimen> {
     const response = await this.client.post<Specimen>(`/items/${itemId}/specimens`, data);
     return response.data;
@@ -225,6 +321,7 @@ class ApiService {
   async getUsers(params?: {
     name?: string;
     barcode?: string;
+    account_type?: string;
     page?: number;
     per_page?: number;
   }): Promise<PaginatedResponse<UserShort>> {
@@ -257,17 +354,40 @@ class ApiService {
     return response.data;
   }
 
+  /** Returned loans of the user, most recent first */
+  async getUserLoanHistory(
+    userId: string,
+    params?: {
+      page?: number;
+      per_page?: number;
+      title?: string;
+      /** Loans started on or after this date (YYYY-MM-DD) */
+      from?: string;
+      /** Loans started on or before this date (YYYY-MM-DD) */
+      to?: string;
+    }
+  ): Promise<PaginatedResponse<Loan>> {
+    const response = await this.client.get<PaginatedResponse<Loan>>(`/users/${userId}/loans/history`, { params });
+    return response.data;
+  }
+
   async createLoan(data: {
     user_id: string;
     specimen_id?: string;
     specimen_identification?: string;
     force?: boolean;
+    /** Required with force: recorded with the staff member in the block override log */
+    override_reason?: string;
+    /** Checkout time when replaying a transaction recorded offline */
+    issued_at?: string;
+    /** Checkout to a group account: the member answerable for the copy */
+    responsible_id?: string;
   }): Promise<{ id: string; issue_date: string; message: string }> {
     const response = await this.client.post('/loans', data);
     return response.data;
   }
 
-  async returnLoan(loanId: string): Promise<{ status: string; loan: Loan }> {
+  async returnLoan(loanId: string): Promise<LoanReturnResult> {
     const response = await this.client.post(`/loans/${loanId}/return`);
     return response.data;
   }
@@ -277,8 +397,213 @@ class ApiService {
     return response.data;
   }
 
-  async returnLoanByBarcode(specimenBarcode: string): Promise<{ status: string; loan: Loan }> {
-    const response = await this.client.post(`/loans/specimens/${specimenBarcode}/return`);
+  /** sourceId is the branch of the desk where the copy is returned (see LoanReturnResult.route_to) */
+  async returnLoanByBarcode(specimenBarcode: string, returnedAt?: string, sourceId?: string): Promise<LoanReturnResult> {
+    const response = await this.client.post(
+      `/loans/specimens/${specimenBarcode}/return`,
+      returnedAt || sourceId ? { returned_at: returnedAt, source_id: sourceId } : undefined
+    );
+    return response.data;
+  }
+
+  async getOverdueLoans(params?: {
+    page?: number;
+    per_page?: number;
+    min_days?: number;
+    media_type?: string;
+    public_type?: string;
+    sort_by?: OverdueSortField;
+    sort_order?: 'asc' | 'desc';
+    /** Leaves out loans in this state (e.g. claims returned, followed up on their own screen) */
+    exclude_state?: LoanState;
+  }): Promise<PaginatedResponse<Loan>> {
+    const response = await this.client.get<PaginatedResponse<Loan>>('/loans/overdue', { params });
+    return response.data;
+  }
+
+  /** Reports a loan as lost, damaged or claimed returned by the reader */
+  async setLoanState(
+    loanId: string,
+    data: {
+      state: Exclude<LoanState, 'active'>;
+      reason: string;
+      date: string;
+      /** Lost only: archive the specimen */
+      archive_specimen?: boolean;
+      /** Lost only: replacement cost charged to the reader */
+      charge_amount?: number;
+    }
+  ): Promise<Loan> {
+    const response = await this.client.post<Loan>(`/loans/${loanId}/state`, data);
+    return response.data;
+  }
+
+  async getLoansByState(
+    state: Exclude<LoanState, 'active'>,
+    params?: { page?: number; per_page?: number }
+  ): Promise<PaginatedResponse<Loan>> {
+    const response = await this.client.get<PaginatedResponse<Loan>>('/loans', { params: { ...params, state } });
+    return response.data;
+  }
+
+  /** Moves the due date of every active loan due within the range to the next open day */
+  async pushDueDatesForClosure(range: { start_date: string; end_date: string }): Promise<{ updated: number }> {
+    const response = await this.client.post<{ updated: number }>('/loans/push-due-dates', range);
+    return response.data;
+  }
+
+  async extendDueDates(data: DueDateExtensionRequest): Promise<DueDateExtensionResult> {
+    const response = await this.client.post<DueDateExtensionResult>('/loans/extend-due-dates', data);
+    return response.data;
+  }
+
+  // Transfers between sources
+  async getTransfers(params?: {
+    source_id?: string;
+    direction?: 'incoming' | 'outgoing';
+    status?: TransferStatus;
+  }): Promise<SpecimenTransfer[]> {
+    const response = await this.client.get<SpecimenTransfer[]>('/transfers', { params });
+    return response.data;
+  }
+
+  /** Sends a copy to another source: it is in transit until received there */
+  async createTransfer(data: { specimen_barcode: string; to_source_id: string }): Promise<SpecimenTransfer> {
+    const response = await this.client.post<SpecimenTransfer>('/transfers', data);
+    return response.data;
+  }
+
+  /** Receives an in-transit copy scanned at the given source */
+  async receiveTransfer(data: { specimen_barcode: string; source_id: string }): Promise<SpecimenTransfer> {
+    const response = await this.client.post<SpecimenTransfer>('/transfers/receive', data);
+    return response.data;
+  }
+
+  async cancelTransfer(transferId: string): Promise<void> {
+    await this.client.post(`/transfers/${transferId}/cancel`);
+  }
+
+  // Patron blocks and alerts
+  async getPatronStatus(userId: string): Promise<PatronStatus> {
+    const response = await this.client.get<PatronStatus>(`/users/${userId}/blocks`);
+    return response.data;
+  }
+
+  async addPatronBlock(userId: string, data: { reason: string }): Promise<PatronBlock> {
+    const response = await this.client.post<PatronBlock>(`/users/${userId}/blocks`, data);
+    return response.data;
+  }
+
+  async removePatronBlock(userId: string, blockId: string): Promise<void> {
+    await this.client.delete(`/users/${userId}/blocks/${blockId}`);
+  }
+
+  async addPatronAlert(userId: string, data: { message: string }): Promise<PatronAlert> {
+    const response = await this.client.post<PatronAlert>(`/users/${userId}/alerts`, data);
+    return response.data;
+  }
+
+  async removePatronAlert(userId: string, alertId: string): Promise<void> {
+    await this.client.delete(`/users/${userId}/alerts/${alertId}`);
+  }
+
+  async getBlockOverrides(userId: string): Promise<BlockOverride[]> {
+    const response = await this.client.get<BlockOverride[]>(`/users/${userId}/block-overrides`);
+    return response.data;
+  }
+
+  // Group accounts
+  async getGroupMembers(groupId: string): Promise<UserShort[]> {
+    const response = await this.client.get<UserShort[]>(`/users/${groupId}/members`);
+    return response.data;
+  }
+
+  /** Current loans of the group account and of all its members */
+  async getGroupLoans(groupId: string): Promise<Loan[]> {
+    const response = await this.client.get<Loan[]>(`/users/${groupId}/members/loans`);
+    return response.data;
+  }
+
+  async getGroupQuota(groupId: string): Promise<GroupQuota> {
+    const response = await this.client.get<GroupQuota>(`/users/${groupId}/group-quota`);
+    return response.data;
+  }
+
+  async updateGroupQuota(groupId: string, quota: GroupQuota): Promise<GroupQuota> {
+    const response = await this.client.put<GroupQuota>(`/users/${groupId}/group-quota`, quota);
+    return response.data;
+  }
+
+  // Kiosk (self-checkout)
+  async openKioskSession(data: { barcode: string; pin?: string }): Promise<KioskSession> {
+    const response = await this.client.post<KioskSession>('/kiosk/sessions', data);
+    return response.data;
+  }
+
+  async kioskCheckout(sessionId: string, specimenBarcode: string): Promise<Loan> {
+    const response = await this.client.post<Loan>(`/kiosk/sessions/${sessionId}/checkout`, {
+      specimen_identification: specimenBarcode,
+    });
+    return response.data;
+  }
+
+  async kioskReturn(sessionId: string, specimenBarcode: string): Promise<LoanReturnResult> {
+    const response = await this.client.post<LoanReturnResult>(`/kiosk/sessions/${sessionId}/return`, {
+      specimen_identification: specimenBarcode,
+    });
+    return response.data;
+  }
+
+  async closeKioskSession(sessionId: string): Promise<void> {
+    await this.client.delete(`/kiosk/sessions/${sessionId}`);
+  }
+
+  /** Checks staff credentials before the station leaves kiosk mode (refused with 403, not 401, so the station stays signed in) */
+  async unlockKiosk(credentials: LoginRequest): Promise<void> {
+    await this.client.post('/kiosk/unlock', credentials);
+  }
+
+  // Holds
+  async getHolds(params?: {
+    user_id?: string;
+    item_id?: string;
+    status?: HoldStatus;
+  }): Promise<Hold[]> {
+    const response = await this.client.get<Hold[]>('/holds', { params });
+    return response.data;
+  }
+
+  async placeHold(data: { item_id: string; user_id?: string }): Promise<Hold> {
+    const response = await this.client.post<Hold>('/holds', data);
+    return response.data;
+  }
+
+  async cancelHold(holdId: string): Promise<void> {
+    await this.client.delete(`/holds/${holdId}`);
+  }
+
+  // Fines
+  async getUserFines(userId: string): Promise<FineLedger> {
+    const response = await this.client.get<FineLedger>(`/users/${userId}/fines`);
+    return response.data;
+  }
+
+  async recordFinePayment(userId: string, data: { amount: number; reason: string }): Promise<FineEntry> {
+    const response = await this.client.post<FineEntry>(`/users/${userId}/fines/payments`, data);
+    return response.data;
+  }
+
+  async waiveFine(userId: string, data: { amount: number; reason: string }): Promise<FineEntry> {
+    const response = await this.client.post<FineEntry>(`/users/${userId}/fines/waivers`, data);
+    return response.data;
+  }
+
+  /** Charges the replacement cost of a specimen; the server uses Specimen.price when amount is omitted */
+  async chargeReplacement(
+    userId: string,
+    data: { loan_id: string; amount?: number; reason?: string }
+  ): Promise<FineEntry> {
+    const response = await this.client.post<FineEntry>(`/users/${userId}/fines/replacements`, data);
     return response.data;
   }
 
@@ -345,6 +670,104 @@ class ApiService {
     return response.data;
   }
 
+  // Opening calendar
+  async getOpeningCalendar(): Promise<OpeningCalendar> {
+    const response = await this.client.get<OpeningCalendar>('/calendar');
+    return response.data;
+  }
+
+  async updateOpeningCalendar(calendar: OpeningCalendar): Promise<OpeningCalendar> {
+    const response = await this.client.put<OpeningCalendar>('/calendar', calendar);
+    return response.data;
+  }
+
+  /** Subscription URL of the current user's due-date feed (created on first call) */
+  async getDueDateFeed(): Promise<DueDateFeed> {
+    const response = await this.client.get<DueDateFeed>('/auth/me/due-dates-feed');
+    return response.data;
+  }
+
+  /** Issues a new token: the previous subscription URL stops working */
+  async resetDueDateFeed(): Promise<DueDateFeed> {
+    const response = await this.client.post<DueDateFeed>('/auth/me/due-dates-feed/reset');
+    return response.data;
+  }
+
+  // Series and collections
+  async getSerie(id: string): Promise<Serie> {
+    const response = await this.client.get<Serie>(`/series/${id}`);
+    return response.data;
+  }
+
+  async getSerieItems(id: string): Promise<NumberedItem[]> {
+    const response = await this.client.get<NumberedItem[]>(`/series/${id}/items`);
+    return response.data;
+  }
+
+  async updateSerie(id: string, data: Partial<Serie>): Promise<Serie> {
+    const response = await this.client.put<Serie>(`/series/${id}`, data);
+    return response.data;
+  }
+
+  async getCollection(id: string): Promise<Collection> {
+    const response = await this.client.get<Collection>(`/collections/${id}`);
+    return response.data;
+  }
+
+  async getCollectionItems(id: string): Promise<NumberedItem[]> {
+    const response = await this.client.get<NumberedItem[]>(`/collections/${id}/items`);
+    return response.data;
+  }
+
+  async updateCollection(id: string, data: Partial<Collection>): Promise<Collection> {
+    const response = await this.client.put<Collection>(`/collections/${id}`, data);
+    return response.data;
+  }
+
+  // Authors
+  async getAuthors(params?: { name?: string; page?: number; per_page?: number }): Promise<PaginatedResponse<AuthorSummary>> {
+    const response = await this.client.get<PaginatedResponse<AuthorSummary>>('/authors', { params });
+    return response.data;
+  }
+
+  async getAuthor(id: string): Promise<AuthorSummary> {
+    const response = await this.client.get<AuthorSummary>(`/authors/${id}`);
+    return response.data;
+  }
+
+  async getAuthorWorks(id: string, params?: { page?: number; per_page?: number }): Promise<PaginatedResponse<AuthorWork>> {
+    const response = await this.client.get<PaginatedResponse<AuthorWork>>(`/authors/${id}/items`, { params });
+    return response.data;
+  }
+
+  async updateAuthor(id: string, data: Partial<Author>): Promise<AuthorSummary> {
+    const response = await this.client.put<AuthorSummary>(`/authors/${id}`, data);
+    return response.data;
+  }
+
+  /** Links of the merged authors are moved onto the survivor, then the merged authors are deleted */
+  async mergeAuthors(survivorId: string, mergedAuthorIds: string[]): Promise<AuthorSummary> {
+    const response = await this.client.post<AuthorSummary>(`/authors/${survivorId}/merge`, {
+      merged_author_ids: mergedAuthorIds,
+    });
+    return response.data;
+  }
+
+  // Saved searches
+  async getSavedSearches(): Promise<SavedSearch[]> {
+    const response = await this.client.get<SavedSearch[]>('/auth/me/saved-searches');
+    return response.data;
+  }
+
+  async createSavedSearch(data: { name: string; query: string }): Promise<SavedSearch> {
+    const response = await this.client.post<SavedSearch>('/auth/me/saved-searches', data);
+    return response.data;
+  }
+
+  async deleteSavedSearch(id: string): Promise<void> {
+    await this.client.delete(`/auth/me/saved-searches/${id}`);
+  }
+
   // Sources
   async getSources(includeArchived = false): Promise<Source[]> {
     const response = await this.client.get<Source[]>('/sources', {
@@ -20,7 +20,7 @@ export interface User {
   birthdate?: string;
   notes?: string;
   fee?: string;
-  group_id?: number;
+  group_id?: string;
   public_type?: number;
   status?: number;
   // Date fields
@@ -31,6 +31,8 @@ export interface User {
   // 2FA fields
   two_factor_enabled?: boolean;
   two_factor_method?: string;
+  /** Reader's choice to keep returned loans in their history (default true) */
+  keep_loan_history?: boolean;
 }
 
 // Update profile request type
@@ -48,6 +50,7 @@ export interface UpdateProfileRequest {
   current_password?: string;
   new_password?: string;
   language?: string;
+  keep_loan_history?: boolean;
 }
 
 export interface UserShort {
@@ -56,6 +59,11 @@ export interface UserShort {
   lastname?: string;
   account_type?: string;
   public_type?: number;
+  email?: string;
+  // Address fields (used for reminder letters)
+  addr_street?: string;
+  addr_zip_code?: number;
+  addr_city?: string;
   /** @deprecated prefer counting loans.length (specimens) */
   nb_loans?: number;
   nb_late_loans?: number;
@@ -152,6 +160,18 @@ export interface Author {
   function?: string | null;
 }
 
+/** Author as listed in the authorities index */
+export interface AuthorSummary extends Author {
+  /** Number of catalog items linked to the author */
+  item_count: number;
+}
+
+/** Catalog item of an author, with the role (FUNCTION_OPTIONS code) they had in it */
+export interface AuthorWork {
+  item: ItemShort;
+  function?: string | null;
+}
+
 export interface Edition {
   id: string | null;
   publisher_name?: string | null;
@@ -175,6 +195,16 @@ export interface Collection {
   issn?: string | null;
 }
 
+/** Series and collections share the same browse pages */
+export type ItemGroupKind = 'series' | 'collection';
+
+/** Member of a series (by series_volume_number) or collection (by collection_sequence_number) */
+export interface NumberedItem {
+  item: ItemShort;
+  /** Volume or sequence number; null when the record has none */
+  number?: number | null;
+}
+
 export interface Item {
   id?: string | null;
   marc_format?: string | null;
@@ -214,7 +244,31 @@ export interface Item {
   collection?: Collection | null;
   edition?: Edition | null;
   specimens?: Specimen[];
-  marc_record?: unknown;
+  /** Only returned with `full_record: true` */
+  marc_record?: MarcRecord | null;
+}
+
+// MARC record types
+export type MarcFormat = 'UNIMARC' | 'MARC21';
+
+export interface MarcSubfield {
+  code: string;
+  value: string;
+}
+
+export interface MarcField {
+  tag: string;
+  /** Indicators are one character each; blank is a space (displayed '#') */
+  ind1?: string;
+  ind2?: string;
+  /** Control fields (00X) carry a value instead of indicators and subfields */
+  value?: string;
+  subfields?: MarcSubfield[];
+}
+
+export interface MarcRecord {
+  leader: string;
+  fields: MarcField[];
 }
 
 /** Simplified specimen as returned in ItemShort.specimens */
@@ -243,6 +297,73 @@ export interface ItemShort {
   source_name?: string | null;
 }
 
+// Catalog facet types
+export type FacetField = 'media_type' | 'audience_type' | 'lang' | 'genre' | 'year' | 'source' | 'availability';
+
+export interface FacetCount {
+  /** Code sent back as filter value ('1990-1999' style ranges for year, source id for source) */
+  value: string;
+  count: number;
+  /** Display name when the value is not a code (source names) */
+  label?: string | null;
+}
+
+export type ItemFacets = Partial<Record<FacetField, FacetCount[]>>;
+
+/** Selected facet values: values of one field are OR-ed, fields are AND-ed */
+export type FacetSelection = Partial<Record<FacetField, string[]>>;
+
+// Catalog query types
+/** Searchable fields of the boolean query language; 'any' is an unprefixed term */
+export type QueryField = 'any' | 'title' | 'author' | 'subject' | 'keywords' | 'publisher' | 'isbn' | 'call_number' | 'date';
+
+export type QueryOperator = 'AND' | 'OR';
+
+export interface QueryCondition {
+  kind: 'condition';
+  field: QueryField;
+  /** Free text, or 'from..to' for date (either bound may be empty) */
+  value: string;
+  negate?: boolean;
+}
+
+export interface QueryGroup {
+  kind: 'group';
+  operator: QueryOperator;
+  negate?: boolean;
+  children: QueryNode[];
+}
+
+export type QueryNode = QueryCondition | QueryGroup;
+
+/** A catalog query stored for the current user, in text syntax */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  created_at?: string;
+}
+
+// Duplicate detection types
+/** Rule that grouped records together: same ISBN, or same normalised title + author + year */
+export type DuplicateMatch = 'isbn' | 'title_author_year';
+
+export interface DuplicateCluster {
+  /** Normalised ISBN or title/author/year key shared by the records */
+  key: string;
+  match: DuplicateMatch;
+  /** Similarity of the records, 0 to 1 */
+  score: number;
+  items: ItemShort[];
+}
+
+/** Payload for POST /items/{id}/merge: the path item survives, the others are deleted */
+export interface MergeItemsRequest {
+  merged_item_ids: string[];
+  /** Bibliographic values chosen for the surviving record */
+  fields: Partial<Item>;
+}
+
 export interface Specimen {
   id: string;
   item_id?: string | null;
@@ -262,6 +383,14 @@ export interface Specimen {
   availability?: number | null;
 }
 
+/** Circulation of a specimen, for staff only (readers just see availability) */
+export interface SpecimenCirculation {
+  specimen_id: string;
+  current_loan?: Loan | null;
+  /** Lifetime number of loans of the specimen */
+  total_loans: number;
+}
+
 /** Specimen data when creating an item in one request (POST /items with specimens) */
 export interface CreateItemSpecimenInput {
   barcode?: string | null;
@@ -295,6 +424,9 @@ export interface UpdateSpecimen {
 }
 
 // Loan types
+/** 'active' is a regular loan; the other states are set by staff and follow up on problem loans */
+export type LoanState = 'active' | 'lost' | 'damaged' | 'claims_returned';
+
 export interface Loan {
   id: string;
   start_date: string;
@@ -305,6 +437,184 @@ export interface Loan {
   user?: UserShort;
   specimen_identification?: string;
   is_overdue: boolean;
+  /** Days past issue_date, returned by the overdue listing */
+  days_overdue?: number;
+  /** Pending holds on the item (a waiting hold prevents renewal) */
+  holds_count?: number;
+  /** Set on returned loans (loan history) */
+  returned_date?: string | null;
+  state?: LoanState;
+  state_reason?: string | null;
+  /** Date the state was reported (YYYY-MM-DD) */
+  state_date?: string | null;
+  /** Group loans: the member answerable for the copy */
+  responsible?: UserShort | null;
+}
+
+// Bulk due-date extension types
+export type DueDateExtensionScope = 'due_range' | 'user' | 'media_type';
+
+/** Moves the due date of many active loans at once; never counted as a renewal (nb_renews is unchanged) */
+export interface DueDateExtensionRequest {
+  scope: DueDateExtensionScope;
+  /** scope 'due_range': loans due between these dates (YYYY-MM-DD, inclusive) */
+  due_from?: string;
+  due_to?: string;
+  /** scope 'user' */
+  user_id?: string;
+  /** scope 'media_type' */
+  media_type?: MediaType;
+  /** Either a fixed new due date (YYYY-MM-DD)... */
+  new_due_date?: string;
+  /** ...or a number of days added to each loan's current due date */
+  extend_days?: number;
+  /** Only list the affected loans, without changing them */
+  dry_run?: boolean;
+  /** Loans listed by the preview: only these are changed, even if the criteria now match others */
+  loan_ids?: string[];
+}
+
+export interface DueDateExtensionResult {
+  updated: number;
+  loans: Loan[];
+}
+
+// Fines types
+/** Charges (overdue, replacement) are positive amounts, payments and waivers negative */
+export type FineEntryType = 'overdue' | 'replacement' | 'payment' | 'waiver';
+
+export interface FineEntry {
+  id: string;
+  type: FineEntryType;
+  amount: number;
+  reason?: string | null;
+  loan_id?: string | null;
+  item?: ItemShort | null;
+  created_at: string;
+  created_by?: UserShort | null;
+}
+
+export interface FineLedger {
+  user_id: string;
+  /** Amount still owed (sum of all entries) */
+  balance: number;
+  currency?: string;
+  entries: FineEntry[];
+}
+
+export type OverdueSortField = 'issue_date' | 'user' | 'title';
+export type ReminderLevel = 'first' | 'second' | 'final';
+
+// Hold (reservation) types
+export type HoldStatus = 'pending' | 'ready' | 'fulfilled' | 'cancelled' | 'expired';
+
+export interface Hold {
+  id: string;
+  item: ItemShort;
+  user?: UserShort;
+  /** Specimen set aside for the reader once the hold is ready */
+  specimen_id?: string | null;
+  status: HoldStatus;
+  /** 1-based position in the item's queue (pending holds only) */
+  position?: number | null;
+  created_at: string;
+  ready_at?: string | null;
+  expires_at?: string | null;
+}
+
+/** Response of POST /loans/{id}/return and /loans/specimens/{barcode}/return */
+export interface LoanReturnResult {
+  status: string;
+  loan: Loan;
+  /** Next hold in the queue, now ready for pickup, when the returned copy is reserved */
+  hold?: Hold | null;
+  /** Set when the copy was returned at another branch than its own: it must be sent back there */
+  route_to?: Source | null;
+}
+
+// Patron blocks and alerts types
+/** 'manual' blocks are set by staff; the others are computed by the server from the reader's record */
+export type PatronBlockKind = 'manual' | 'membership_expired' | 'too_many_overdues' | 'unpaid_fees';
+
+export interface PatronBlock {
+  /** Only manual blocks have an id (and can be lifted) */
+  id?: string | null;
+  kind: PatronBlockKind;
+  reason?: string | null;
+  created_at?: string | null;
+  created_by?: UserShort | null;
+}
+
+/** Free-text note shown to staff when the reader is selected at the desk */
+export interface PatronAlert {
+  id: string;
+  message: string;
+  created_at: string;
+  created_by?: UserShort | null;
+}
+
+export interface PatronStatus {
+  blocks: PatronBlock[];
+  alerts: PatronAlert[];
+}
+
+/** Audit record of a loan forced despite the reader's blocks */
+export interface BlockOverride {
+  id: string;
+  loan_id?: string | null;
+  item?: ItemShort | null;
+  specimen_identification?: string | null;
+  reason: string;
+  /** Blocks in effect when the loan was forced */
+  blocks: PatronBlockKind[];
+  created_at: string;
+  created_by?: UserShort | null;
+}
+
+// Group account types
+/** Loan quotas shared by a group account and its members */
+export interface GroupQuota {
+  /** Maximum loans for the group and all its members together (null = no group-wide limit) */
+  max_loans?: number | null;
+  /** Maximum loans per member, overriding their own loan rules (null = member's own rules) */
+  max_loans_per_member?: number | null;
+}
+
+// Kiosk types
+/** Reader session opened on a self-checkout station, after card (and PIN) identification */
+export interface KioskSession {
+  session_id: string;
+  user: UserShort;
+  /** Current loans of the reader */
+  loans: Loan[];
+}
+
+// Offline circulation types
+export type OfflineTransactionKind = 'checkout' | 'return';
+
+/** Circulation transaction recorded at the desk while the server could not be reached */
+export interface OfflineTransaction {
+  /** IndexedDB key, assigned when the transaction is queued */
+  id?: number;
+  kind: OfflineTransactionKind;
+  specimen_identification: string;
+  /** Borrower, for checkouts */
+  user_id?: string;
+  /** Borrower's name at recording time, for the conflict report */
+  user_label?: string;
+  /** Checkouts: the borrower's blocks were overridden at the desk, with this reason */
+  force?: boolean;
+  override_reason?: string;
+  /** When the transaction happened at the desk (ISO 8601) */
+  recorded_at: string;
+}
+
+/** Offline transaction rejected by the server on replay */
+export interface OfflineConflict {
+  /** IndexedDB key, assigned when the conflict is stored */
+  id?: number;
+  transaction: OfflineTransaction;
+  message: string;
 }
 
 // Stats types
@@ -475,13 +785,62 @@ export interface LoanSettings {
   max_loans: number;
   max_renewals: number;
   duration_days: number;
+  /** Overdue fine accrued per day late (null = no fine for this media type) */
+  fine_per_day?: number | null;
+  /** Cap on the overdue fine of a single loan */
+  max_fine?: number | null;
+}
+
+export interface FineSettings {
+  /** ISO 4217 code used to display amounts */
+  currency: string;
+  /** Checkout shows a warning when the user's balance is above this amount */
+  warning_threshold: number;
 }
 
 export interface Settings {
   loan_settings: LoanSettings[];
+  fine_settings?: FineSettings;
   z3950_servers: Z3950Server[];
 }
 
+// Opening calendar types
+export interface OpeningPeriod {
+  /** "HH:MM" */
+  open: string;
+  close: string;
+}
+
+export interface OpeningHours {
+  /** 0 = Sunday … 6 = Saturday (Date.getDay) */
+  weekday: number;
+  /** No period means closed that day */
+  periods: OpeningPeriod[];
+}
+
+export type ClosureKind = 'closure' | 'holiday';
+
+export interface Closure {
+  id?: string;
+  /** Inclusive "YYYY-MM-DD" range */
+  start_date: string;
+  end_date: string;
+  label?: string | null;
+  kind: ClosureKind;
+}
+
+export interface OpeningCalendar {
+  weekly_hours: OpeningHours[];
+  closures: Closure[];
+}
+
+/** Private iCalendar subscription of a reader's due dates, served by the API from live loans */
+export interface DueDateFeed {
+  /** Token-based URL: anyone holding it can read the feed */
+  url: string;
+  created_at?: string;
+}
+
 export interface Z3950Server {
   id: string;
   name: string;
@@ -504,6 +863,23 @@ export interface Source {
   default?: boolean;
 }
 
+// Transfer types
+export type TransferStatus = 'in_transit' | 'received' | 'cancelled';
+
+/** A specimen sent from one source (branch) to another; its source_id changes on receipt */
+export interface SpecimenTransfer {
+  id: string;
+  specimen_id: string;
+  specimen_barcode?: string | null;
+  item?: ItemShort | null;
+  from_source: Source;
+  to_source: Source;
+  status: TransferStatus;
+  sent_at: string;
+  sent_by?: UserShort | null;
+  received_at?: string | null;
+}
+
 // Account types for permissions
 export type AccountType = 'Guest' | 'Reader' | 'Librarian' | 'Administrator';
 
@@ -515,6 +891,14 @@ export const isLibrarian = (accountType?: string): boolean => {
   return normalized === 'admin' || normalized === 'librarian';
 };
 
+/** Dedicated account of self-checkout stations: only reaches the kiosk route */
+export const isKiosk = (accountType?: string): boolean =>
+  accountType?.trim().toLowerCase() === 'kiosk';
+
+/** Group accounts (classes, schools, families) borrow on behalf of their members */
+export const isGroup = (accountType?: string): boolean =>
+  accountType?.trim().toLowerCase() === 'group';
+
 export const canManageItems = (accountType?: string): boolean => 
   isLibrarian(accountType);
 
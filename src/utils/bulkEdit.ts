@@ -0,0 +1,84 @@
+import type { Collection, Item, MediaType, Serie } from '@/types';
+
+/**
+ * Bulk edit of catalog items: the same set of changes is planned against each full record,
+ * so the preview shows exactly what will be sent and records already up to date are skipped.
+ */
+export type BulkField = 'media_type' | 'audience_type' | 'genre' | 'lang' | 'collection' | 'series' | 'keywords';
+
+export const BULK_FIELDS: BulkField[] = ['media_type', 'audience_type', 'genre', 'lang', 'collection', 'series', 'keywords'];
+
+export interface BulkItemChanges {
+  media_type?: MediaType;
+  audience_type?: number;
+  genre?: number;
+  lang?: number;
+  collection?: Collection;
+  series?: Serie;
+  /** Appended to the existing keywords, duplicates ignored */
+  keywords?: string[];
+  archive?: boolean;
+}
+
+export interface BulkFieldChange {
+  field: BulkField | 'archive';
+  before: string | number | null;
+  after: string | number | null;
+}
+
+export interface BulkItemPlan {
+  patch: Partial<Item>;
+  changes: BulkFieldChange[];
+  archive: boolean;
+}
+
+export function splitKeywords(value: string | null | undefined): string[] {
+  return (value ?? '')
+    .split(/[,;]/)
+    .map((keyword) => keyword.trim())
+    .filter(Boolean);
+}
+
+export function planItemUpdate(item: Item, changes: BulkItemChanges): BulkItemPlan {
+  const patch: Partial<Item> = {};
+  const fieldChanges: BulkFieldChange[] = [];
+
+  const setCode = <K extends 'media_type' | 'audience_type' | 'genre' | 'lang'>(field: K, value: Item[K] | undefined) => {
+    if (value === undefined || item[field] === value) return;
+    patch[field] = value;
+    fieldChanges.push({ field, before: item[field] ?? null, after: value ?? null });
+  };
+  setCode('media_type', changes.media_type);
+  setCode('audience_type', changes.audience_type);
+  setCode('genre', changes.genre);
+  setCode('lang', changes.lang);
+
+  if (changes.collection && item.collection?.id !== changes.collection.id) {
+    patch.collection = changes.collection;
+    fieldChanges.push({
+      field: 'collection',
+      before: item.collection?.primary_title || item.collection?.id || null,
+      after: changes.collection.primary_title || changes.collection.id,
+    });
+  }
+
+  if (changes.series && (item.series?.name ?? '') !== (changes.series.name ?? '')) {
+    patch.series = changes.series;
+    fieldChanges.push({ field: 'series', before: item.series?.name ?? null, after: changes.series.name ?? null });
+  }
+
+  if (changes.keywords && changes.keywords.length > 0) {
+    const current = splitKeywords(item.keywords);
+    const known = new Set(current.map((keyword) => keyword.toLowerCase()));
+    const added = changes.keywords.filter((keyword) => !known.has(keyword.toLowerCase()));
+    if (added.length > 0) {
+      patch.keywords = [...current, ...added].join(', ');
+      fieldChanges.push({ field: 'keywords', before: item.keywords || null, after: patch.keywords });
+    }
+  }
+
+  const archive = Boolean(changes.archive && !item.archived_at);
+  if (archive) fieldChanges.push({ field: 'archive', before: null, after: null });
+
+  return { patch, changes: fieldChanges, archive };
+}
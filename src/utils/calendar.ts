@@ -0,0 +1,214 @@
+import type { Closure, ClosureKind, Loan, OpeningCalendar, OpeningHours } from '@/types';
+
+/** Monday-first display order of Date.getDay() weekdays */
+export const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+const ICS_DAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+/** Local "YYYY-MM-DD" (toISOString would shift the day in positive UTC offsets) */
+export function toDateKey(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+export function parseDateKey(key: string): Date {
+  const [y, m, d] = key.split('-').map(Number);
+  return new Date(y, m - 1, d);
+}
+
+export function findClosure(date: Date, calendar: OpeningCalendar): Closure | undefined {
+  const key = toDateKey(date);
+  return calendar.closures.find((c) => c.start_date <= key && key <= c.end_date);
+}
+
+export function isOpenDay(date: Date, calendar: OpeningCalendar): boolean {
+  const hours = calendar.weekly_hours.find((h) => h.weekday === date.getDay());
+  if (!hours || hours.periods.length === 0) return false;
+  return !findClosure(date, calendar);
+}
+
+/**
+ * First open day on or after the given date. Returns the date unchanged when the
+ * calendar has no opening hours at all (nothing configured yet).
+ */
+export function nextOpenDay(date: Date, calendar?: OpeningCalendar | null): Date {
+  if (!calendar || !calendar.weekly_hours.some((h) => h.periods.length > 0)) return date;
+  const day = new Date(date);
+  for (let i = 0; i < 366; i++) {
+    if (isOpenDay(day, calendar)) return day;
+    day.setDate(day.getDate() + 1);
+  }
+  return date;
+}
+
+// iCalendar ---------------------------------------------------------------------
+
+function icsEscape(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+}
+
+function icsUnescape(value: string): string {
+  // One pass, so an escaped backslash followed by "n" stays a backslash and an "n"
+  return value.replace(/\\([nN;,\\])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+function icsDate(key: string): string {
+  return key.replace(/-/g, '');
+}
+
+function addDays(key: string, days: number): string {
+  const date = parseDateKey(key);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+}
+
+/**
+ * Exports the calendar: each opening period as a weekly recurring event,
+ * each closure/holiday as an all-day event (CATEGORIES carries the kind).
+ */
+export function calendarToIcs(calendar: OpeningCalendar, name: string): string {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Elidune//Opening calendar//EN', `X-WR-CALNAME:${icsEscape(name)}`];
+  const stamp = `${icsDate(toDateKey(new Date()))}T000000Z`;
+
+  // Anchor recurring events on the first matching weekday of 2024 (1 January 2024 is a Monday)
+  for (const hours of calendar.weekly_hours) {
+    const anchor = toDateKey(new Date(2024, 0, 1 + ((hours.weekday + 6) % 7)));
+    hours.periods.forEach((period, index) => {
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:opening-${hours.weekday}-${index}@elidune`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${icsDate(anchor)}T${period.open.replace(':', '')}00`,
+        `DTEND:${icsDate(anchor)}T${period.close.replace(':', '')}00`,
+        `RRULE:FREQ=WEEKLY;BYDAY=${ICS_DAYS[hours.weekday]}`,
+        'SUMMARY:Open',
+        'END:VEVENT'
+      );
+    });
+  }
+
+  calendar.closures.forEach((closure, index) => {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${closure.id ?? `closure-${index}-${closure.start_date}`}@elidune`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(closure.start_date)}`,
+      // DTEND is exclusive for all-day events
+      `DTEND;VALUE=DATE:${icsDate(addDays(closure.end_date, 1))}`,
+      `SUMMARY:${icsEscape(closure.label || closure.kind)}`,
+      `CATEGORIES:${closure.kind.toUpperCase()}`,
+      'TRANSP:OPAQUE',
+      'END:VEVENT'
+    );
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Exports due dates: one all-day event per due day listing the titles due that day.
+ * UIDs are derived from the date so re-importing updates the events instead of duplicating them.
+ */
+export function dueDatesToIcs(loans: Loan[], name: string, summary: (count: number) => string): string {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', 'PRODID:-//Elidune//Due dates//EN', `X-WR-CALNAME:${icsEscape(name)}`];
+  const stamp = `${icsDate(toDateKey(new Date()))}T000000Z`;
+
+  const byDay = new Map<string, Loan[]>();
+  for (const loan of loans) {
+    const key = toDateKey(new Date(loan.issue_date));
+    byDay.set(key, [...(byDay.get(key) ?? []), loan]);
+  }
+
+  for (const [key, dayLoans] of [...byDay.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:due-${key}@elidune`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(key)}`,
+      `DTEND;VALUE=DATE:${icsDate(addDays(key, 1))}`,
+      `SUMMARY:${icsEscape(summary(dayLoans.length))}`,
+      `DESCRIPTION:${icsEscape(dayLoans.map((loan) => `- ${loan.item.title || '?'}`).join('\n'))}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.join('\r\n') + '\r\n';
+}
+
+function parseIcsDateKey(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+}
+
+function parseIcsTime(value: string): string | null {
+  const match = value.match(/T(\d{2})(\d{2})/);
+  return match ? `${match[1]}:${match[2]}` : null;
+}
+
+/**
+ * Reads an .ics file: weekly recurring timed events become opening hours, all-day
+ * events become closures (holidays when CATEGORIES contains HOLIDAY).
+ */
+export function icsToCalendar(content: string): OpeningCalendar {
+  // Unfold continuation lines (RFC 5545 §3.1)
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const weekly = new Map<number, OpeningHours>();
+  const closures: Closure[] = [];
+  let event: Record<string, { params: string; value: string }> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+    if (line === 'END:VEVENT' && event) {
+      const start = event.DTSTART;
+      const end = event.DTEND;
+      const rrule = event.RRULE?.value ?? '';
+      if (start && /FREQ=WEEKLY/.test(rrule)) {
+        const open = parseIcsTime(start.value);
+        const close = end ? parseIcsTime(end.value) : null;
+        const days = (rrule.match(/BYDAY=([A-Z,]+)/)?.[1] ?? '').split(',').filter(Boolean);
+        if (open && close) {
+          for (const day of days) {
+            const weekday = ICS_DAYS.indexOf(day.slice(-2));
+            if (weekday < 0) continue;
+            const hours = weekly.get(weekday) ?? { weekday, periods: [] };
+            hours.periods.push({ open, close });
+            weekly.set(weekday, hours);
+          }
+        }
+      } else if (start) {
+        const startKey = parseIcsDateKey(start.value);
+        const isAllDay = start.params.includes('VALUE=DATE') || !start.value.includes('T');
+        if (startKey && isAllDay) {
+          const endKey = end ? parseIcsDateKey(end.value) : null;
+          const kind: ClosureKind = /HOLIDAY/i.test(event.CATEGORIES?.value ?? '') ? 'holiday' : 'closure';
+          closures.push({
+            start_date: startKey,
+            end_date: endKey && endKey > startKey ? addDays(endKey, -1) : startKey,
+            label: event.SUMMARY ? icsUnescape(event.SUMMARY.value) : null,
+            kind,
+          });
+        }
+      }
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+    const match = line.match(/^([A-Z-]+)((?:;[^:]*)?):(.*)$/);
+    if (match) event[match[1]] = { params: match[2], value: match[3] };
+  }
+
+  const weekly_hours = Array.from(weekly.values()).map((h) => ({
+    ...h,
+    periods: [...h.periods].sort((a, b) => a.open.localeCompare(b.open)),
+  }));
+  closures.sort((a, b) => a.start_date.localeCompare(b.start_date));
+  return { weekly_hours, closures };
+}
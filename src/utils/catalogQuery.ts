@@ -0,0 +1,192 @@
+import type { QueryCondition, QueryField, QueryGroup, QueryNode, QueryOperator } from '@/types';
+
+/**
+ * Text syntax of catalog queries, shared by the builder, saved searches and the `q` URL param:
+ *   title:"le petit prince" AND (author:hugo OR author:zola) NOT subject:guerre date:1990..2000
+ * AND binds tighter than OR, adjacent terms are AND-ed, NOT negates the next term or group.
+ */
+
+/** Builder field order; 'any' searches all text fields */
+export const QUERY_FIELDS: QueryField[] = ['any', 'title', 'author', 'subject', 'keywords', 'publisher', 'isbn', 'call_number', 'date'];
+
+export type QuerySyntaxError = 'unterminatedQuote' | 'unbalancedParens' | 'missingTerm';
+
+export type QueryParseResult = { ok: true; query: QueryGroup } | { ok: false; error: QuerySyntaxError; position: number };
+
+type Token =
+  | { type: '(' | ')' | 'AND' | 'OR' | 'NOT'; position: number }
+  | { type: 'term'; field: QueryField; value: string; position: number };
+
+class SyntaxFailure {
+  constructor(
+    public error: QuerySyntaxError,
+    public position: number
+  ) {}
+}
+
+export function emptyQuery(operator: QueryOperator = 'AND'): QueryGroup {
+  return { kind: 'group', operator, children: [emptyCondition()] };
+}
+
+export function emptyCondition(field: QueryField = 'any'): QueryCondition {
+  return { kind: 'condition', field, value: '' };
+}
+
+/** Date ranges are stored as 'from..to'; a single year means that year only */
+export function splitDateRange(value: string): [string, string] {
+  if (!value.includes('..')) return [value, value];
+  const [from, to] = value.split('..');
+  return [from ?? '', to ?? ''];
+}
+
+export function joinDateRange(from: string, to: string): string {
+  if (from && from === to) return from;
+  return from || to ? `${from}..${to}` : '';
+}
+
+const isBlank = (node: QueryNode): boolean =>
+  node.kind === 'condition' ? !node.value.trim() || node.value.trim() === '..' : node.children.every(isBlank);
+
+export function isQueryEmpty(query: QueryGroup): boolean {
+  return isBlank(query);
+}
+
+function quote(value: string): string {
+  // Values looking like a `field:` prefix are quoted too, or they would parse back as a field condition
+  if (value && !/[\s()"]/.test(value) && !/^(AND|OR|NOT)$/.test(value) && !/^[a-z_]+:/.test(value)) return value;
+  return `"${value.replace(/["\\]/g, '\\$&')}"`;
+}
+
+function serializeNode(node: QueryNode, nested: boolean): string {
+  const prefix = node.negate ? 'NOT ' : '';
+  if (node.kind === 'condition') {
+    const value = node.value.trim();
+    const term = node.field === 'date' ? value.replace(/\s/g, '') : quote(value);
+    return prefix + (node.field === 'any' ? term : `${node.field}:${term}`);
+  }
+  const parts = node.children.filter((child) => !isBlank(child)).map((child) => serializeNode(child, true));
+  if (parts.length === 0) return '';
+  const body = parts.join(` ${node.operator} `);
+  // Groups keep their parentheses so the builder tree survives a round trip through text
+  return nested && (parts.length > 1 || node.negate) ? `${prefix}(${body})` : prefix + body;
+}
+
+export function serializeQuery(query: QueryGroup): string {
+  return serializeNode(query, false);
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (): string => {
+    const start = i;
+    let value = '';
+    i++; // opening quote
+    while (i < text.length && text[i] !== '"') {
+      if (text[i] === '\\' && i + 1 < text.length) i++;
+      value += text[i];
+      i++;
+    }
+    if (i >= text.length) throw new SyntaxFailure('unterminatedQuote', start);
+    i++; // closing quote
+    return value;
+  };
+
+  const readBare = (): string => {
+    const start = i;
+    while (i < text.length && !/[\s()]/.test(text[i])) i++;
+    return text.slice(start, i);
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+    const position = i;
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === '(' || ch === ')') {
+      tokens.push({ type: ch, position });
+      i++;
+    } else if (ch === '"') {
+      tokens.push({ type: 'term', field: 'any', value: readQuoted(), position });
+    } else {
+      const prefix = /^([a-z_]+):/.exec(text.slice(i));
+      if (prefix && (QUERY_FIELDS as string[]).includes(prefix[1]) && prefix[1] !== 'any') {
+        i += prefix[0].length;
+        const value = text[i] === '"' ? readQuoted() : readBare();
+        tokens.push({ type: 'term', field: prefix[1] as QueryField, value, position });
+      } else {
+        const word = readBare();
+        if (word === 'AND' || word === 'OR' || word === 'NOT') tokens.push({ type: word, position });
+        else tokens.push({ type: 'term', field: 'any', value: word, position });
+      }
+    }
+  }
+  return tokens;
+}
+
+/** Parses the text syntax into a builder tree; the root is always a group */
+export function parseQuery(text: string): QueryParseResult {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(text);
+  } catch (failure) {
+    if (failure instanceof SyntaxFailure) return { ok: false, error: failure.error, position: failure.position };
+    throw failure;
+  }
+  let pos = 0;
+  const peek = () => tokens[pos];
+
+  const group = (operator: QueryOperator, children: QueryNode[]): QueryNode =>
+    children.length === 1 ? children[0] : { kind: 'group', operator, children };
+
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (peek()?.type === 'OR') {
+      pos++;
+      children.push(parseAnd());
+    }
+    return group('OR', children);
+  };
+
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    for (;;) {
+      const next = peek();
+      if (!next || next.type === 'OR' || next.type === ')') break;
+      if (next.type === 'AND') pos++;
+      children.push(parseUnary());
+    }
+    return group('AND', children);
+  };
+
+  const parseUnary = (): QueryNode => {
+    const token = peek();
+    if (!token) throw new SyntaxFailure('missingTerm', text.length);
+    pos++;
+    if (token.type === 'NOT') {
+      const node = parseUnary();
+      return { ...node, negate: !node.negate };
+    }
+    if (token.type === '(') {
+      const inner = parseOr();
+      if (peek()?.type !== ')') throw new SyntaxFailure('unbalancedParens', token.position);
+      pos++;
+      return inner;
+    }
+    if (token.type === 'term') return { kind: 'condition', field: token.field, value: token.value };
+    throw new SyntaxFailure('missingTerm', token.position);
+  };
+
+  try {
+    if (tokens.length === 0) return { ok: true, query: emptyQuery() };
+    const root = parseOr();
+    const extra = peek();
+    if (extra) throw new SyntaxFailure(extra.type === ')' ? 'unbalancedParens' : 'missingTerm', extra.position);
+    const query: QueryGroup = root.kind === 'group' && !root.negate ? root : { kind: 'group', operator: 'AND', children: [root] };
+    return { ok: true, query };
+  } catch (failure) {
+    if (failure instanceof SyntaxFailure) return { ok: false, error: failure.error, position: failure.position };
+    throw failure;
+  }
+}
@@ -1,6 +1,8 @@
 // Mapping of server property codes to i18n translation keys.
 // Each entry maps { value (sent to/from API), labelKey (i18n key) }.
 
+import type { MediaType, MediaTypeOption } from '@/types';
+
 export interface CodeOption {
   value: string;
   labelKey: string;
@@ -184,6 +186,18 @@ const MEDIA_TYPE_KEY_MAP: Record<string, string> = {
   'i': 'items.mediaType.images',
 };
 
+// Media types offered in pickers, in display order
+const MEDIA_TYPE_CODES: MediaType[] = ['u', 'b', 'bc', 'p', 'v', 'vt', 'vd', 'a', 'am', 'amt', 'amc', 'an', 'c', 'i', 'm'];
+
+/**
+ * Options of a media type select.
+ * @param allLabel - label of a leading "any type" option (value ''), omitted when not given
+ */
+export function getMediaTypeOptions(t: (key: string) => string, allLabel?: string): MediaTypeOption[] {
+  const options: MediaTypeOption[] = MEDIA_TYPE_CODES.map((value) => ({ value, label: t(MEDIA_TYPE_KEY_MAP[value]) }));
+  return allLabel === undefined ? options : [{ value: '', label: allLabel }, ...options];
+}
+
 // Textual label → i18n key mapping for public types (when API returns text labels instead of codes)
 const PUBLIC_TYPE_TEXT_MAP: Record<string, string> = {
   'adult': 'codes.publicType.adult',
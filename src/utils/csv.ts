@@ -0,0 +1,24 @@
+/**
+ * CSV export (RFC 4180). A UTF-8 BOM is prepended so spreadsheet software detects the encoding.
+ */
+import { downloadBlob } from '@/utils/download';
+
+export type CsvCell = string | number | null | undefined;
+
+// Text a spreadsheet would run as a formula (CSV injection); numbers are left alone so negatives stay numeric
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function csvCell(value: CsvCell): string {
+  let text = value == null ? '' : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvCell[][]): string {
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n');
+}
+
+export function downloadCsv(rows: CsvCell[][], filename: string): void {
+  const blob = new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' });
+  downloadBlob(blob, filename);
+}
@@ -0,0 +1,21 @@
+const DESK_SOURCE_KEY = 'desk_source_id';
+
+/** Days after which a copy still in transit is flagged as stuck */
+export const TRANSFER_STUCK_DAYS = 7;
+
+/** Source (branch) of this workstation's circulation desk, kept per browser */
+export function getDeskSourceId(): string {
+  return localStorage.getItem(DESK_SOURCE_KEY) ?? '';
+}
+
+export function setDeskSourceId(sourceId: string): void {
+  if (sourceId) {
+    localStorage.setItem(DESK_SOURCE_KEY, sourceId);
+  } else {
+    localStorage.removeItem(DESK_SOURCE_KEY);
+  }
+}
+
+export function daysInTransit(sentAt: string, now: Date): number {
+  return Math.floor((now.getTime() - new Date(sentAt).getTime()) / (1000 * 60 * 60 * 24));
+}
@@ -0,0 +1,40 @@
+import type { FacetField, FacetSelection } from '@/types';
+
+/** Display order of the facet groups in the catalog sidebar */
+export const FACET_FIELDS: FacetField[] = ['availability', 'media_type', 'audience_type', 'lang', 'genre', 'year', 'source'];
+
+/** Facet values travel comma-separated, both in the page URL and in API query params */
+export function parseFacetSelection(params: URLSearchParams): FacetSelection {
+  const selection: FacetSelection = {};
+  for (const field of FACET_FIELDS) {
+    const values = params.get(field)?.split(',').filter(Boolean);
+    if (values?.length) selection[field] = values;
+  }
+  return selection;
+}
+
+export function facetSelectionToParams(selection: FacetSelection): Partial<Record<FacetField, string>> {
+  const params: Partial<Record<FacetField, string>> = {};
+  for (const field of FACET_FIELDS) {
+    const values = selection[field];
+    if (values?.length) params[field] = values.join(',');
+  }
+  return params;
+}
+
+export function toggleFacet(selection: FacetSelection, field: FacetField, value: string): FacetSelection {
+  const current = selection[field] ?? [];
+  const values = current.includes(value) ? current.filter((v) => v !== value) : [...current, value];
+  const next = { ...selection };
+  if (values.length) next[field] = values;
+  else delete next[field];
+  return next;
+}
+
+/** '1990-1999' → '1990–1999'; open-ended ranges ('-1949', '2020-') keep their missing bound empty */
+export function formatYearRange(value: string, before: (year: string) => string, since: (year: string) => string): string {
+  const [from, to] = value.split('-');
+  if (!from && to) return before(to);
+  if (from && !to) return since(from);
+  return from === to ? from : `${from}–${to}`;
+}
@@ -0,0 +1,11 @@
+import type { Loan } from '@/types';
+
+/** Overdue loans that count as such: "claims returned" loans are followed up separately */
+export function isCountedOverdue(loan: Loan): boolean {
+  return loan.is_overdue && loan.state !== 'claims_returned';
+}
+
+/** Lost, damaged and claims-returned loans are settled by staff, not by renewal or a plain return */
+export function hasLoanIssue(loan: Loan): boolean {
+  return loan.state != null && loan.state !== 'active';
+}
@@ -0,0 +1,135 @@
+import type { MarcField, MarcFormat, MarcRecord } from '@/types';
+
+export const LEADER_LENGTH = 24;
+
+/** Title field that every record must carry */
+export const TITLE_TAG: Record<MarcFormat, string> = { UNIMARC: '200', MARC21: '245' };
+
+const TAG_PATTERN: Record<MarcFormat, RegExp> = {
+  // UNIMARC tags are numeric; MARC21 also allows alphanumeric local tags
+  UNIMARC: /^\d{3}$/,
+  MARC21: /^[0-9A-Za-z]{3}$/,
+};
+
+const INDICATOR_PATTERN: Record<MarcFormat, RegExp> = {
+  UNIMARC: /^[0-9 ]$/,
+  MARC21: /^[0-9a-z ]$/,
+};
+
+const SUBFIELD_CODE_PATTERN = /^[0-9a-z]$/;
+
+/** ISO 2709 writes the leader byte for byte: a multi-byte character would shift every offset */
+export const NON_ASCII = /[^\x20-\x7E]/g;
+
+/** Item.marc_format as stored by the server ('unimarc', 'MARC21', ...); records without one are UNIMARC */
+export function normalizeMarcFormat(value?: string | null): MarcFormat {
+  return value && value.replace(/[^a-z0-9]/gi, '').toUpperCase() === 'MARC21' ? 'MARC21' : 'UNIMARC';
+}
+
+export function isControlTag(tag: string): boolean {
+  return /^00[0-9A-Za-z]$/.test(tag);
+}
+
+export function displayIndicator(value?: string): string {
+  return !value || value === ' ' ? '#' : value;
+}
+
+/** '#' is how cataloguers type a blank indicator */
+export function parseIndicator(value: string): string {
+  const ch = value.slice(-1);
+  return !ch || ch === '#' ? ' ' : ch;
+}
+
+/** One line per field, as printed in cataloguing tools: `200 1# $aTitle$eSubtitle` */
+export function formatMarcField(field: MarcField): string {
+  if (isControlTag(field.tag)) return `${field.tag}    ${field.value ?? ''}`;
+  const indicators = displayIndicator(field.ind1) + displayIndicator(field.ind2);
+  const subfields = (field.subfields ?? []).map((sf) => `$${sf.code}${sf.value}`).join('');
+  return `${field.tag} ${indicators} ${subfields}`;
+}
+
+export type MarcIssueCode =
+  | 'leaderLength'
+  | 'leaderCharacters'
+  | 'tagSyntax'
+  | 'indicatorSyntax'
+  | 'subfieldCode'
+  | 'emptySubfield'
+  | 'noSubfields'
+  | 'emptyControlField'
+  | 'missingTitle';
+
+export interface MarcIssue {
+  code: MarcIssueCode;
+  /** Index in record.fields; absent for record-level issues */
+  fieldIndex?: number;
+  subfieldIndex?: number;
+}
+
+/** Syntax check of tags, indicators and subfields for the record's format; an empty list means it can be saved */
+export function validateMarcRecord(record: MarcRecord, format: MarcFormat): MarcIssue[] {
+  const issues: MarcIssue[] = [];
+  if (record.leader.length !== LEADER_LENGTH) issues.push({ code: 'leaderLength' });
+  if (record.leader.search(NON_ASCII) !== -1) issues.push({ code: 'leaderCharacters' });
+
+  record.fields.forEach((field, fieldIndex) => {
+    if (!TAG_PATTERN[format].test(field.tag)) {
+      issues.push({ code: 'tagSyntax', fieldIndex });
+      return;
+    }
+    if (isControlTag(field.tag)) {
+      if (!field.value) issues.push({ code: 'emptyControlField', fieldIndex });
+      return;
+    }
+    const ind1 = field.ind1 || ' ';
+    const ind2 = field.ind2 || ' ';
+    if (!INDICATOR_PATTERN[format].test(ind1) || !INDICATOR_PATTERN[format].test(ind2)) {
+      issues.push({ code: 'indicatorSyntax', fieldIndex });
+    }
+    const subfields = field.subfields ?? [];
+    if (subfields.length === 0) issues.push({ code: 'noSubfields', fieldIndex });
+    subfields.forEach((subfield, subfieldIndex) => {
+      if (!SUBFIELD_CODE_PATTERN.test(subfield.code)) issues.push({ code: 'subfieldCode', fieldIndex, subfieldIndex });
+      else if (!subfield.value.trim()) issues.push({ code: 'emptySubfield', fieldIndex, subfieldIndex });
+    });
+  });
+
+  if (!record.fields.some((field) => field.tag === TITLE_TAG[format])) issues.push({ code: 'missingTitle' });
+  return issues;
+}
+
+export interface MarcDiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+/** Line diff of two records (leader + one line per field), longest common subsequence */
+export function diffMarcRecords(before: MarcRecord, after: MarcRecord): MarcDiffLine[] {
+  const a = [`LDR    ${before.leader}`, ...before.fields.map(formatMarcField)];
+  const b = [`LDR    ${after.leader}`, ...after.fields.map(formatMarcField)];
+
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: MarcDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+}
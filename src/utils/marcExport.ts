@@ -0,0 +1,210 @@
+import { isControlTag, LEADER_LENGTH, NON_ASCII } from '@/utils/marc';
+import { downloadBlob } from '@/utils/download';
+import type { MarcField, MarcFormat, MarcRecord, Specimen } from '@/types';
+
+/**
+ * MARC export: MARCXML (slim schema) and ISO 2709 exchange format, both UTF-8.
+ * Specimens are written as holdings fields: 995 (French UNIMARC holdings) or 852 (MARC21 location).
+ */
+export type MarcExportFormat = 'marcxml' | 'iso2709';
+
+export const HOLDINGS_TAG: Record<MarcFormat, string> = { UNIMARC: '995', MARC21: '852' };
+
+const FIELD_TERMINATOR = 0x1e;
+const RECORD_TERMINATOR = 0x1d;
+const SUBFIELD_DELIMITER = 0x1f;
+
+/** ISO 2709 lengths are written on 4 digits in the directory (fields) and 5 in the leader (records) */
+const MAX_FIELD_LENGTH = 9999;
+const MAX_RECORD_LENGTH = 99999;
+
+export type Iso2709LengthError = 'fieldTooLong' | 'recordTooLong';
+
+function holdingsField(specimen: Specimen, format: MarcFormat): MarcField {
+  const candidates: [string, string | null | undefined][] =
+    format === 'UNIMARC'
+      ? [
+          ['b', specimen.source_name],
+          ['f', specimen.barcode],
+          ['k', specimen.call_number],
+          ['v', specimen.volume_designation],
+          ['u', specimen.notes],
+        ]
+      : [
+          ['3', specimen.volume_designation],
+          ['a', specimen.source_name],
+          ['h', specimen.call_number],
+          ['p', specimen.barcode],
+          ['z', specimen.notes],
+        ];
+  return {
+    tag: HOLDINGS_TAG[format],
+    ind1: ' ',
+    ind2: ' ',
+    subfields: candidates.filter(([, value]) => value).map(([code, value]) => ({ code, value: String(value) })),
+  };
+}
+
+/** Replaces stored holdings fields with one per current (non-archived) specimen */
+export function withHoldings(record: MarcRecord, specimens: Specimen[] | undefined, format: MarcFormat): MarcRecord {
+  const tag = HOLDINGS_TAG[format];
+  const holdings = (specimens ?? [])
+    .filter((specimen) => !specimen.archived_at)
+    .map((specimen) => holdingsField(specimen, format))
+    .filter((field) => field.subfields && field.subfields.length > 0);
+  return { ...record, fields: [...record.fields.filter((field) => field.tag !== tag), ...holdings] };
+}
+
+/** UNIMARC 100$a positions 26-29 declare the character set: "50" is ISO 10646 (Unicode), as both exports are UTF-8 */
+function withUnicodeCharset(record: MarcRecord, format: MarcFormat): MarcRecord {
+  if (format !== 'UNIMARC') return record;
+  return {
+    ...record,
+    fields: record.fields.map((field) =>
+      field.tag === '100'
+        ? {
+            ...field,
+            subfields: field.subfields?.map((subfield) => {
+              if (subfield.code !== 'a') return subfield;
+              const value = subfield.value.padEnd(36, ' ');
+              return { ...subfield, value: value.slice(0, 26) + '50  ' + value.slice(30) };
+            }),
+          }
+        : field
+    ),
+  };
+}
+
+/**
+ * Leader with the structural positions every exchange format requires; length and base address are filled later.
+ * Non-ASCII characters, which the editor rejects but legacy records may carry, are blanked.
+ */
+function normalizeLeader(leader: string, format: MarcFormat): string {
+  const chars = leader.replace(NON_ASCII, ' ').padEnd(LEADER_LENGTH, ' ').slice(0, LEADER_LENGTH).split('');
+  chars[10] = '2'; // indicator count
+  chars[11] = '2'; // subfield code length
+  if (format === 'MARC21') chars[9] = 'a'; // UCS/Unicode
+  chars[20] = '4';
+  chars[21] = '5';
+  chars[22] = '0';
+  chars[23] = '0';
+  return chars.join('');
+}
+
+// Characters XML 1.0 forbids, which occasionally survive in legacy records
+// eslint-disable-next-line no-control-regex
+const INVALID_XML_CHARS = /[\x00-\x08\x0B\x0C\x0E-\x1F]/g;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export function toMarcXml(records: MarcRecord[], format: MarcFormat): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>', '<collection xmlns="http://www.loc.gov/MARC21/slim">'];
+  for (const record of records.map((r) => withUnicodeCharset(r, format))) {
+    lines.push('  <record>');
+    lines.push(`    <leader>${escapeXml(normalizeLeader(record.leader, format))}</leader>`);
+    for (const field of record.fields) {
+      if (isControlTag(field.tag)) {
+        lines.push(`    <controlfield tag="${escapeXml(field.tag)}">${escapeXml(field.value ?? '')}</controlfield>`);
+        continue;
+      }
+      lines.push(
+        `    <datafield tag="${escapeXml(field.tag)}" ind1="${escapeXml(field.ind1 || ' ')}" ind2="${escapeXml(field.ind2 || ' ')}">`
+      );
+      for (const subfield of field.subfields ?? []) {
+        lines.push(`      <subfield code="${escapeXml(subfield.code)}">${escapeXml(subfield.value)}</subfield>`);
+      }
+      lines.push('    </datafield>');
+    }
+    lines.push('  </record>');
+  }
+  lines.push('</collection>', '');
+  return lines.join('\n');
+}
+
+const pad = (value: number, width: number) => String(value).padStart(width, '0');
+
+function encodeFields(record: MarcRecord, encoder: TextEncoder): number[][] {
+  return record.fields.map((field) => {
+    const parts: number[] = [];
+    if (isControlTag(field.tag)) {
+      parts.push(...encoder.encode(field.value ?? ''));
+    } else {
+      parts.push(...encoder.encode((field.ind1 || ' ') + (field.ind2 || ' ')));
+      for (const subfield of field.subfields ?? []) {
+        parts.push(SUBFIELD_DELIMITER, ...encoder.encode(subfield.code + subfield.value));
+      }
+    }
+    parts.push(FIELD_TERMINATOR);
+    return parts;
+  });
+}
+
+function lengthError(fieldBytes: number[][]): Iso2709LengthError | null {
+  if (fieldBytes.some((field) => field.length > MAX_FIELD_LENGTH)) return 'fieldTooLong';
+  // Leader, 12-byte directory entry per field, directory terminator, data, record terminator
+  const length = LEADER_LENGTH + 12 * fieldBytes.length + 1 + fieldBytes.reduce((total, field) => total + field.length, 0) + 1;
+  return length > MAX_RECORD_LENGTH ? 'recordTooLong' : null;
+}
+
+/** Why a record cannot be written as ISO 2709, if it cannot: such records are left out of the export and reported */
+export function iso2709LengthError(record: MarcRecord, format: MarcFormat): Iso2709LengthError | null {
+  // Measured as encoded, with the padded 100$a, so the export never exceeds a limit the check let through
+  return lengthError(encodeFields(withUnicodeCharset(record, format), new TextEncoder()));
+}
+
+/** One ISO 2709 record: leader, directory (tag + length + offset per field), then the field data */
+function encodeIso2709Record(record: MarcRecord, format: MarcFormat, encoder: TextEncoder): Uint8Array {
+  const fieldBytes = encodeFields(withUnicodeCharset(record, format), encoder);
+  const error = lengthError(fieldBytes);
+  if (error) throw new Error(`ISO 2709 limit exceeded: ${error}`);
+
+  let directory = '';
+  let offset = 0;
+  record.fields.forEach((field, i) => {
+    directory += field.tag.replace(NON_ASCII, '0').padStart(3, '0').slice(0, 3) + pad(fieldBytes[i].length, 4) + pad(offset, 5);
+    offset += fieldBytes[i].length;
+  });
+
+  const baseAddress = LEADER_LENGTH + directory.length + 1;
+  const recordLength = baseAddress + offset + 1;
+  const leader = normalizeLeader(record.leader, format);
+  const header = pad(recordLength, 5) + leader.slice(5, 12) + pad(baseAddress, 5) + leader.slice(17);
+
+  const bytes = new Uint8Array(recordLength);
+  let position = 0;
+  for (const byte of encoder.encode(header + directory)) bytes[position++] = byte;
+  bytes[position++] = FIELD_TERMINATOR;
+  for (const field of fieldBytes) {
+    bytes.set(field, position);
+    position += field.length;
+  }
+  bytes[position] = RECORD_TERMINATOR;
+  return bytes;
+}
+
+export function toIso2709(records: MarcRecord[], format: MarcFormat) {
+  const encoder = new TextEncoder();
+  const encoded = records.map((record) => encodeIso2709Record(record, format, encoder));
+  const output = new Uint8Array(encoded.reduce((total, record) => total + record.length, 0));
+  let position = 0;
+  for (const record of encoded) {
+    output.set(record, position);
+    position += record.length;
+  }
+  return output;
+}
+
+export function downloadMarc(records: MarcRecord[], format: MarcFormat, exportFormat: MarcExportFormat, basename: string): void {
+  const blob =
+    exportFormat === 'marcxml'
+      ? new Blob([toMarcXml(records, format)], { type: 'application/marcxml+xml;charset=utf-8' })
+      : new Blob([toIso2709(records, format)], { type: 'application/marc' });
+  downloadBlob(blob, `${basename}.${exportFormat === 'marcxml' ? 'xml' : 'mrc'}`);
+}
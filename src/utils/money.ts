@@ -0,0 +1,38 @@
+import type { FineSettings } from '@/types';
+
+export const DEFAULT_CURRENCY = 'EUR';
+
+/** Used until an administrator saves fine settings */
+export const DEFAULT_FINE_SETTINGS: FineSettings = {
+  currency: DEFAULT_CURRENCY,
+  warning_threshold: 10,
+};
+
+export function formatMoney(amount: number, language: string, currency = DEFAULT_CURRENCY): string {
+  try {
+    return new Intl.NumberFormat(language, { style: 'currency', currency }).format(amount);
+  } catch {
+    return amount.toFixed(2);
+  }
+}
+
+/**
+ * Parses a free-text price as stored in Specimen.price ("12,50 €", "EUR 9.90", "15", "1.234,56 €", "1,234.56").
+ * Only the last "." or "," is the decimal point; earlier ones are thousands separators.
+ * When only one kind of separator appears and the last is followed by exactly 3 digits ("1.234 €", "1,234,567"),
+ * it groups thousands instead.
+ * Returns null when no amount can be read.
+ */
+export function parsePrice(price?: string | null): number | null {
+  if (!price) return null;
+  const match = price.replace(/\s/g, '').match(/\d[\d.,]*/);
+  if (!match) return null;
+  const digits = match[0].replace(/[.,]$/, '');
+  const decimalIndex = Math.max(digits.lastIndexOf('.'), digits.lastIndexOf(','));
+  const grouping = new Set(digits.match(/[.,]/g)).size === 1 && /^\d{3}$/.test(digits.slice(decimalIndex + 1));
+  const value =
+    grouping || decimalIndex < 0
+      ? parseFloat(digits.replace(/[.,]/g, ''))
+      : parseFloat(`${digits.slice(0, decimalIndex).replace(/[.,]/g, '')}.${digits.slice(decimalIndex + 1)}`);
+  return Number.isFinite(value) ? value : null;
+}
@@ -0,0 +1,93 @@
+/**
+ * Persistent queue of circulation transactions recorded while offline (IndexedDB),
+ * replayed in recording order once the server is reachable again.
+ * Transactions rejected on replay are kept in a second store until staff dismiss them.
+ */
+import type { AxiosError } from 'axios';
+import type { OfflineConflict, OfflineTransaction } from '@/types';
+
+const DB_NAME = 'elidune-offline';
+const DB_VERSION = 2;
+const TRANSACTIONS_STORE = 'transactions';
+const CONFLICTS_STORE = 'conflicts';
+
+/** Statuses meaning the server cannot take the request right now: timeout and rate limiting */
+const RETRYABLE_STATUSES = [408, 429];
+
+/**
+ * True when the server could not handle the request for now: no response (server down, network lost),
+ * 5xx, timeout or rate limiting. The transaction is worth keeping for a later replay.
+ */
+export function isServerUnavailable(error: unknown): boolean {
+  const axiosError = error as AxiosError;
+  if (!axiosError?.isAxiosError) return false;
+  const status = axiosError.response?.status;
+  return status === undefined || status >= 500 || RETRYABLE_STATUSES.includes(status);
+}
+
+/** True when the session expired: replay has to wait for staff to sign in again */
+export function isUnauthorized(error: unknown): boolean {
+  return (error as AxiosError)?.response?.status === 401;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const name of [TRANSACTIONS_STORE, CONFLICTS_STORE]) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id', autoIncrement: true });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  name: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(name, mode).objectStore(name));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+export async function addOfflineTransaction(transaction: Omit<OfflineTransaction, 'id'>): Promise<number> {
+  const key = await withStore(TRANSACTIONS_STORE, 'readwrite', (store) => store.add(transaction));
+  return key as number;
+}
+
+/** All queued transactions, oldest first (keys are auto-incremented) */
+export function listOfflineTransactions(): Promise<OfflineTransaction[]> {
+  return withStore(TRANSACTIONS_STORE, 'readonly', (store) => store.getAll() as IDBRequest<OfflineTransaction[]>);
+}
+
+export async function removeOfflineTransaction(id: number): Promise<void> {
+  await withStore(TRANSACTIONS_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+export function countOfflineTransactions(): Promise<number> {
+  return withStore(TRANSACTIONS_STORE, 'readonly', (store) => store.count());
+}
+
+export async function addOfflineConflict(conflict: Omit<OfflineConflict, 'id'>): Promise<void> {
+  await withStore(CONFLICTS_STORE, 'readwrite', (store) => store.add(conflict));
+}
+
+/** Rejected transactions not yet dismissed, oldest first */
+export function listOfflineConflicts(): Promise<OfflineConflict[]> {
+  return withStore(CONFLICTS_STORE, 'readonly', (store) => store.getAll() as IDBRequest<OfflineConflict[]>);
+}
+
+export async function clearOfflineConflicts(): Promise<void> {
+  await withStore(CONFLICTS_STORE, 'readwrite', (store) => store.clear());
+}
@@ -0,0 +1,20 @@
+/** Helpers shared by the printable documents (receipts, reminder letters) */
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/** Opens the HTML document in a new window and triggers the print dialog. Returns false if popups are blocked. */
+export function openPrintWindow(html: string): boolean {
+  const win = window.open('', '_blank', 'width=480,height=640');
+  if (!win) return false;
+  win.document.write(html);
+  win.document.close();
+  win.focus();
+  win.print();
+  return true;
+}
@@ -0,0 +1,169 @@
+/**
+ * Printable receipts (checkout slips): rendered as HTML for the browser print dialog,
+ * or as a small standalone PDF (Helvetica, WinAnsi) for download.
+ */
+import { escapeHtml, openPrintWindow } from '@/utils/print';
+import { downloadBlob } from '@/utils/download';
+
+export interface Receipt {
+  title: string;
+  /** Free lines printed under the title (reader, date, ...) */
+  meta: string[];
+  columns: string[];
+  rows: string[][];
+  footer?: string;
+}
+
+export function buildReceiptHtml(receipt: Receipt): string {
+  const head = receipt.columns.map((c) => `<th>${escapeHtml(c)}</th>`).join('');
+  const body = receipt.rows
+    .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+    .join('');
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(receipt.title)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 12px; margin: 16px; color: #000; }
+  h1 { font-size: 16px; margin: 0 0 8px; }
+  p { margin: 2px 0; }
+  table { width: 100%; border-collapse: collapse; margin-top: 12px; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #ccc; vertical-align: top; }
+  .footer { margin-top: 16px; font-style: italic; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(receipt.title)}</h1>
+${receipt.meta.map((line) => `<p>${escapeHtml(line)}</p>`).join('\n')}
+<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>
+${receipt.footer ? `<p class="footer">${escapeHtml(receipt.footer)}</p>` : ''}
+</body>
+</html>`;
+}
+
+/** Opens the receipt in a new window and triggers the print dialog. Returns false if popups are blocked. */
+export function printReceipt(receipt: Receipt): boolean {
+  return openPrintWindow(buildReceiptHtml(receipt));
+}
+
+// PDF output ------------------------------------------------------------------
+
+const PAGE_WIDTH = 595; // A4, points
+const PAGE_HEIGHT = 842;
+const MARGIN = 50;
+const LINE_HEIGHT = 16;
+
+/** Escapes a PDF literal string; characters outside Latin-1 are replaced with '?' */
+function pdfText(value: string): string {
+  let out = '';
+  for (const ch of value.normalize('NFC')) {
+    const code = ch.codePointAt(0) ?? 63;
+    if (ch === '\\' || ch === '(' || ch === ')') out += `\\${ch}`;
+    else if (code < 32) out += ' ';
+    else if (code > 255) out += '?';
+    else out += ch;
+  }
+  return out;
+}
+
+function truncate(value: string, max: number): string {
+  return value.length > max ? `${value.slice(0, max - 3)}...` : value;
+}
+
+/** Builds a minimal multi-page PDF document from the receipt */
+export function buildReceiptPdf(receipt: Receipt): Blob {
+  const colCount = Math.max(receipt.columns.length, 1);
+  const usable = PAGE_WIDTH - 2 * MARGIN;
+  // First column (title) gets half of the width, the others share the rest
+  const colWidths = receipt.columns.map((_, i) =>
+    colCount === 1 ? usable : i === 0 ? usable / 2 : usable / 2 / (colCount - 1)
+  );
+  const colX = colWidths.map((_, i) => MARGIN + colWidths.slice(0, i).reduce((a, b) => a + b, 0));
+  // Roughly 5.5 points per character at 10pt Helvetica
+  const colChars = colWidths.map((w) => Math.max(Math.floor(w / 5.5) - 1, 4));
+
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const text = (x: number, yPos: number, size: number, bold: boolean, value: string) => {
+    ops.push(`BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(1)} ${yPos.toFixed(1)} Td (${pdfText(value)}) Tj ET`);
+  };
+  const rule = (yPos: number) => {
+    ops.push(`${MARGIN} ${yPos.toFixed(1)} m ${PAGE_WIDTH - MARGIN} ${yPos.toFixed(1)} l S`);
+  };
+  const tableHeader = () => {
+    receipt.columns.forEach((col, i) => text(colX[i], y, 10, true, truncate(col, colChars[i])));
+    rule(y - 4);
+    y -= LINE_HEIGHT + 2;
+  };
+
+  text(MARGIN, y, 16, true, receipt.title);
+  y -= LINE_HEIGHT * 1.5;
+  for (const line of receipt.meta) {
+    text(MARGIN, y, 10, false, line);
+    y -= LINE_HEIGHT;
+  }
+  y -= LINE_HEIGHT / 2;
+  tableHeader();
+
+  for (const row of receipt.rows) {
+    if (y < MARGIN + LINE_HEIGHT) {
+      pages.push(ops);
+      ops = [];
+      y = PAGE_HEIGHT - MARGIN;
+      tableHeader();
+    }
+    row.forEach((cell, i) => text(colX[i], y, 10, false, truncate(cell, colChars[i] ?? 20)));
+    y -= LINE_HEIGHT;
+  }
+  if (receipt.footer) {
+    if (y < MARGIN + LINE_HEIGHT * 2) {
+      pages.push(ops);
+      ops = [];
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= LINE_HEIGHT / 2;
+    text(MARGIN, y, 9, false, receipt.footer);
+  }
+  pages.push(ops);
+
+  // Objects: 1 catalog, 2 page tree, 3-4 fonts, then one page + one content stream per page
+  const objects: string[] = [];
+  const pageIds = pages.map((_, i) => 5 + i * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  pages.forEach((pageOps, i) => {
+    const pageId = pageIds[i];
+    const stream = pageOps.join('\n');
+    objects[pageId] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+  });
+
+  // Every character is a single Latin-1 byte, so string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = pdf.length;
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i) & 0xff;
+  return new Blob([bytes], { type: 'application/pdf' });
+}
+
+export function downloadReceiptPdf(receipt: Receipt, filename: string): void {
+  downloadBlob(buildReceiptPdf(receipt), filename);
+}
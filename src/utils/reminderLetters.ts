@@ -0,0 +1,62 @@
+/**
+ * Batch reminder letters for overdue loans: one letter per borrower, printed through the browser
+ * (each letter starts on a new page).
+ */
+import { escapeHtml, openPrintWindow } from '@/utils/print';
+
+export interface ReminderLetter {
+  /** Name then address lines, printed in the envelope window position */
+  recipient: string[];
+  date: string;
+  subject: string;
+  greeting: string;
+  body: string;
+  columns: string[];
+  rows: string[][];
+  closing: string;
+}
+
+export function buildReminderLettersHtml(title: string, letters: ReminderLetter[]): string {
+  const pages = letters
+    .map((letter) => {
+      const head = letter.columns.map((c) => `<th>${escapeHtml(c)}</th>`).join('');
+      const body = letter.rows
+        .map((row) => `<tr>${row.map((cell) => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`)
+        .join('');
+      return `<section class="letter">
+<div class="recipient">${letter.recipient.map((line) => `<div>${escapeHtml(line)}</div>`).join('')}</div>
+<p class="date">${escapeHtml(letter.date)}</p>
+<p class="subject">${escapeHtml(letter.subject)}</p>
+<p>${escapeHtml(letter.greeting)}</p>
+<p>${escapeHtml(letter.body)}</p>
+<table><thead><tr>${head}</tr></thead><tbody>${body}</tbody></table>
+<p>${escapeHtml(letter.closing)}</p>
+</section>`;
+    })
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Helvetica, Arial, sans-serif; font-size: 12px; color: #000; margin: 0; }
+  .letter { padding: 20mm; page-break-after: always; }
+  .letter:last-child { page-break-after: auto; }
+  .recipient { margin: 25mm 0 15mm 95mm; line-height: 1.4; }
+  .date { text-align: right; }
+  .subject { font-weight: bold; margin: 10mm 0 6mm; }
+  table { width: 100%; border-collapse: collapse; margin: 6mm 0; }
+  th, td { text-align: left; padding: 4px 6px; border-bottom: 1px solid #ccc; vertical-align: top; }
+</style>
+</head>
+<body>
+${pages}
+</body>
+</html>`;
+}
+
+export function printReminderLetters(title: string, letters: ReminderLetter[]): boolean {
+  return openPrintWindow(buildReminderLettersHtml(title, letters));
+}
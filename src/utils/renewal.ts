@@ -0,0 +1,49 @@
+import type { Loan, LoanSettings, OpeningCalendar, User } from '@/types';
+import { nextOpenDay } from '@/utils/calendar';
+
+/** Used when no loan settings exist for the loan's media type */
+export const DEFAULT_MAX_RENEWALS = 2;
+
+/** User.status code meaning the user may not borrow (tab_status "not borrowable") */
+const BLOCKED_USER_STATUS = 110;
+
+export type RenewalBlockReason = 'maxRenewals' | 'holdWaiting' | 'userBlocked' | 'overdue';
+
+export interface RenewalEligibility {
+  canRenew: boolean;
+  reasons: RenewalBlockReason[];
+  maxRenewals: number;
+  renewalsLeft: number;
+  /** Due date after renewal: issue date + duration_days of the media type, pushed to the next open day */
+  newDueDate: Date | null;
+}
+
+export function isUserBlocked(user?: Pick<User, 'status'> | null): boolean {
+  return user?.status === BLOCKED_USER_STATUS;
+}
+
+export function getRenewalEligibility(
+  loan: Loan,
+  loanSettings: LoanSettings[],
+  user?: Pick<User, 'status'> | null,
+  calendar?: OpeningCalendar | null
+): RenewalEligibility {
+  const setting = loanSettings.find((s) => s.media_type === loan.item.media_type);
+  const maxRenewals = setting?.max_renewals ?? DEFAULT_MAX_RENEWALS;
+  const renewalsLeft = Math.max(0, maxRenewals - loan.nb_renews);
+
+  const reasons: RenewalBlockReason[] = [];
+  if (renewalsLeft === 0) reasons.push('maxRenewals');
+  if ((loan.holds_count ?? 0) > 0) reasons.push('holdWaiting');
+  if (isUserBlocked(user)) reasons.push('userBlocked');
+  if (loan.is_overdue) reasons.push('overdue');
+
+  let newDueDate: Date | null = null;
+  if (setting) {
+    newDueDate = new Date(loan.issue_date);
+    newDueDate.setDate(newDueDate.getDate() + setting.duration_days);
+    newDueDate = nextOpenDay(newDueDate, calendar);
+  }
+
+  return { canRenew: reasons.length === 0, reasons, maxRenewals, renewalsLeft, newDueDate };
+}
@@ -0,0 +1,42 @@
+import type { NumberedItem } from '@/types';
+
+/**
+ * Ordering of series and collection members by volume / sequence number.
+ * Numbering is expected to start at 1: missing numbers, leading ones included, are reported as gaps.
+ */
+export type VolumeRow = { kind: 'item'; entry: NumberedItem } | { kind: 'gap'; from: number; to: number };
+
+/** Numbered members first in ascending order, then unnumbered ones by title */
+export function sortByNumber(members: NumberedItem[]): NumberedItem[] {
+  return [...members].sort((a, b) => {
+    if (a.number == null && b.number == null) return (a.item.title ?? '').localeCompare(b.item.title ?? '');
+    if (a.number == null) return 1;
+    if (b.number == null) return -1;
+    return a.number - b.number;
+  });
+}
+
+export function buildVolumeRows(members: NumberedItem[]): VolumeRow[] {
+  const rows: VolumeRow[] = [];
+  let expected = 1;
+  for (const entry of sortByNumber(members)) {
+    if (entry.number != null) {
+      if (entry.number > expected) rows.push({ kind: 'gap', from: expected, to: entry.number - 1 });
+      expected = Math.max(expected, entry.number + 1);
+    }
+    rows.push({ kind: 'item', entry });
+  }
+  return rows;
+}
+
+/** Closest numbered members on each side of `number` (several records may share a number) */
+export function adjacentVolumes(
+  members: NumberedItem[],
+  number: number
+): { previous?: NumberedItem; next?: NumberedItem } {
+  const numbered = sortByNumber(members).filter((entry) => entry.number != null);
+  return {
+    previous: numbered.filter((entry) => (entry.number as number) < number).pop(),
+    next: numbered.find((entry) => (entry.number as number) > number),
+  };
+}